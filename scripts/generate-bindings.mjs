@@ -0,0 +1,179 @@
+// Generates typed ethers v6 bindings for every ABI in src/abi into src/contracts.
+// Run with `npm run codegen` after changing an ABI; the output is committed.
+
+import { readdirSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { ethers } from 'ethers';
+
+const ABI_DIR = 'src/abi';
+const OUT_DIR = 'src/contracts';
+
+const HEADER = (source) =>
+  `// Generated by scripts/generate-bindings.mjs${source ? ` from ${source}` : ''}. Do not edit;\n` +
+  '// run `npm run codegen` after changing an ABI.\n';
+
+const lowerFirst = (name) => name.charAt(0).toLowerCase() + name.slice(1);
+
+// ABI parameter -> TypeScript type, for values passed in (inputs) or read back (outputs)
+function tsType(param, direction) {
+  if (param.baseType === 'array') {
+    return `${tsType(param.arrayChildren, direction)}[]`;
+  }
+  if (param.baseType === 'tuple') {
+    const fields = param.components.map((component, index) =>
+      `${component.name || `field${index}`}: ${tsType(component, direction)}`);
+    return `{ ${fields.join('; ')} }`;
+  }
+  if (param.type === 'address') return direction === 'input' ? 'ethers.AddressLike' : 'string';
+  if (param.type === 'bool') return 'boolean';
+  if (param.type === 'string') return 'string';
+  if (param.type.startsWith('bytes')) return direction === 'input' ? 'ethers.BytesLike' : 'string';
+  if (param.type.startsWith('uint') || param.type.startsWith('int')) {
+    return direction === 'input' ? 'ethers.BigNumberish' : 'bigint';
+  }
+  throw new Error(`Unsupported ABI type ${param.type}`);
+}
+
+const argsTuple = (inputs) =>
+  `[${inputs.map((input, index) => `${input.name || `arg${index}`}: ${tsType(input, 'input')}`).join(', ')}]`;
+
+function outputType(outputs) {
+  if (outputs.length === 0) return 'void';
+  if (outputs.length === 1) return tsType(outputs[0], 'output');
+  const tuple = `[${outputs.map(output => tsType(output, 'output')).join(', ')}]`;
+  if (outputs.some(output => !output.name)) return tuple;
+  return `${tuple} & { ${outputs.map(output => `${output.name}: ${tsType(output, 'output')}`).join('; ')} }`;
+}
+
+const argsObject = (inputs) =>
+  inputs.length === 0
+    ? 'Record<string, never>'
+    : `{ ${inputs.map(input => `${input.name}: ${tsType(input, 'output')}`).join('; ')} }`;
+
+function generateCommon() {
+  return `${HEADER()}
+import { ethers } from 'ethers';
+
+export type StateMutability = 'view' | 'pure' | 'nonpayable' | 'payable';
+
+type WithOverrides<Args extends unknown[]> = Args | [...Args, ethers.Overrides];
+
+// A contract method with its argument and return types; reads resolve to the decoded result,
+// writes to the sent transaction
+export interface TypedContractMethod<Args extends unknown[], Output, Mutability extends StateMutability> {
+  (...args: WithOverrides<Args>): Promise<Mutability extends 'view' | 'pure' ? Output : ethers.ContractTransactionResponse>;
+  name: string;
+  fragment: ethers.FunctionFragment;
+  getFragment(...args: WithOverrides<Args>): ethers.FunctionFragment;
+  populateTransaction(...args: WithOverrides<Args>): Promise<ethers.ContractTransaction>;
+  staticCall(...args: WithOverrides<Args>): Promise<Output>;
+  send(...args: WithOverrides<Args>): Promise<ethers.ContractTransactionResponse>;
+  estimateGas(...args: WithOverrides<Args>): Promise<bigint>;
+}
+
+// Revert data carried by an ethers CALL_EXCEPTION, or by the wallet or RPC error it wraps
+export function revertData(error: unknown): string | null {
+  let current = error;
+  for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+    const { data, error: inner, info } = current as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+    if (typeof data === 'string' && ethers.isHexString(data) && data.length >= 10) return data;
+    current = (data && typeof data === 'object' ? data : undefined) ?? inner ?? info?.error;
+  }
+  return null;
+}
+`;
+}
+
+function generateBinding(file) {
+  const name = basename(file, '.json');
+  const abi = JSON.parse(readFileSync(join(ABI_DIR, file), 'utf8'));
+  const iface = new ethers.Interface(abi);
+  const prefix = lowerFirst(name);
+
+  const functions = iface.fragments.filter(fragment => fragment.type === 'function');
+  const events = iface.fragments.filter(fragment => fragment.type === 'event');
+  const errors = iface.fragments.filter(fragment => fragment.type === 'error');
+
+  // Overloaded functions are only reachable by their full signature
+  const nameCounts = new Map();
+  functions.forEach(fragment => nameCounts.set(fragment.name, (nameCounts.get(fragment.name) ?? 0) + 1));
+  const methodKey = (fragment) =>
+    nameCounts.get(fragment.name) > 1 ? `'${fragment.format('sighash')}'` : fragment.name;
+
+  const importsFromCommon = ['TypedContractMethod', ...(errors.length > 0 ? ['revertData'] : [])];
+  const lines = [
+    HEADER(`${ABI_DIR}/${file}`),
+    `import { ethers } from 'ethers';`,
+    `import abi from '../abi/${file}';`,
+    `import { ${importsFromCommon.join(', ')} } from './common';`,
+    '',
+    `export const ${prefix}Abi = abi;`,
+    `export const ${prefix}Interface = new ethers.Interface(abi);`,
+    '',
+    `export interface ${name} extends ethers.BaseContract {`,
+    `  connect(runner: ethers.ContractRunner | null): ${name};`,
+    ...functions.map(fragment =>
+      `  ${methodKey(fragment)}: TypedContractMethod<${argsTuple(fragment.inputs)}, ${outputType(fragment.outputs)}, '${fragment.stateMutability}'>;`),
+    '}',
+    '',
+    `export const connect${name} = (address: string, runner?: ethers.ContractRunner | null): ${name} =>`,
+    `  new ethers.Contract(address, abi, runner) as unknown as ${name};`,
+  ];
+
+  if (events.length > 0) {
+    lines.push(
+      '',
+      `export interface ${name}Events {`,
+      ...events.map(fragment => `  ${fragment.name}: ${argsObject(fragment.inputs)};`),
+      '}',
+      '',
+      `export type ${name}EventName = keyof ${name}Events;`,
+      `export type ${name}Event = { [N in ${name}EventName]: { name: N; args: ${name}Events[N] } }[${name}EventName];`,
+      '',
+      `// Decodes one of this contract's logs into a named event with typed args, or null for any other log`,
+      `export function parse${name}Event(log: { topics: readonly string[]; data: string }): ${name}Event | null {`,
+      '  try {',
+      `    const parsed = ${prefix}Interface.parseLog(log);`,
+      `    return parsed ? ({ name: parsed.name, args: parsed.args.toObject() } as ${name}Event) : null;`,
+      '  } catch {',
+      '    return null;',
+      '  }',
+      '}',
+    );
+  }
+
+  if (errors.length > 0) {
+    lines.push(
+      '',
+      `export interface ${name}Errors {`,
+      ...errors.map(fragment => `  ${fragment.name}: ${argsObject(fragment.inputs)};`),
+      '}',
+      '',
+      `export type ${name}Error = { [N in keyof ${name}Errors]: { name: N; args: ${name}Errors[N] } }[keyof ${name}Errors];`,
+      '',
+      `// The custom error a call to this contract reverted with, or null for anything else`,
+      `export function decode${name}Error(error: unknown): ${name}Error | null {`,
+      '  const data = revertData(error);',
+      '  if (!data) return null;',
+      '  try {',
+      `    const parsed = ${prefix}Interface.parseError(data);`,
+      `    return parsed ? ({ name: parsed.name, args: parsed.args.toObject() } as ${name}Error) : null;`,
+      '  } catch {',
+      '    return null;',
+      '  }',
+      '}',
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+mkdirSync(OUT_DIR, { recursive: true });
+writeFileSync(join(OUT_DIR, 'common.ts'), generateCommon());
+readdirSync(ABI_DIR)
+  .filter(file => file.endsWith('.json'))
+  .sort()
+  .forEach(file => {
+    writeFileSync(join(OUT_DIR, `${basename(file, '.json')}.ts`), generateBinding(file));
+    console.log(`Generated ${OUT_DIR}/${basename(file, '.json')}.ts`);
+  });
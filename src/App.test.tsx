@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { act, cleanup, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ethers } from 'ethers';
+import { connectEcoToken } from './contracts/EcoToken';
+import type { MockChain } from './utils/mockChain';
+
+// Drives the app through its UI against the in-page mock chain, the same flows the mock chain scenario
+// runs through the hooks. The steps share one rendered app and build on each other, in order.
+
+const WAIT = { timeout: 30_000 };
+
+let mockChain: MockChain;
+let user: ReturnType<typeof userEvent.setup>;
+let admin: string;
+let manufacturer: string;
+let auditor: string;
+let recipient: string;
+
+const switchAccount = async (account: string, role: string) => {
+  act(() => mockChain.setActiveAccount(account));
+  await screen.findByRole('heading', { name: role }, WAIT);
+};
+
+const balanceOf = async (account: string) => {
+  const token = connectEcoToken(mockChain.tokenAddress, new ethers.BrowserProvider(mockChain.provider, mockChain.chainId));
+  return ethers.formatEther(await token.balanceOf(account));
+};
+
+beforeAll(async () => {
+  // The app reads the mock chain's contract address and providers when its modules load
+  const { installMockChain } = await import('./utils/mockChainHarness');
+  mockChain = await installMockChain();
+  [admin, manufacturer, auditor, recipient] = mockChain.accounts;
+  const { default: App } = await import('./App');
+  user = userEvent.setup();
+  render(<App />);
+});
+
+afterAll(cleanup);
+
+describe('App against the mock chain', () => {
+  it('connects the admin wallet', async () => {
+    await user.click(await screen.findByRole('button', { name: /EcoToken Test Wallet/ }));
+    await screen.findByRole('heading', { name: 'Admin' }, WAIT);
+    expect(mockChain.activeAccount).toBe(admin);
+  });
+
+  it('adds a manufacturer and an auditor', async () => {
+    await user.click(screen.getByRole('button', { name: 'Manage Roles' }));
+
+    await user.type(screen.getByLabelText('Manufacturer Address'), manufacturer);
+    await user.click(screen.getByRole('button', { name: 'Add Manufacturer' }));
+    await screen.findByText('Manufacturer added successfully!', {}, WAIT);
+
+    await user.type(screen.getByLabelText('Auditor Address'), auditor);
+    await user.click(screen.getByRole('button', { name: 'Add Auditor' }));
+    await screen.findByText('Auditor added successfully!', {}, WAIT);
+  });
+
+  it('submits an eco-action with evidence as the manufacturer', async () => {
+    await switchAccount(manufacturer, 'Manufacturer');
+
+    await user.type(screen.getByLabelText('Description'), 'Rooftop solar array');
+    await user.type(screen.getByLabelText('Methodology'), 'GHG Protocol');
+    await user.type(screen.getByLabelText('Reporting Period Start'), '2024-01-01');
+    await user.type(screen.getByLabelText('Reporting Period End'), '2024-12-31');
+    await user.type(screen.getByLabelText('Baseline'), '100');
+    await user.type(screen.getByLabelText('Measured'), '75');
+    await user.type(screen.getByLabelText('CO2 Reduction Amount (tCO2e)'), '25');
+    await user.type(screen.getByLabelText('Site'), 'Berlin plant');
+    await user.type(screen.getByLabelText('Country'), 'DE');
+    await user.upload(screen.getByLabelText(/Evidence/), new File(['%PDF-1.4'], 'evidence.pdf', { type: 'application/pdf' }));
+
+    await user.click(screen.getByRole('button', { name: /Submit Eco-Action/ }));
+    await screen.findByText('Eco-action submitted successfully!', {}, WAIT);
+  });
+
+  it('verifies the action as the auditor', async () => {
+    await switchAccount(auditor, 'Auditor');
+
+    await user.click(await screen.findByRole('button', { name: 'Verify' }, WAIT));
+    await screen.findByText('Action verified successfully!', {}, WAIT);
+    expect(await balanceOf(manufacturer)).toBe('25.0');
+  });
+
+  it('transfers tokens as the manufacturer', async () => {
+    await switchAccount(manufacturer, 'Manufacturer');
+
+    await user.type(screen.getByLabelText('Recipient Address'), recipient);
+    await user.type(screen.getByLabelText('Amount (ECO)'), '5');
+    await user.click(screen.getByRole('button', { name: 'Transfer Tokens' }));
+    await screen.findByText('Transfer completed successfully!', {}, WAIT);
+    expect(await balanceOf(recipient)).toBe('5.0');
+  });
+
+  it('sends a gasless transfer as the manufacturer', async () => {
+    // The gasless form is not mounted by App; it gets the same mock chain wallet the app is using
+    const { EcoGaslessTransfer } = await import('./components/EcoGaslessTransfer');
+    const { container } = render(
+      <EcoGaslessTransfer
+        provider={new ethers.BrowserProvider(mockChain.provider)}
+        address={manufacturer}
+        isConnected
+        chainId={mockChain.chainId}
+      />
+    );
+    const form = within(container);
+
+    await user.type(form.getByLabelText('Recipient Address'), recipient);
+    await user.type(form.getByLabelText(/Amount/), '2');
+    await user.click(form.getByRole('button', { name: /Gasless Transfer/ }));
+    await screen.findByText('Gasless transfer completed successfully!', {}, WAIT);
+    expect(await balanceOf(manufacturer)).toBe('18.0');
+    expect(await balanceOf(recipient)).toBe('7.0');
+  });
+});
@@ -1,8 +1,11 @@
 import React, { useEffect, useState } from 'react';
 import { Toaster } from 'react-hot-toast';
-import { Leaf, Instagram, Mail } from 'lucide-react';
+import { ethers } from 'ethers';
+import { Leaf, Instagram, Mail, Loader2 } from 'lucide-react';
 import { useWallet } from './hooks/useWallet';
 import { useContract } from './hooks/useContract';
+import { useAuth } from './hooks/useAuth';
+import { useTransactions } from './hooks/useTransactions';
 import { WalletConnect } from './components/WalletConnect';
 import { Dashboard } from './components/Dashboard';
 import { ManufacturerPanel } from './components/ManufacturerPanel';
@@ -11,27 +14,50 @@ import { AdminPanel } from './components/AdminPanel';
 import { ComplianceReport } from './components/ComplianceReport';
 import { SellTokenForm } from './components/SellTokenForm';
 import { EcoProfile } from './components/EcoProfile';
-import { SEPOLIA_CHAIN_ID } from './constants/contract';
+import { DEFAULT_CHAIN_ID } from './constants/networks';
+import { explorerLink, findTokenAddress, getSupportedNetworks, isSupportedChain } from './utils/networks';
 import { ThemeToggle } from './components/ThemeToggle';
+import { TransactionTray } from './components/TransactionTray';
 import Typewriter from './components/Typewriter';
 
 function App() {
-  const { wallet, provider, connectWallet, disconnect, updateTokenBalance } = useWallet();
   const {
+    wallet,
+    session,
+    provider,
+    wallets,
+    activeWallet,
+    pairingUri,
+    connectWallet,
+    cancelPairing,
+    switchNetwork,
+    disconnect,
+    updateTokenBalance,
+  } = useWallet();
+  const {
+    contract,
+    sessionLoading,
     userRole,
     userActions,
+    pendingActions,
     allUsers,
     roleEvents,
     loading,
+    balanceVersion,
     getTokenBalance,
     submitEcoAction,
     verifyAction,
+    verifyActionsBatch,
     addManufacturer,
     addAuditor,
     removeRole,
+    getBlockTimestamps,
     loadUserActions,
+    loadPendingActions,
     checkUserRole, // <-- import checkUserRole
-  } = useContract(provider, wallet.address);
+  } = useContract(provider, wallet.address, wallet.chainId);
+  const { authSession, isSigningIn, signIn, signOut } = useAuth(provider, session);
+  const { transactions, pendingCount, speedUp, cancel, dismiss, clearFinished } = useTransactions(provider, session);
 
   // Theme state and persistence
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
@@ -52,25 +78,32 @@ function App() {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  // Roles are loaded by useContract for each new session; only the token balance is fetched here,
+  // again whenever a live Transfer involves the account
   useEffect(() => {
+    if (!session || !contract) return;
+    let cancelled = false;
+
     const fetchTokenBalance = async () => {
-      if (wallet.isConnected && wallet.address) {
-        try {
-          const balance = await getTokenBalance();
-          updateTokenBalance(balance);
-        } catch (error) {
-          console.error('Error fetching token balance:', error);
-        }
+      try {
+        const balance = await contract.balanceOf(session.address);
+        if (!cancelled) updateTokenBalance(ethers.formatEther(balance));
+      } catch (error) {
+        console.error('Error fetching token balance:', error);
       }
     };
 
     fetchTokenBalance();
-    if (wallet.isConnected && wallet.address) {
-      checkUserRole(); // <-- refresh roles after wallet connect
-    }
-  }, [wallet.isConnected, wallet.address, getTokenBalance, updateTokenBalance, checkUserRole]);
+    return () => {
+      cancelled = true;
+    };
+  }, [session, contract, updateTokenBalance, balanceVersion]);
 
-  const isWrongNetwork = wallet.chainId !== null && wallet.chainId !== SEPOLIA_CHAIN_ID;
+  const isWrongNetwork = wallet.chainId !== null && !isSupportedChain(wallet.chainId);
+  const supportedNetworks = getSupportedNetworks();
+  // Before connecting (or on an unsupported chain) the link points at the default deployment
+  const contractChainId = isSupportedChain(wallet.chainId) ? wallet.chainId : DEFAULT_CHAIN_ID;
+  const contractUrl = explorerLink(contractChainId, 'address', findTokenAddress(contractChainId) ?? '');
 
   // Add scroll to wallet connect
   const scrollToWallet = () => {
@@ -83,7 +116,18 @@ function App() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#FF9408] via-[#CA3F16] to-[#F3F4F5] relative overflow-hidden transition-colors duration-500">
       {/* Dark mode toggle button */}
-      <div className="fixed top-4 right-4 z-50">
+      <div className="fixed top-4 right-4 z-50 flex items-start gap-3">
+        {session && (
+          <TransactionTray
+            chainId={session.chainId}
+            transactions={transactions}
+            pendingCount={pendingCount}
+            onSpeedUp={speedUp}
+            onCancel={cancel}
+            onDismiss={dismiss}
+            onClearFinished={clearFinished}
+          />
+        )}
         {/* ThemeToggle will be created next */}
         <ThemeToggle theme={theme} setTheme={setTheme} />
       </div>
@@ -153,14 +197,16 @@ function App() {
               >
                 Get Started
               </button>
-              <a
-                href="https://sepolia.etherscan.io/address/0x6dbB1F7De2514efb1104F18E251F4BEe507dFC05"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="bg-white border border-emerald-400 text-emerald-700 font-bold py-4 px-10 rounded-full shadow-xl hover:bg-emerald-50 hover:scale-105 transition-transform duration-300 text-lg"
-              >
-                View Smart Contract
-              </a>
+              {contractUrl && (
+                <a
+                  href={contractUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-white border border-emerald-400 text-emerald-700 font-bold py-4 px-10 rounded-full shadow-xl hover:bg-emerald-50 hover:scale-105 transition-transform duration-300 text-lg"
+                >
+                  View Smart Contract
+                </a>
+              )}
             </div>
             <div className="flex justify-center gap-6 mt-8">
               <div className="flex flex-col items-center">
@@ -195,8 +241,19 @@ function App() {
               <div>
                 <h3 className="font-semibold text-red-800 dark:text-yellow-400">Wrong Network</h3>
                 <p className="text-red-700 text-sm dark:text-yellow-300">
-                  Please switch to Sepolia network to use this application.
+                  Please switch to a supported network to use this application.
                 </p>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {supportedNetworks.map(network => (
+                    <button
+                      key={network.chainId}
+                      onClick={() => switchNetwork(network.chainId)}
+                      className="bg-red-600 hover:bg-red-700 text-white text-sm font-semibold py-1.5 px-4 rounded-full transition-colors dark:bg-yellow-400 dark:hover:bg-yellow-300 dark:text-black"
+                    >
+                      Switch to {network.name}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
@@ -206,15 +263,25 @@ function App() {
         <div className="max-w-4xl mx-auto space-y-8">
           <div id="wallet-connect-section">
             <WalletConnect
+              key={session?.key ?? 'disconnected'}
               isConnected={wallet.isConnected}
               isConnecting={wallet.isConnecting}
               address={wallet.address}
+              chainId={wallet.chainId}
               balance={wallet.balance}
               tokenBalance={wallet.tokenBalance}
+              wallets={wallets}
+              activeWallet={activeWallet}
+              pairingUri={pairingUri}
               onConnect={connectWallet}
+              onCancelPairing={cancelPairing}
               onDisconnect={disconnect}
               provider={provider}
-              contract={useContract(provider, wallet.address).contract}
+              contract={contract}
+              authSession={authSession}
+              isSigningIn={isSigningIn}
+              onSignIn={signIn}
+              onSignOut={signOut}
               onRefreshBalance={async () => {
                 if (wallet.isConnected && wallet.address) {
                   const balance = await getTokenBalance();
@@ -224,14 +291,24 @@ function App() {
             />
           </div>
 
-          {wallet.isConnected && wallet.address && !isWrongNetwork && (
-            <>
-              <Dashboard userRole={userRole} address={wallet.address} />
+          {session && !isWrongNetwork && (wallet.isSwitching || sessionLoading) && (
+            <div className="bg-white rounded-2xl shadow-lg p-8 border border-gray-100 flex items-center justify-center gap-3 text-gray-600">
+              <Loader2 className="w-6 h-6 animate-spin" />
+              Loading account {session.address.slice(0, 6)}...{session.address.slice(-4)}
+            </div>
+          )}
+
+          {/* Keyed by session, so every panel starts fresh after an account or chain switch */}
+          {session && !isWrongNetwork && !wallet.isSwitching && !sessionLoading && (
+            <React.Fragment key={session.key}>
+              <Dashboard userRole={userRole} address={session.address} />
 
               {userRole.isAdmin && (
                 <AdminPanel
                   allUsers={allUsers}
                   roleEvents={roleEvents}
+                  chainId={session.chainId}
+                  onLoadTimestamps={getBlockTimestamps}
                   loading={loading}
                   onAddManufacturer={async (address) => {
                     await addManufacturer(address);
@@ -262,7 +339,10 @@ function App() {
               {userRole.isAuditor && (
                 <AuditorPanel
                   loading={loading}
+                  pendingActions={pendingActions}
                   onVerifyAction={verifyAction}
+                  onVerifyBatch={verifyActionsBatch}
+                  onRefresh={loadPendingActions}
                 />
               )}
 
@@ -299,6 +379,7 @@ function App() {
                     provider={provider}
                     address={wallet.address}
                     isConnected={wallet.isConnected}
+                    chainId={wallet.chainId}
                   />
 
                   {/* Sell Token Form */}
@@ -306,6 +387,7 @@ function App() {
                     provider={provider}
                     address={wallet.address}
                     isConnected={wallet.isConnected}
+                    chainId={wallet.chainId}
                   />
                 </div>
 
@@ -314,9 +396,10 @@ function App() {
                   provider={provider}
                   address={wallet.address}
                   isConnected={wallet.isConnected}
+                  chainId={wallet.chainId}
                 />
               </div>
-            </>
+            </React.Fragment>
           )}
         </div>
       </div>
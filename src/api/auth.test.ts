@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ecoTokenInterface } from '../contracts/EcoToken';
+import { SEPOLIA_CHAIN_ID } from '../constants/networks';
+import { buildSiweMessage } from '../utils/siwe';
+import type { ApiRequest, ApiResponse } from './auth';
+
+// Role checks answer from here instead of the chain: the signer is an admin and nothing else
+const ROLE_HASHES = { admin: ethers.ZeroHash, manufacturer: ethers.id('MANUFACTURER_ROLE'), auditor: ethers.id('AUDITOR_ROLE') };
+
+vi.mock('../utils/roleRegistry', () => ({
+  getRoleRegistry: () => ({ getRoleHashes: async () => ROLE_HASHES }),
+}));
+
+vi.mock('../utils/multicall', () => ({
+  getBatchingRunner: () => ({
+    call: async (tx: ethers.TransactionRequest) => {
+      const [role] = ecoTokenInterface.decodeFunctionData('hasRole', tx.data!);
+      return ecoTokenInterface.encodeFunctionResult('hasRole', [role === ROLE_HASHES.admin]);
+    },
+  }),
+}));
+
+const DOMAIN = 'app.example.com';
+const wallet = ethers.Wallet.createRandom();
+
+type Auth = typeof import('./auth');
+
+// The auth module reads its configuration when it loads
+const loadAuth = async (env: Record<string, string | undefined>): Promise<Auth> => {
+  vi.resetModules();
+  Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value as string));
+  return import('./auth');
+};
+
+const call = async (handler: (req: ApiRequest, res: ApiResponse) => Promise<unknown>, req: Partial<ApiRequest>) => {
+  const response = { status: 0, body: undefined as unknown };
+  const res: ApiResponse = {
+    status(code) {
+      response.status = code;
+      return res;
+    },
+    json(body) {
+      response.body = body;
+    },
+  };
+  await handler({ headers: {}, ...req }, res);
+  return response as { status: number; body: Record<string, unknown> };
+};
+
+describe('auth', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('answers 503 everywhere until AUTH_SECRET and AUTH_DOMAIN are set', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const auth = await loadAuth({ AUTH_SECRET: 'secret', AUTH_DOMAIN: '' });
+
+    expect((await call(auth.getNonce, { method: 'GET' })).status).toBe(503);
+    expect((await call(auth.default, { method: 'POST', body: { message: 'x', signature: '0x' } })).status).toBe(503);
+    expect((await call(auth.getSession, { method: 'GET', headers: { authorization: 'Bearer x.y' } })).status).toBe(503);
+  });
+
+  describe('sign-in', () => {
+    let auth: Auth;
+
+    beforeEach(async () => {
+      auth = await loadAuth({ AUTH_SECRET: 'test-secret', AUTH_DOMAIN: DOMAIN });
+    });
+
+    const nonce = async () => (await call(auth.getNonce, { method: 'GET' })).body.nonce as string;
+
+    const signIn = async (overrides: Partial<Parameters<typeof buildSiweMessage>[0]> = {}) => {
+      const issuedAt = new Date();
+      const message = buildSiweMessage({
+        domain: DOMAIN,
+        address: wallet.address,
+        uri: `https://${DOMAIN}`,
+        version: '1',
+        chainId: SEPOLIA_CHAIN_ID,
+        nonce: await nonce(),
+        issuedAt: issuedAt.toISOString(),
+        expirationTime: new Date(issuedAt.getTime() + 60_000).toISOString(),
+        ...overrides,
+      });
+      return call(auth.default, { method: 'POST', body: { message, signature: await wallet.signMessage(message) } });
+    };
+
+    it('issues a session token with the on-chain roles', async () => {
+      const response = await signIn();
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        address: wallet.address,
+        chainId: SEPOLIA_CHAIN_ID,
+        roles: { isAdmin: true, isManufacturer: false, isAuditor: false },
+      });
+      const session = await call(auth.getSession, { method: 'GET', headers: { authorization: `Bearer ${response.body.token}` } });
+      expect(session.body).toMatchObject({ address: wallet.address, roles: { isAdmin: true } });
+    });
+
+    it('accepts each nonce once', async () => {
+      const message = buildSiweMessage({
+        domain: DOMAIN,
+        address: wallet.address,
+        uri: `https://${DOMAIN}`,
+        version: '1',
+        chainId: SEPOLIA_CHAIN_ID,
+        nonce: await nonce(),
+        issuedAt: new Date().toISOString(),
+      });
+      const body = { message, signature: await wallet.signMessage(message) };
+
+      expect((await call(auth.default, { method: 'POST', body })).status).toBe(200);
+      expect(await call(auth.default, { method: 'POST', body })).toMatchObject({ status: 401, body: { error: 'Unknown or expired nonce' } });
+    });
+
+    it('rejects a nonce older than ten minutes', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const stale = await nonce();
+      vi.setSystemTime(Date.now() + 11 * 60_000);
+
+      expect((await signIn({ nonce: stale })).body).toEqual({ error: 'Unknown or expired nonce' });
+    });
+
+    it('rejects messages for another domain or URI', async () => {
+      expect(await signIn({ domain: 'evil.example' })).toMatchObject({ status: 401 });
+      expect(await signIn({ uri: 'https://evil.example/login' })).toMatchObject({
+        status: 401,
+        body: { error: `Message URI https://evil.example/login is not on ${DOMAIN}` },
+      });
+    });
+
+    it('rejects messages issued in the future, expired or not valid yet', async () => {
+      const inAnHour = new Date(Date.now() + 3_600_000).toISOString();
+      expect((await signIn({ issuedAt: inAnHour, expirationTime: undefined })).body)
+        .toEqual({ error: 'Sign-in message is issued in the future' });
+      expect((await signIn({ expirationTime: new Date(Date.now() - 1000).toISOString() })).body)
+        .toEqual({ error: 'Sign-in message has expired' });
+      expect((await signIn({ notBefore: inAnHour })).body).toEqual({ error: 'Sign-in message is not valid yet' });
+    });
+
+    it('rejects a signature from another account', async () => {
+      const message = buildSiweMessage({
+        domain: DOMAIN,
+        address: wallet.address,
+        uri: `https://${DOMAIN}`,
+        version: '1',
+        chainId: SEPOLIA_CHAIN_ID,
+        nonce: await nonce(),
+        issuedAt: new Date().toISOString(),
+      });
+      const signature = await ethers.Wallet.createRandom().signMessage(message);
+
+      expect((await call(auth.default, { method: 'POST', body: { message, signature } })).body)
+        .toEqual({ error: 'Signature does not match the address' });
+    });
+
+    it('refuses tampered and expired session tokens', async () => {
+      const { token } = auth.issueToken(wallet.address, SEPOLIA_CHAIN_ID);
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), chainId: 1 })).toString('base64url');
+
+      expect(auth.verifyToken(token)).toMatchObject({ address: wallet.address });
+      expect(auth.verifyToken(`${forged}.${signature}`)).toBeNull();
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 25 * 60 * 60_000);
+      expect(auth.verifyToken(token)).toBeNull();
+    });
+
+    it('checks the required role', async () => {
+      const { token } = auth.issueToken(wallet.address, SEPOLIA_CHAIN_ID);
+      const req = { headers: { authorization: `Bearer ${token}` } };
+      const forbidden = { status: 0, body: undefined as unknown };
+      const res: ApiResponse = {
+        status(code) {
+          forbidden.status = code;
+          return res;
+        },
+        json(body) {
+          forbidden.body = body;
+        },
+      };
+
+      expect(await auth.requireAuth(req, res, ['admin'])).toMatchObject({ address: wallet.address });
+      expect(await auth.requireAuth(req, res, ['manufacturer', 'auditor'])).toBeNull();
+      expect(forbidden).toEqual({ status: 403, body: { error: 'Requires the manufacturer or auditor role' } });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+// Sign-In with Ethereum (EIP-4361) for the off-chain endpoints.
+//
+//   GET  /api/auth/nonce     getNonce    one-time nonce for the next sign-in message
+//   POST /api/auth/verify    handler     { message, signature } -> session token bound to address and chain
+//   GET  /api/auth/session   getSession  the caller's session, with roles re-read from the chain
+//
+// Other endpoints call requireAuth() to insist on a session, optionally with an on-chain role.
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { ethers } from 'ethers';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { AuthRole, UserRole } from '../types';
+import { getBatchingRunner } from '../utils/multicall';
+import { getRoleRegistry } from '../utils/roleRegistry';
+import { parseSiweMessage } from '../utils/siwe';
+import { getTokenAddress, isSupportedChain, requireNetwork } from '../utils/networks';
+
+export interface ApiRequest {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  query?: Record<string, string | string[] | undefined>;
+}
+
+export interface ApiResponse {
+  status(code: number): ApiResponse;
+  json(body: unknown): void;
+}
+
+export interface AuthTokenPayload {
+  address: string;
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// HMAC key for session tokens
+const AUTH_SECRET = process.env.AUTH_SECRET;
+// Host the sign-in message must name, e.g. "app.example.com", so a message signed for another site cannot sign in here
+const AUTH_DOMAIN = process.env.AUTH_DOMAIN;
+// Sign-in and every endpoint behind it refuse requests until both are set
+const MISSING_CONFIG = [!AUTH_SECRET && 'AUTH_SECRET', !AUTH_DOMAIN && 'AUTH_DOMAIN'].filter(Boolean).join(' and ');
+if (MISSING_CONFIG) {
+  console.error(`${MISSING_CONFIG} not set; Sign-In with Ethereum is disabled`);
+}
+const NOT_CONFIGURED_ERROR = 'Sign-in is not configured on this server';
+const SESSION_TTL_SECONDS = Number(process.env.AUTH_SESSION_TTL || 24 * 60 * 60);
+const NONCE_TTL_MS = 10 * 60 * 1000;
+// How far ahead of the server's clock a wallet's "Issued At" may be
+const CLOCK_SKEW_MS = 60 * 1000;
+
+const nonces = new Map<string, number>();
+const providers = new Map<number, ethers.JsonRpcProvider>();
+
+const base64url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+const sign = (payload: string) => {
+  if (!AUTH_SECRET) throw new Error('AUTH_SECRET is not set');
+  return createHmac('sha256', AUTH_SECRET).update(payload).digest();
+};
+
+export function issueToken(address: string, chainId: number): { token: string; payload: AuthTokenPayload } {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload: AuthTokenPayload = { address, chainId, issuedAt, expiresAt: issuedAt + SESSION_TTL_SECONDS };
+  const encoded = base64url(JSON.stringify(payload));
+  return { token: `${encoded}.${base64url(sign(encoded))}`, payload };
+}
+
+export function verifyToken(token: string): AuthTokenPayload | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature || MISSING_CONFIG) return null;
+
+  const expected = sign(encoded);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as AuthTokenPayload;
+  return payload.expiresAt > Date.now() / 1000 ? payload : null;
+}
+
+const bearerToken = (req: ApiRequest) => {
+  const header = req.headers.authorization ?? req.headers.Authorization;
+  const value = Array.isArray(header) ? header[0] : header;
+  return value?.startsWith('Bearer ') ? value.slice('Bearer '.length) : null;
+};
+
+// Read-only provider per chain for role checks and reports
+export function getChainProvider(chainId: number): ethers.JsonRpcProvider {
+  let provider = providers.get(chainId);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(requireNetwork(chainId).rpcUrls[0], chainId, { staticNetwork: true });
+    providers.set(chainId, provider);
+  }
+  return provider;
+}
+
+// Roles are always read from the chain, so a revoked role stops working without waiting for the token to expire
+export async function resolveRoles(chainId: number, address: string): Promise<UserRole> {
+  const provider = getChainProvider(chainId);
+  const contract = connectEcoToken(getTokenAddress(chainId), getBatchingRunner(provider));
+  const roles = await getRoleRegistry(provider, getTokenAddress(chainId)).getRoleHashes();
+  const [isManufacturer, isAuditor, isAdmin] = await Promise.all([
+    contract.hasRole(roles.manufacturer, address),
+    contract.hasRole(roles.auditor, address),
+    contract.hasRole(roles.admin, address),
+  ]);
+  return { isManufacturer, isAuditor, isAdmin };
+}
+
+const ROLE_FLAGS: Record<AuthRole, keyof UserRole> = {
+  manufacturer: 'isManufacturer',
+  auditor: 'isAuditor',
+  admin: 'isAdmin',
+};
+
+export const hasAuthRole = (roles: UserRole, role: AuthRole) => roles[ROLE_FLAGS[role]];
+
+// Answers 401/403 itself and returns null when the caller may not proceed. With several roles, any one is enough.
+export async function requireAuth(
+  req: ApiRequest,
+  res: ApiResponse,
+  roles: AuthRole[] = []
+): Promise<(AuthTokenPayload & { roles: UserRole }) | null> {
+  if (MISSING_CONFIG) {
+    res.status(503).json({ error: NOT_CONFIGURED_ERROR });
+    return null;
+  }
+  const token = bearerToken(req);
+  const payload = token ? verifyToken(token) : null;
+  if (!payload) {
+    res.status(401).json({ error: 'Sign in with Ethereum to use this endpoint' });
+    return null;
+  }
+
+  let userRoles: UserRole;
+  try {
+    userRoles = await resolveRoles(payload.chainId, payload.address);
+  } catch (error) {
+    console.error('Error resolving roles:', error);
+    res.status(502).json({ error: 'Failed to read roles from the chain' });
+    return null;
+  }
+
+  if (roles.length > 0 && !roles.some(role => hasAuthRole(userRoles, role))) {
+    res.status(403).json({ error: `Requires the ${roles.join(' or ')} role` });
+    return null;
+  }
+  return { ...payload, roles: userRoles };
+}
+
+// Reads a comma-separated role requirement such as RELAY_AUTH_ROLE; "any" means signed in with no particular role
+export function parseRoleRequirement(value: string | undefined): AuthRole[] | null {
+  if (!value) return null;
+  if (value === 'any') return [];
+  return value.split(',').map(role => {
+    const name = role.trim() as AuthRole;
+    if (!(name in ROLE_FLAGS)) throw new Error(`Unknown role "${name}"`);
+    return name;
+  });
+}
+
+export async function getNonce(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (MISSING_CONFIG) {
+    return res.status(503).json({ error: NOT_CONFIGURED_ERROR });
+  }
+
+  const now = Date.now();
+  nonces.forEach((expiresAt, nonce) => {
+    if (expiresAt < now) nonces.delete(nonce);
+  });
+  const nonce = randomBytes(16).toString('hex');
+  nonces.set(nonce, now + NONCE_TTL_MS);
+  res.status(200).json({ nonce });
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (MISSING_CONFIG) {
+    return res.status(503).json({ error: NOT_CONFIGURED_ERROR });
+  }
+
+  const { message, signature } = (req.body ?? {}) as { message?: string; signature?: string };
+  if (!message || !signature) {
+    return res.status(400).json({ error: 'Missing message or signature' });
+  }
+
+  let fields;
+  try {
+    fields = parseSiweMessage(message);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid sign-in message: ${(error as Error).message}` });
+  }
+
+  // Nonces are single-use, so a captured message and signature cannot be replayed
+  const nonceExpiry = nonces.get(fields.nonce);
+  nonces.delete(fields.nonce);
+  if (!nonceExpiry || nonceExpiry < Date.now()) {
+    return res.status(401).json({ error: 'Unknown or expired nonce' });
+  }
+
+  const now = Date.now();
+  if (fields.domain !== AUTH_DOMAIN) {
+    return res.status(401).json({ error: `Message is for ${fields.domain}, not ${AUTH_DOMAIN}` });
+  }
+  if (new URL(fields.uri).host !== AUTH_DOMAIN) {
+    return res.status(401).json({ error: `Message URI ${fields.uri} is not on ${AUTH_DOMAIN}` });
+  }
+  if (Date.parse(fields.issuedAt) > now + CLOCK_SKEW_MS) {
+    return res.status(401).json({ error: 'Sign-in message is issued in the future' });
+  }
+  if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+    return res.status(401).json({ error: 'Sign-in message has expired' });
+  }
+  if (fields.notBefore && Date.parse(fields.notBefore) > now) {
+    return res.status(401).json({ error: 'Sign-in message is not valid yet' });
+  }
+  if (!isSupportedChain(fields.chainId)) {
+    return res.status(400).json({ error: `Unsupported network (chain id ${fields.chainId})` });
+  }
+
+  try {
+    if (ethers.verifyMessage(message, signature) !== fields.address) {
+      return res.status(401).json({ error: 'Signature does not match the address' });
+    }
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return res.status(400).json({ error: 'Signature verification failed' });
+  }
+
+  try {
+    const roles = await resolveRoles(fields.chainId, fields.address);
+    const { token, payload } = issueToken(fields.address, fields.chainId);
+    res.status(200).json({ token, address: payload.address, chainId: payload.chainId, roles, expiresAt: payload.expiresAt });
+  } catch (error) {
+    console.error('Error resolving roles:', error);
+    res.status(502).json({ error: 'Failed to read roles from the chain' });
+  }
+}
+
+export async function getSession(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = await requireAuth(req, res);
+  if (session) {
+    res.status(200).json({ address: session.address, chainId: session.chainId, roles: session.roles, expiresAt: session.expiresAt });
+  }
+}
@@ -0,0 +1,55 @@
+// Compliance report data for one account, for reports generated outside the browser.
+//
+//   GET /api/compliance-report?address=0x...   (Authorization: Bearer <SIWE session token>)
+//
+// Callers always get their own report; other accounts need one of REPORT_AUTH_ROLE (default auditor,admin).
+
+import { ethers } from 'ethers';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { getTokenAddress, requireNetwork } from '../utils/networks';
+import { ApiRequest, ApiResponse, getChainProvider, hasAuthRole, parseRoleRequirement, requireAuth } from './auth';
+
+const REPORT_AUTH_ROLES = parseRoleRequirement(process.env.REPORT_AUTH_ROLE) ?? ['auditor', 'admin'];
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = await requireAuth(req, res);
+  if (!session) return;
+
+  const requested = req.query?.address;
+  const address = typeof requested === 'string' && requested ? requested : session.address;
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid address format' });
+  }
+
+  const isOwnReport = address.toLowerCase() === session.address.toLowerCase();
+  if (!isOwnReport && !REPORT_AUTH_ROLES.some(role => hasAuthRole(session.roles, role))) {
+    return res.status(403).json({ error: `Reports for other accounts require the ${REPORT_AUTH_ROLES.join(' or ')} role` });
+  }
+
+  try {
+    // Reports are always for the chain the session was signed in on
+    const provider = getChainProvider(session.chainId);
+    const contract = connectEcoToken(getTokenAddress(session.chainId), provider);
+    const [balance, tokenBalance] = await Promise.all([
+      provider.getBalance(address),
+      contract.balanceOf(address),
+    ]);
+
+    res.status(200).json({
+      address: ethers.getAddress(address),
+      chainId: session.chainId,
+      network: requireNetwork(session.chainId).name,
+      balance: ethers.formatEther(balance),
+      tokenBalance: ethers.formatEther(tokenBalance),
+      generatedAt: new Date().toISOString(),
+      requestedBy: session.address,
+    });
+  } catch (error) {
+    console.error('Error building compliance report:', error);
+    res.status(500).json({ error: 'Failed to build compliance report' });
+  }
+}
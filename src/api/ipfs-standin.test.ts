@@ -0,0 +1,51 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createKuboPinningAdapter, packEvidence, uploadEvidence } from '../utils/ipfs';
+import { startIpfsStandIn } from './ipfs-standin';
+
+let server: Server;
+let apiUrl: string;
+
+beforeAll(async () => {
+  server = await startIpfsStandIn(0);
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const rpc = (path: string) => fetch(`${apiUrl}/api/v0/${path}`, { method: 'POST' });
+
+describe('IPFS stand-in', () => {
+  it('pins an evidence bundle uploaded through the Kubo adapter and serves its files', async () => {
+    const readings = 'date,kwh\n2024-01-01,42\n';
+    const packed = await uploadEvidence(
+      [
+        new File(['%PDF-1.4 audit report'], 'report.pdf', { type: 'application/pdf' }),
+        new File([readings], 'readings.csv', { type: 'text/csv' }),
+      ],
+      createKuboPinningAdapter(apiUrl, '')
+    );
+
+    const pins = await (await rpc(`pin/ls?arg=${packed.cid}`)).json();
+    expect(pins.Keys).toEqual({ [packed.cid]: { Type: 'recursive' } });
+
+    const listing = await (await fetch(`${apiUrl}/ipfs/${packed.cid}`)).json();
+    expect(listing.Entries.sort()).toEqual(['readings.csv', 'report.pdf']);
+
+    const file = await fetch(`${apiUrl}/ipfs/${packed.cid}/readings.csv`);
+    expect(file.headers.get('content-type')).toBe('text/csv');
+    expect(await file.text()).toBe(readings);
+  });
+
+  it('fails the upload when a block does not match its CID', async () => {
+    const packed = await packEvidence([new File(['%PDF-1.4 tampered'], 'report.pdf', { type: 'application/pdf' })]);
+    const bytes = new Uint8Array(await packed.car.arrayBuffer());
+    // The directory node is the last block in the CAR
+    bytes[bytes.length - 1] ^= 0xff;
+
+    await expect(createKuboPinningAdapter(apiUrl, '').pinCar(new Blob([bytes]), packed.cid))
+      .rejects.toThrow(/IPFS upload failed \(500\)/);
+    expect((await rpc(`pin/ls?arg=${packed.cid}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,206 @@
+// Local stand-in for an IPFS node, used in development and tests instead of a real pinning service.
+// It implements the parts of the Kubo HTTP RPC API the app relies on plus a path gateway,
+// and keeps every block in memory.
+//
+//   POST /api/v0/dag/import?pin-roots=true   import a CAR (multipart field "file")
+//   POST /api/v0/pin/ls?arg=<cid>            list pinned roots
+//   POST /api/v0/block/get?arg=<cid>         raw block bytes
+//   GET  /ipfs/<cid>[/<path>]                gateway for files inside an evidence bundle
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { CarReader } from '@ipld/car';
+import { CID } from 'multiformats/cid';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { equals } from 'multiformats/bytes';
+import { exporter } from 'ipfs-unixfs-exporter';
+
+const blocks = new Map<string, Uint8Array>();
+const pins = new Set<string>();
+
+const blockstore = {
+  get: async (cid: CID) => {
+    const bytes = blocks.get(cid.toV1().toString());
+    if (!bytes) throw new Error(`Block ${cid} not found`);
+    return bytes;
+  },
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  json: 'application/json',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Kubo reports RPC errors in this shape
+const sendError = (res: http.ServerResponse, status: number, message: string) =>
+  sendJson(res, status, { Message: message, Code: 0, Type: 'error' });
+
+async function importCar(car: Uint8Array, pinRoots: boolean) {
+  const reader = await CarReader.fromBytes(car);
+
+  for await (const block of reader.blocks()) {
+    if (block.cid.multihash.code !== sha256.code) {
+      throw new Error(`Unsupported hash function in ${block.cid}`);
+    }
+    const digest = await sha256.digest(block.bytes);
+    if (!equals(digest.bytes, block.cid.multihash.bytes)) {
+      throw new Error(`Block ${block.cid} does not match its CID`);
+    }
+    blocks.set(block.cid.toV1().toString(), block.bytes);
+  }
+
+  const roots = await reader.getRoots();
+  return roots.map(root => {
+    const cid = root.toString();
+    if (!blocks.has(root.toV1().toString())) {
+      return { Root: { Cid: { '/': cid }, PinErrorMsg: 'root block is missing from the CAR' } };
+    }
+    if (pinRoots) pins.add(cid);
+    return { Root: { Cid: { '/': cid }, PinErrorMsg: '' } };
+  });
+}
+
+async function handleRpc(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'RPC calls must use POST');
+  }
+
+  switch (url.pathname) {
+    case '/api/v0/dag/import': {
+      const body = await readBody(req);
+      const form = await new Response(body, {
+        headers: { 'Content-Type': req.headers['content-type'] ?? '' },
+      }).formData();
+      const file = form.get('file');
+      if (!file || typeof file === 'string') {
+        return sendError(res, 400, 'missing multipart field "file"');
+      }
+
+      const pinRoots = url.searchParams.get('pin-roots') !== 'false';
+      const results = await importCar(new Uint8Array(await file.arrayBuffer()), pinRoots);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(results.map(result => JSON.stringify(result)).join('\n') + '\n');
+      return;
+    }
+
+    case '/api/v0/pin/ls': {
+      const arg = url.searchParams.get('arg');
+      if (arg && !pins.has(CID.parse(arg).toString())) {
+        return sendError(res, 404, `path '${arg}' is not pinned`);
+      }
+      const keys = Object.fromEntries(
+        (arg ? [CID.parse(arg).toString()] : Array.from(pins)).map(cid => [cid, { Type: 'recursive' }])
+      );
+      return sendJson(res, 200, { Keys: keys });
+    }
+
+    case '/api/v0/block/get': {
+      const arg = url.searchParams.get('arg');
+      if (!arg) return sendError(res, 400, 'argument "cid" is required');
+      const bytes = blocks.get(CID.parse(arg).toV1().toString());
+      if (!bytes) return sendError(res, 404, `block ${arg} not found`);
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      res.end(bytes);
+      return;
+    }
+
+    case '/api/v0/version':
+      return sendJson(res, 200, { Version: 'standin', System: 'in-memory' });
+
+    default:
+      return sendError(res, 404, `${url.pathname} is not implemented by the stand-in`);
+  }
+}
+
+async function handleGateway(res: http.ServerResponse, url: URL) {
+  const path = url.pathname.slice('/ipfs/'.length).split('/').map(decodeURIComponent).join('/');
+
+  let entry;
+  try {
+    entry = await exporter(path, blockstore);
+  } catch (error) {
+    return sendError(res, 404, (error as Error).message);
+  }
+
+  if (entry.type === 'directory') {
+    const names: string[] = [];
+    for await (const child of entry.content()) {
+      names.push(child.name);
+    }
+    return sendJson(res, 200, { Cid: entry.cid.toString(), Entries: names });
+  }
+
+  if (entry.type !== 'file' && entry.type !== 'raw') {
+    return sendError(res, 415, `cannot serve ${entry.type} nodes`);
+  }
+
+  const extension = entry.name.split('.').pop()?.toLowerCase() ?? '';
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extension] ?? 'application/octet-stream' });
+  for await (const chunk of entry.content()) {
+    res.write(chunk);
+  }
+  res.end();
+}
+
+export async function handleIpfsRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+  // The dapp talks to the stand-in straight from the browser
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    if (url.pathname.startsWith('/api/v0/')) {
+      await handleRpc(req, res, url);
+    } else if (url.pathname.startsWith('/ipfs/') && req.method === 'GET') {
+      await handleGateway(res, url);
+    } else {
+      sendError(res, 404, 'not found');
+    }
+  } catch (error) {
+    console.error('IPFS stand-in error:', error);
+    if (!res.headersSent) {
+      sendError(res, 500, (error as Error).message);
+    } else {
+      res.end();
+    }
+  }
+}
+
+export function startIpfsStandIn(port: number = 5001): Promise<http.Server> {
+  return new Promise((resolve) => {
+    const server = http.createServer((req, res) => {
+      void handleIpfsRequest(req, res);
+    });
+    server.listen(port, () => {
+      // Port 0 picks a free one
+      console.log(`IPFS stand-in listening on http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+      resolve(server);
+    });
+  });
+}
@@ -2,100 +2,25 @@
 // This can be adapted for Express, Next.js, or other frameworks
 
 import { ethers } from "ethers";
-
-// EcoMetaTransfer contract ABI (minimal version for transferWithSig)
-const ECO_META_TRANSFER_ABI = [
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "from",
-        "type": "address"
-      },
-      {
-        "internalType": "address", 
-        "name": "to",
-        "type": "address"
-      },
-      {
-        "internalType": "uint256",
-        "name": "amount",
-        "type": "uint256"
-      },
-      {
-        "internalType": "uint256",
-        "name": "nonce",
-        "type": "uint256"
-      },
-      {
-        "internalType": "uint256",
-        "name": "deadline",
-        "type": "uint256"
-      },
-      {
-        "internalType": "bytes",
-        "name": "signature",
-        "type": "bytes"
-      }
-    ],
-    "name": "transferWithSig",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "owner",
-        "type": "address"
-      }
-    ],
-    "name": "nonces",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  }
-];
+import { DEFAULT_CHAIN_ID, TRANSFER_TYPES } from "../constants/networks";
+import { connectEcoMetaTransfer } from "../contracts/EcoMetaTransfer";
+import { getMetaTransferAddress, getMetaTransferDomain, requireNetwork } from "../utils/networks";
+import { decodeTxError } from "../utils/txErrors";
 
 // Environment variables (should be set in your .env file)
 const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY!;
-const RPC_URL = process.env.RPC_URL || "https://sepolia.infura.io/v3/your-project-id";
-const ECO_META_CONTRACT = "0xB4E765140cefB7E14B97899Ab573C1e27b5E12b6";
+const NETWORK = requireNetwork(Number(process.env.RELAY_CHAIN_ID || DEFAULT_CHAIN_ID));
+const RPC_URL = process.env.RPC_URL || NETWORK.rpcUrls[0];
+const ECO_META_CONTRACT = getMetaTransferAddress(NETWORK.chainId);
 
 // Initialize provider and relayer wallet
 const provider = new ethers.JsonRpcProvider(RPC_URL);
 const relayerWallet = new ethers.Wallet(RELAYER_PRIVATE_KEY, provider);
 
-const contract = new ethers.Contract(
-  ECO_META_CONTRACT,
-  ECO_META_TRANSFER_ABI,
-  relayerWallet
-);
-
-// EIP-712 Domain and Types
-const DOMAIN = {
-  name: "EcoMetaTransfer",
-  version: "1",
-  chainId: 11155111, // Sepolia
-  verifyingContract: ECO_META_CONTRACT,
-};
+const contract = connectEcoMetaTransfer(ECO_META_CONTRACT, relayerWallet);
 
-const TYPES = {
-  Transfer: [
-    { name: "from", type: "address" },
-    { name: "to", type: "address" },
-    { name: "amount", type: "uint256" },
-    { name: "nonce", type: "uint256" },
-    { name: "deadline", type: "uint256" },
-  ],
-};
+// EIP-712 Domain
+const DOMAIN = getMetaTransferDomain(NETWORK.chainId);
 
 interface RelayRequest {
   from: string;
@@ -129,7 +54,7 @@ export async function relayTransfer(request: RelayRequest): Promise<{ success: b
     // Step 1: Recover the signer from the signature
     const recovered = ethers.verifyTypedData(
       DOMAIN,
-      TYPES,
+      TRANSFER_TYPES,
       { from, to, amount, nonce, deadline },
       signature
     );
@@ -151,7 +76,7 @@ export async function relayTransfer(request: RelayRequest): Promise<{ success: b
     }
 
     // Step 3: Call the contract's transferWithSig function
-    const tx = await contract.transferWithSig(
+    const tx = await contract['transferWithSig(address,address,uint256,uint256,uint256,bytes)'](
       from,
       to,
       amount,
@@ -168,29 +93,21 @@ export async function relayTransfer(request: RelayRequest): Promise<{ success: b
       to,
       amount: ethers.formatEther(amount),
       txHash: tx.hash,
-      blockNumber: receipt.blockNumber
+      blockNumber: receipt?.blockNumber
     });
 
     // Step 4: Return the transaction hash
     return { success: true, txHash: tx.hash };
 
-  } catch (err: any) {
+  } catch (err) {
     console.error("Relay transfer error:", err);
 
-    // Handle specific contract errors
-    if (err.code === "INSUFFICIENT_FUNDS") {
+    // Contract reverts come back named, e.g. "Insufficient balance: 1.0 ECO available, 5.0 ECO needed"
+    const txError = decodeTxError(err, { fallback: "Internal server error" });
+    if (txError.kind === "insufficientFunds") {
       return { success: false, error: "Relayer has insufficient funds for gas" };
     }
-
-    if (err.code === "UNPREDICTABLE_GAS_LIMIT") {
-      return { success: false, error: "Transaction would fail (likely insufficient token balance or approval)" };
-    }
-
-    if (err.message?.includes("execution reverted")) {
-      return { success: false, error: "Transaction reverted by contract" };
-    }
-
-    return { success: false, error: err.message || "Internal server error" };
+    return { success: false, error: txError.message };
   }
 }
 
@@ -2,40 +2,53 @@
 // This would typically be a backend service that executes meta-transactions
 
 import { ethers } from 'ethers';
-import EcoMetaTransferAbi from '../abi/EcoMetaTransfer.json';
+import { DEFAULT_CHAIN_ID, NetworkConfig, TRANSFER_TYPES } from '../constants/networks';
+import { connectEcoMetaTransfer, EcoMetaTransfer } from '../contracts/EcoMetaTransfer';
+import { getMetaTransferAddress, getMetaTransferDomain, requireNetwork } from '../utils/networks';
+import { decodeTxError, TxErrorKind } from '../utils/txErrors';
+import { parseRoleRequirement, requireAuth } from './auth';
 
 // Environment variables
-const RPC_URL = process.env.RPC_URL || "https://sepolia.infura.io/v3/32aee738d2d34c9b902e52d758a9e57d";
+const RPC_URL = process.env.RPC_URL;
 const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY!;
-const ECO_META_CONTRACT = "0xB4E765140cefB7E14B97899Ab573C1e27b5E12b6";
-
-// Initialize provider and relayer wallet
-const provider = new ethers.JsonRpcProvider(RPC_URL);
-const relayer = new ethers.Wallet(RELAYER_PRIVATE_KEY, provider);
-
-const contract = new ethers.Contract(
-  ECO_META_CONTRACT,
-  EcoMetaTransferAbi,
-  relayer
-);
-
-// EIP-712 Domain and Types for signature verification
-const DOMAIN = {
-  name: "EcoMetaTransfer",
-  version: "1",
-  chainId: 11155111, // Sepolia
-  verifyingContract: ECO_META_CONTRACT,
+// Chain used when a request does not name one; RPC_URL, if set, applies to this chain
+const RELAY_CHAIN_ID = Number(process.env.RELAY_CHAIN_ID || DEFAULT_CHAIN_ID);
+// When set, only callers signed in with SIWE (and holding one of these roles, unless "any") may relay
+const RELAY_AUTH_ROLES = parseRoleRequirement(process.env.RELAY_AUTH_ROLE);
+// Reverts are the sender's problem; a dead RPC is the relayer's upstream; the rest are relayer faults
+const RELAY_ERROR_STATUS: Partial<Record<TxErrorKind, number>> = {
+  contract: 400,
+  reverted: 400,
+  network: 502,
+  rpc: 502,
 };
 
-const TYPES = {
-  Transfer: [
-    { name: "from", type: "address" },
-    { name: "to", type: "address" },
-    { name: "amount", type: "uint256" },
-    { name: "nonce", type: "uint256" },
-    { name: "deadline", type: "uint256" },
-  ],
-};
+interface ChainRelayer {
+  network: NetworkConfig;
+  provider: ethers.JsonRpcProvider;
+  relayer: ethers.Wallet;
+  contract: EcoMetaTransfer;
+  domain: ReturnType<typeof getMetaTransferDomain>;
+}
+
+const chainRelayers = new Map<number, ChainRelayer>();
+
+// Provider, relayer wallet and contract for a chain, created on first use
+function getChainRelayer(chainId: number): ChainRelayer {
+  let entry = chainRelayers.get(chainId);
+  if (!entry) {
+    const network = requireNetwork(chainId);
+    const provider = new ethers.JsonRpcProvider(
+      chainId === RELAY_CHAIN_ID && RPC_URL ? RPC_URL : network.rpcUrls[0]
+    );
+    const relayer = new ethers.Wallet(RELAYER_PRIVATE_KEY, provider);
+    const contract = connectEcoMetaTransfer(getMetaTransferAddress(chainId), relayer);
+
+    entry = { network, provider, relayer, contract, domain: getMetaTransferDomain(chainId) };
+    chainRelayers.set(chainId, entry);
+  }
+  return entry;
+}
 
 interface RelayRequest {
   from: string;
@@ -44,6 +57,7 @@ interface RelayRequest {
   nonce: number;
   deadline: number;
   signature: string;
+  chainId?: number;
 }
 
 export default async function handler(req: any, res: any) {
@@ -51,7 +65,16 @@ export default async function handler(req: any, res: any) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { from, to, amount, nonce, deadline, signature } = req.body as RelayRequest;
+  const { from, to, amount, nonce, deadline, signature, chainId = RELAY_CHAIN_ID } = req.body as RelayRequest;
+
+  if (RELAY_AUTH_ROLES) {
+    const session = await requireAuth(req, res, RELAY_AUTH_ROLES);
+    if (!session) return;
+    // A session only covers transfers out of its own account on its own chain
+    if (session.address.toLowerCase() !== String(from).toLowerCase() || session.chainId !== Number(chainId)) {
+      return res.status(403).json({ error: 'Signed-in account does not match the transfer' });
+    }
+  }
 
   try {
     // Validate required fields
@@ -59,6 +82,14 @@ export default async function handler(req: any, res: any) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    let chainRelayer: ChainRelayer;
+    try {
+      chainRelayer = getChainRelayer(Number(chainId));
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+    const { contract, domain } = chainRelayer;
+
     // Validate addresses
     if (!ethers.isAddress(from) || !ethers.isAddress(to)) {
       return res.status(400).json({ error: 'Invalid address format' });
@@ -73,8 +104,8 @@ export default async function handler(req: any, res: any) {
     // Verify EIP-712 signature
     try {
       const recovered = ethers.verifyTypedData(
-        DOMAIN,
-        TYPES,
+        domain,
+        TRANSFER_TYPES,
         { from, to, amount, nonce, deadline },
         signature
       );
@@ -107,53 +138,32 @@ export default async function handler(req: any, res: any) {
       deadline: new Date(deadline * 1000).toLocaleString()
     });
 
-    const tx = await contract.transferWithSig(from, to, amount, nonce, deadline, signature);
+    const tx = await contract['transferWithSig(address,address,uint256,uint256,uint256,bytes)'](from, to, amount, nonce, deadline, signature);
     
     // Wait for transaction confirmation
     const receipt = await tx.wait();
 
     console.log('Gasless transfer successful:', {
       txHash: tx.hash,
-      blockNumber: receipt.blockNumber,
-      gasUsed: receipt.gasUsed?.toString()
+      blockNumber: receipt?.blockNumber,
+      gasUsed: receipt?.gasUsed.toString()
     });
 
     res.status(200).json({ 
       success: true,
       txHash: tx.hash,
-      blockNumber: receipt.blockNumber
+      blockNumber: receipt?.blockNumber
     });
 
-  } catch (err: any) {
+  } catch (err) {
     console.error('Relayer Error:', err);
 
-    // Handle specific contract errors
-    if (err.code === "INSUFFICIENT_FUNDS") {
-      return res.status(500).json({ 
-        error: 'Relayer has insufficient funds for gas' 
-      });
-    }
-
-    if (err.code === "UNPREDICTABLE_GAS_LIMIT") {
-      return res.status(400).json({ 
-        error: 'Transaction would fail (likely insufficient token balance or approval)' 
-      });
-    }
-
-    if (err.message?.includes("execution reverted")) {
-      return res.status(400).json({ 
-        error: 'Transaction reverted by contract' 
-      });
-    }
-
-    if (err.message?.includes("user rejected")) {
-      return res.status(400).json({ 
-        error: 'Transaction was rejected by user' 
-      });
-    }
-
-    res.status(500).json({ 
-      error: err.message || 'Failed to relay transaction' 
+    // The decoded kind travels with the message so the dApp can tell contract reverts from relayer trouble
+    const txError = decodeTxError(err, { fallback: 'Failed to relay transaction' });
+    res.status(RELAY_ERROR_STATUS[txError.kind] ?? 500).json({
+      error: txError.kind === 'insufficientFunds' ? 'Relayer has insufficient funds for gas' : txError.message,
+      kind: txError.kind,
+      reason: txError.reason,
     });
   }
 }
@@ -165,13 +175,14 @@ export async function getRelayerStatus(req: any, res: any) {
   }
 
   try {
+    const { network, provider, relayer, domain } = getChainRelayer(Number(req.query?.chainId || RELAY_CHAIN_ID));
     const relayerBalance = await provider.getBalance(relayer.address);
     
     res.status(200).json({
       relayerAddress: relayer.address,
       relayerBalance: ethers.formatEther(relayerBalance),
-      contractAddress: ECO_META_CONTRACT,
-      network: "Sepolia"
+      contractAddress: domain.verifyingContract,
+      network: network.name
     });
   } catch (error) {
     console.error('Error getting relayer status:', error);
@@ -1,11 +1,16 @@
-import React, { useState } from 'react';
-import { Shield, UserPlus, Factory, Users, Trash2, Eye, Award, Activity } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Shield, UserPlus, Factory, Users, Trash2, Eye, Award, Activity, ExternalLink, ChevronLeft, ChevronRight } from 'lucide-react';
 import { User, RoleChangeEvent } from '../types';
+import { explorerLink } from '../utils/networks';
+
+const ROLE_EVENTS_PAGE_SIZE = 20;
 
 interface AdminPanelProps {
   loading: boolean;
   allUsers: User[];
   roleEvents: RoleChangeEvent[];
+  chainId: number;
+  onLoadTimestamps: (blockNumbers: number[]) => Promise<Map<number, number>>;
   onAddManufacturer: (address: string) => Promise<void>;
   onAddAuditor: (address: string) => Promise<void>;
   onRemoveRole: (address: string, role: 'manufacturer' | 'auditor') => Promise<void>;
@@ -15,6 +20,8 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
   loading,
   allUsers,
   roleEvents,
+  chainId,
+  onLoadTimestamps,
   onAddManufacturer,
   onAddAuditor,
   onRemoveRole,
@@ -24,6 +31,53 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
   const [manufacturerAddress, setManufacturerAddress] = useState('');
   const [auditorAddress, setAuditorAddress] = useState('');
   const [activeTab, setActiveTab] = useState<'users' | 'add-roles' | 'activity'>('users');
+  const [roleFilter, setRoleFilter] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+  const [adminFilter, setAdminFilter] = useState('');
+  const [eventPage, setEventPage] = useState(0);
+  const [blockTimestamps, setBlockTimestamps] = useState<Record<number, number>>({});
+
+  const roleNames = useMemo(
+    () => Array.from(new Set(roleEvents.map(event => event.role))).sort(),
+    [roleEvents]
+  );
+
+  const filteredEvents = useMemo(() => {
+    const user = userFilter.trim().toLowerCase();
+    const admin = adminFilter.trim().toLowerCase();
+    return roleEvents.filter(event =>
+      (!roleFilter || event.role === roleFilter)
+      && (!user || event.user.toLowerCase().includes(user))
+      && (!admin || event.sender.toLowerCase().includes(admin))
+    );
+  }, [roleEvents, roleFilter, userFilter, adminFilter]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredEvents.length / ROLE_EVENTS_PAGE_SIZE));
+  const currentPage = Math.min(eventPage, pageCount - 1);
+  const pageEvents = useMemo(
+    () => filteredEvents.slice(currentPage * ROLE_EVENTS_PAGE_SIZE, (currentPage + 1) * ROLE_EVENTS_PAGE_SIZE),
+    [filteredEvents, currentPage]
+  );
+
+  // Only the blocks on the visible page are looked up; rows show their block number until then
+  useEffect(() => {
+    if (activeTab !== 'activity') return;
+    const missing = pageEvents
+      .map(event => event.blockNumber)
+      .filter(blockNumber => blockTimestamps[blockNumber] === undefined);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    onLoadTimestamps(missing)
+      .then((timestamps) => {
+        if (cancelled || timestamps.size === 0) return;
+        setBlockTimestamps(previous => ({ ...previous, ...Object.fromEntries(timestamps) }));
+      })
+      .catch((error) => console.error('Error loading block timestamps:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, pageEvents, blockTimestamps, onLoadTimestamps]);
 
   const handleAddManufacturer = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -174,7 +228,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
             >
               <div className="flex items-center gap-2">
                 <Activity className="w-4 h-4" />
-                Recent Activity
+                Activity
               </div>
             </button>
           </nav>
@@ -375,45 +429,125 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
                 className="space-y-4 border border-gray-200 rounded-xl p-6 mb-4 bg-gradient-to-br from-[#87f5f5] via-[#ffe5f1] to-[#f042ff] text-black"
               >
                 <div className="flex items-center justify-between">
-                  <h3 className="text-lg font-semibold text-gray-800">Recent Role Changes</h3>
+                  <h3 className="text-lg font-semibold text-gray-800">Role Changes</h3>
                   <div className="text-sm text-gray-500">
-                    Last {roleEvents.length} events
+                    {filteredEvents.length} of {roleEvents.length} events
                   </div>
                 </div>
 
-                {roleEvents.length === 0 ? (
+                <div className="flex flex-col md:flex-row gap-3">
+                  <select
+                    value={roleFilter}
+                    onChange={(e) => {
+                      setRoleFilter(e.target.value);
+                      setEventPage(0);
+                    }}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 bg-white text-sm"
+                  >
+                    <option value="">All roles</option>
+                    {roleNames.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={userFilter}
+                    onChange={(e) => {
+                      setUserFilter(e.target.value);
+                      setEventPage(0);
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 font-mono text-sm"
+                    placeholder="Filter by user address"
+                  />
+                  <input
+                    type="text"
+                    value={adminFilter}
+                    onChange={(e) => {
+                      setAdminFilter(e.target.value);
+                      setEventPage(0);
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 font-mono text-sm"
+                    placeholder="Filter by admin address"
+                  />
+                </div>
+
+                {filteredEvents.length === 0 ? (
                   <div className="text-center py-12">
                     <Activity className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-                    <p className="text-gray-500 text-lg">No recent activity</p>
+                    <p className="text-gray-500 text-lg">
+                      {roleEvents.length === 0 ? 'No recent activity' : 'No matching role changes'}
+                    </p>
                     <p className="text-gray-400 text-sm mt-2">Role changes will appear here</p>
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {roleEvents.map((event, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center gap-4 p-4 border border-gray-200 rounded-lg"
-                      >
-                        <div className={`p-2 rounded-lg ${event.granted ? 'bg-green-100' : 'bg-red-100'}`}>
-                          {event.granted ? (
-                            <UserPlus className={`w-4 h-4 ${event.granted ? 'text-green-600' : 'text-red-600'}`} />
-                          ) : (
-                            <Trash2 className="w-4 h-4 text-red-600" />
-                          )}
-                        </div>
-                        <div className="flex-1">
-                          <p className="text-sm font-medium text-gray-800">
-                            {event.role} role {event.granted ? 'granted to' : 'revoked from'} {formatAddress(event.user)}
-                          </p>
-                          <p className="text-xs text-gray-500 font-mono">
-                            {event.user}
-                          </p>
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          Block #{event.timestamp}
+                    {pageEvents.map((event) => {
+                      const txUrl = explorerLink(chainId, 'tx', event.txHash);
+                      const timestamp = blockTimestamps[event.blockNumber];
+                      return (
+                        <div
+                          key={event.id}
+                          className="flex items-center gap-4 p-4 border border-gray-200 rounded-lg"
+                        >
+                          <div className={`p-2 rounded-lg ${event.granted ? 'bg-green-100' : 'bg-red-100'}`}>
+                            {event.granted ? (
+                              <UserPlus className={`w-4 h-4 ${event.granted ? 'text-green-600' : 'text-red-600'}`} />
+                            ) : (
+                              <Trash2 className="w-4 h-4 text-red-600" />
+                            )}
+                          </div>
+                          <div className="flex-1">
+                            <p className="text-sm font-medium text-gray-800">
+                              {event.role} role {event.granted ? 'granted to' : 'revoked from'} {formatAddress(event.user)}
+                            </p>
+                            <p className="text-xs text-gray-500 font-mono">
+                              {event.user}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              by <span className="font-mono">{formatAddress(event.sender)}</span>
+                            </p>
+                          </div>
+                          <div className="text-xs text-gray-500 text-right">
+                            <p>{timestamp !== undefined ? new Date(timestamp * 1000).toLocaleString() : `Block #${event.blockNumber}`}</p>
+                            {txUrl ? (
+                              <a
+                                href={txUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-1 font-mono text-blue-600 hover:text-blue-800"
+                              >
+                                {formatAddress(event.txHash)}
+                                <ExternalLink className="w-3 h-3" />
+                              </a>
+                            ) : (
+                              <p className="font-mono">{formatAddress(event.txHash)}</p>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
+                  </div>
+                )}
+
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-between text-sm text-gray-600">
+                    <button
+                      onClick={() => setEventPage(currentPage - 1)}
+                      disabled={currentPage === 0}
+                      className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/70 hover:bg-white disabled:opacity-50"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                      Newer
+                    </button>
+                    <span>Page {currentPage + 1} of {pageCount}</span>
+                    <button
+                      onClick={() => setEventPage(currentPage + 1)}
+                      disabled={currentPage >= pageCount - 1}
+                      className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/70 hover:bg-white disabled:opacity-50"
+                    >
+                      Older
+                      <ChevronRight className="w-4 h-4" />
+                    </button>
                   </div>
                 )}
               </div>
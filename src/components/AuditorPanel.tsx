@@ -1,114 +1,327 @@
-import React, { useState } from 'react';
-import { Shield, CheckCircle, Sparkles } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Shield, CheckCircle, Sparkles, Search, ExternalLink, Clock, RefreshCw, Inbox, XCircle, Loader2 } from 'lucide-react';
+import { IndexedEcoAction, BatchItemProgress } from '../types';
+import { actionKey } from '../utils/actionIndexer';
+import { isCid, ipfsGatewayUrl } from '../utils/ipfs';
+import { EvidenceManifestView } from './EvidenceManifestView';
 
 interface AuditorPanelProps {
   loading: boolean;
+  pendingActions: IndexedEcoAction[];
   onVerifyAction: (manufacturerAddress: string, actionId: number) => Promise<void>;
+  onVerifyBatch: (
+    items: { manufacturer: string; actionId: number }[],
+    onProgress: (key: string, progress: BatchItemProgress) => void
+  ) => Promise<void>;
+  onRefresh: () => Promise<void>;
 }
 
+type SortOrder = 'oldest' | 'newest' | 'largest' | 'smallest';
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatAge = (submittedAt?: number): string => {
+  if (submittedAt === undefined) return 'Unknown age';
+  const seconds = Math.max(0, Math.floor(Date.now() / 1000) - submittedAt);
+  if (seconds < 60) return 'Just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+};
+
+const BATCH_STATUS_LABELS: Record<BatchItemProgress['status'], string> = {
+  queued: 'Queued',
+  simulating: 'Simulating',
+  signing: 'Awaiting signature',
+  submitted: 'Submitted',
+  confirmed: 'Verified',
+  failed: 'Failed',
+};
+
 export const AuditorPanel: React.FC<AuditorPanelProps> = ({
   loading,
+  pendingActions,
   onVerifyAction,
+  onVerifyBatch,
+  onRefresh,
 }) => {
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [formData, setFormData] = useState({
-    manufacturerAddress: '',
-    actionId: '',
-  });
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!formData.manufacturerAddress || !formData.actionId) {
-      return;
+  const [filter, setFilter] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('oldest');
+  const [verifyingKeys, setVerifyingKeys] = useState<Set<string>>(new Set());
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [batchProgress, setBatchProgress] = useState<Record<string, BatchItemProgress>>({});
+  const [isBatching, setIsBatching] = useState(false);
+
+  const queue = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const visible = pendingActions.filter(action => {
+      // Actions being verified leave the queue optimistically
+      const key = actionKey(action.manufacturer, action.actionId);
+      if (verifyingKeys.has(key) || batchProgress[key]?.status === 'confirmed') return false;
+      if (!query) return true;
+      return action.manufacturer.toLowerCase().includes(query)
+        || action.description.toLowerCase().includes(query)
+        || action.ipfsHash.toLowerCase().includes(query);
+    });
+
+    const byBlock = (a: IndexedEcoAction, b: IndexedEcoAction) => a.submittedBlock - b.submittedBlock;
+    switch (sortOrder) {
+      case 'newest':
+        return visible.sort((a, b) => byBlock(b, a));
+      case 'largest':
+        return visible.sort((a, b) => b.reductionAmount - a.reductionAmount);
+      case 'smallest':
+        return visible.sort((a, b) => a.reductionAmount - b.reductionAmount);
+      default:
+        return visible.sort(byBlock);
     }
+  }, [pendingActions, filter, sortOrder, verifyingKeys, batchProgress]);
+
+  const selectedActions = queue.filter(action => selectedKeys.has(actionKey(action.manufacturer, action.actionId)));
+  const allSelected = queue.length > 0 && selectedActions.length === queue.length;
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedKeys(allSelected
+      ? new Set()
+      : new Set(queue.map(action => actionKey(action.manufacturer, action.actionId))));
+  };
+
+  const handleVerifySelected = async () => {
+    if (selectedActions.length === 0) return;
 
-    setIsVerifying(true);
+    setIsBatching(true);
     try {
-      await onVerifyAction(formData.manufacturerAddress, parseInt(formData.actionId));
-      setFormData({ manufacturerAddress: '', actionId: '' });
+      await onVerifyBatch(
+        selectedActions.map(action => ({ manufacturer: action.manufacturer, actionId: action.actionId })),
+        (key, progress) => setBatchProgress(prev => ({ ...prev, [key]: progress }))
+      );
     } catch (error) {
-      console.error('Error verifying action:', error);
+      console.error('Error verifying batch:', error);
     } finally {
-      setIsVerifying(false);
+      setSelectedKeys(new Set());
+      setIsBatching(false);
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
+  const batchEntries = Object.values(batchProgress);
+  const batchSummary = {
+    confirmed: batchEntries.filter(progress => progress.status === 'confirmed').length,
+    failed: batchEntries.filter(progress => progress.status === 'failed').length,
+    total: batchEntries.length,
+  };
+
+  const handleVerify = async (action: IndexedEcoAction) => {
+    const key = actionKey(action.manufacturer, action.actionId);
+    setVerifyingKeys(prev => new Set(prev).add(key));
+    try {
+      await onVerifyAction(action.manufacturer, action.actionId);
+    } catch (error) {
+      console.error('Error verifying action:', error);
+      // Put the action back in the queue if the transaction failed
+      setVerifyingKeys(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await onRefresh();
+    } finally {
+      setIsRefreshing(false);
+    }
   };
 
   return (
     <div className="rounded-2xl shadow-lg p-6 border border-yellow-400 bg-gradient-to-br from-[#F3F4F5] to-[#FF9408] text-black">
-      <div className="flex items-center gap-3 mb-6">
-        <Shield className="w-6 h-6 text-green-500" />
-        <h2 className="text-2xl font-bold text-gray-800">Verify Eco-Action</h2>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <Shield className="w-6 h-6 text-green-500" />
+          <h2 className="text-2xl font-bold text-gray-800">Verification Queue</h2>
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={isRefreshing}
+          className="flex items-center gap-2 text-sm text-green-700 hover:text-green-800 px-3 py-2 rounded-lg hover:bg-green-50 transition-colors duration-200 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
       </div>
-      
+
       <div className="bg-gradient-to-br from-green-50 to-green-100 rounded-xl p-6 border border-green-200 mb-6">
         <div className="flex items-center gap-3 mb-3">
           <CheckCircle className="w-6 h-6 text-green-600" />
           <h3 className="text-lg font-semibold text-green-800">Auditor Privileges</h3>
         </div>
         <p className="text-green-700 text-sm">
-          As an auditor, you can verify manufacturer eco-actions after reviewing their documentation 
+          As an auditor, you can verify manufacturer eco-actions after reviewing their documentation
           and confirming the environmental impact claims.
         </p>
       </div>
-      
-      <form onSubmit={handleSubmit} className="space-y-6">
-        <div>
-          <label htmlFor="manufacturerAddress" className="block text-sm font-medium text-gray-700 mb-2">
-            Manufacturer Address
-          </label>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
           <input
             type="text"
-            id="manufacturerAddress"
-            name="manufacturerAddress"
-            value={formData.manufacturerAddress}
-            onChange={handleInputChange}
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors duration-200"
-            placeholder="0x1234567890123456789012345678901234567890"
-            required
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="w-full pl-9 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors duration-200"
+            placeholder="Filter by manufacturer, description or evidence hash"
           />
         </div>
-        
-        <div>
-          <label htmlFor="actionId" className="block text-sm font-medium text-gray-700 mb-2">
-            Action ID
-          </label>
-          <input
-            type="number"
-            id="actionId"
-            name="actionId"
-            value={formData.actionId}
-            onChange={handleInputChange}
-            min="0"
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors duration-200"
-            placeholder="0"
-            required
-          />
-        </div>
-        
-        <button
-          type="submit"
-          disabled={isVerifying || loading}
-          className="w-full bg-gradient-to-r from-green-400 via-blue-400 to-purple-500 text-white font-bold py-3 px-8 rounded-full shadow-2xl hover:scale-105 transition-transform duration-300 text-lg animate-pulse focus:ring-4 focus:ring-blue-200 focus:outline-none border-2 border-transparent hover:border-blue-400 flex items-center justify-center gap-2 relative"
+        <select
+          value={sortOrder}
+          onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+          className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 bg-white"
         >
-          {isVerifying ? (
-            <>
-              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-              Verifying...
-            </>
-          ) : (
-            <>
-              <Sparkles className="w-6 h-6 animate-bounce" />
-              Verify Action
-            </>
+          <option value="oldest">Oldest first</option>
+          <option value="newest">Newest first</option>
+          <option value="largest">Largest reduction</option>
+          <option value="smallest">Smallest reduction</option>
+        </select>
+      </div>
+
+      {batchSummary.total > 0 && (
+        <div className="flex items-center justify-between bg-white/70 rounded-lg px-4 py-3 mb-4 text-sm">
+          <span className="text-gray-700">
+            Batch: {batchSummary.confirmed}/{batchSummary.total} verified
+            {batchSummary.failed > 0 && <span className="text-red-600">, {batchSummary.failed} failed</span>}
+          </span>
+          {!isBatching && (
+            <button onClick={() => setBatchProgress({})} className="text-gray-500 hover:text-gray-700">
+              Clear
+            </button>
           )}
-        </button>
-        <span className="block text-center mt-2 text-green-600 animate-fade-in">Help keep the system honest. Verify now!</span>
-      </form>
+        </div>
+      )}
+
+      {queue.length === 0 ? (
+        <div className="text-center py-12">
+          <Inbox className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">No actions waiting for verification</p>
+          <p className="text-gray-400 text-sm mt-2">New submissions from manufacturers will appear here</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={toggleAll}
+                disabled={isBatching}
+                className="w-4 h-4 accent-green-600"
+              />
+              {queue.length} pending
+            </label>
+            <button
+              onClick={handleVerifySelected}
+              disabled={isBatching || loading || selectedActions.length === 0}
+              className="flex items-center gap-2 bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold py-2 px-5 rounded-lg shadow-lg hover:from-green-600 hover:to-green-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isBatching ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+              Verify selected ({selectedActions.length})
+            </button>
+          </div>
+          {queue.map((action) => {
+            const key = actionKey(action.manufacturer, action.actionId);
+            const progress = batchProgress[key];
+            const inFlight = progress && progress.status !== 'failed';
+            return (
+              <div
+                key={key}
+                className={`bg-gradient-to-br from-[#87f5f5] via-[#ffe5f1] to-[#f042ff] border rounded-xl p-5 hover:shadow-md transition-shadow duration-200 ${
+                  progress?.status === 'failed' ? 'border-red-400' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedKeys.has(key)}
+                      onChange={() => toggleSelected(key)}
+                      disabled={isBatching || inFlight}
+                      className="mt-1 w-4 h-4 accent-green-600"
+                    />
+                    <div>
+                      <h3 className="font-semibold text-gray-800">
+                        Action #{action.actionId} · {formatAddress(action.manufacturer)}
+                      </h3>
+                      <p className="text-xs text-gray-500 font-mono">{action.manufacturer}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 text-sm text-yellow-700">
+                    <Clock className="w-4 h-4" />
+                    {formatAge(action.submittedAt)}
+                  </div>
+                </div>
+
+                <p className="text-gray-800 mb-3">{action.description}</p>
+
+                {progress && (
+                  <div className={`flex items-center gap-2 text-sm mb-3 ${progress.status === 'failed' ? 'text-red-600' : 'text-blue-700'}`}>
+                    {progress.status === 'failed' ? <XCircle className="w-4 h-4" /> : <Loader2 className="w-4 h-4 animate-spin" />}
+                    <span className="font-medium">{BATCH_STATUS_LABELS[progress.status]}</span>
+                    {progress.error && <span className="truncate">{progress.error}</span>}
+                  </div>
+                )}
+
+                <div className="mb-3">
+                  <EvidenceManifestView ipfsHash={action.ipfsHash} />
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex items-center gap-4">
+                    <span className="text-lg font-semibold text-green-700">
+                      {action.reductionAmount} tons
+                    </span>
+                    {isCid(action.ipfsHash) ? (
+                      <a
+                        href={ipfsGatewayUrl(action.ipfsHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                        Evidence
+                      </a>
+                    ) : (
+                      <span className="text-sm text-gray-500">No IPFS evidence</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleVerify(action)}
+                    disabled={loading || isBatching || inFlight}
+                    className="flex items-center gap-2 bg-gradient-to-r from-green-400 via-blue-400 to-purple-500 text-white font-semibold py-2 px-5 rounded-full shadow-lg hover:scale-105 transition-transform duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                  >
+                    <Sparkles className="w-4 h-4" />
+                    Verify
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <span className="block text-center mt-4 text-green-600 animate-fade-in">Help keep the system honest. Verify now!</span>
     </div>
   );
-};
\ No newline at end of file
+};
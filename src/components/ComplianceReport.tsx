@@ -3,13 +3,16 @@ import { ethers } from 'ethers';
 import jsPDF from 'jspdf';
 import { QRCodeSVG } from 'qrcode.react';
 import { Download, FileText, Wallet, Coins } from 'lucide-react';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../constants/contract';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { openProviderCache, readThrough } from '../utils/chainCache';
+import { explorerLink, findTokenAddress, getNetwork } from '../utils/networks';
 import toast from 'react-hot-toast';
 
 interface ComplianceReportProps {
   provider: ethers.BrowserProvider | null;
   address: string | null;
   isConnected: boolean;
+  chainId: number | null;
 }
 
 interface WalletData {
@@ -21,36 +24,47 @@ interface WalletData {
 export const ComplianceReport: React.FC<ComplianceReportProps> = ({
   provider,
   address,
-  isConnected
+  isConnected,
+  chainId
 }) => {
   const [walletData, setWalletData] = useState<WalletData | null>(null);
   const [loading, setLoading] = useState(false);
   const [generatingPdf, setGeneratingPdf] = useState(false);
+  const tokenAddress = findTokenAddress(chainId);
+  const addressUrl = walletData ? explorerLink(chainId, 'address', walletData.address) : null;
 
   useEffect(() => {
-    if (isConnected && address && provider) {
+    if (isConnected && address && provider && tokenAddress) {
       fetchWalletData();
     }
-  }, [isConnected, address, provider]);
+  }, [isConnected, address, provider, tokenAddress]);
 
   const fetchWalletData = async () => {
-    if (!provider || !address) return;
+    if (!provider || !address || !tokenAddress) return;
 
     setLoading(true);
     try {
-      // Get ETH balance
-      const balance = await provider.getBalance(address);
-      const ethBalance = ethers.formatEther(balance);
-
-      // Get token balance
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
-      const tokenBalance = await contract.balanceOf(address);
-      const formattedTokenBalance = ethers.formatEther(tokenBalance);
-
-      setWalletData({
-        address,
-        balance: ethBalance,
-        tokenBalance: formattedTokenBalance
+      const cache = await openProviderCache(provider, tokenAddress);
+
+      // Cached wallet data renders immediately while fresh balances load
+      await readThrough<WalletData>(cache, provider, `wallet:${address.toLowerCase()}`, async () => {
+        // Get ETH balance
+        const balance = await provider.getBalance(address);
+        const ethBalance = ethers.formatEther(balance);
+
+        // Get token balance
+        const contract = connectEcoToken(tokenAddress, provider);
+        const tokenBalance = await contract.balanceOf(address);
+        const formattedTokenBalance = ethers.formatEther(tokenBalance);
+
+        return {
+          address,
+          balance: ethBalance,
+          tokenBalance: formattedTokenBalance
+        };
+      }, (data) => {
+        setWalletData(data);
+        setLoading(false);
       });
     } catch (error) {
       console.error('Error fetching wallet data:', error);
@@ -67,7 +81,6 @@ export const ComplianceReport: React.FC<ComplianceReportProps> = ({
     try {
       const doc = new jsPDF();
       const timestamp = new Date().toLocaleString();
-      const etherscanUrl = `https://sepolia.etherscan.io/address/${walletData.address}`;
 
       // Title
       doc.setFontSize(20);
@@ -90,17 +103,20 @@ export const ComplianceReport: React.FC<ComplianceReportProps> = ({
       doc.text(`ETH Balance: ${parseFloat(walletData.balance).toFixed(4)} ETH`, 20, 90);
       doc.text(`Eco Token Balance: ${parseFloat(walletData.tokenBalance).toFixed(2)} ECO`, 20, 100);
 
-      // QR Code (SVG not supported in jsPDF, so we add the Etherscan link as text)
-      doc.setFontSize(12);
-      doc.setTextColor(17, 24, 39);
-      doc.text('View on Etherscan:', 20, 120);
-      doc.setTextColor(37, 99, 235); // blue-600
-      doc.textWithLink(etherscanUrl, 20, 130, { url: etherscanUrl });
+      // QR Code (SVG not supported in jsPDF, so we add the explorer link as text)
+      if (addressUrl) {
+        doc.setFontSize(12);
+        doc.setTextColor(17, 24, 39);
+        doc.text('View on block explorer:', 20, 120);
+        doc.setTextColor(37, 99, 235); // blue-600
+        doc.textWithLink(addressUrl, 20, 130, { url: addressUrl });
+      }
 
       // Footer
       doc.setFontSize(8);
       doc.setTextColor(107, 114, 128);
-      doc.text('EcoToken Carbon Credit Platform - Sepolia Testnet', 20, 280);
+      const networkName = getNetwork(chainId)?.name ?? `Chain ${chainId}`;
+      doc.text(`EcoToken Carbon Credit Platform - ${networkName}`, 20, 280);
 
       // Save PDF
       doc.save(`eco-compliance-report-${Date.now()}.pdf`);
@@ -168,21 +184,23 @@ export const ComplianceReport: React.FC<ComplianceReportProps> = ({
           </div>
 
           {/* QR Code */}
-          <div className="bg-gradient-to-br from-[#87f5f5] via-[#ffe5f1] to-[#f042ff] rounded-lg p-4 mb-4">
-            <h4 className="text-sm font-medium text-gray-700 mb-3">Etherscan QR Code</h4>
-            <div className="flex justify-center">
-              <QRCodeSVG
-                value={`https://sepolia.etherscan.io/address/${walletData.address}`}
-                size={120}
-                level="M"
-                fgColor="#10b981"
-                bgColor="#ffffff"
-              />
+          {addressUrl && (
+            <div className="bg-gradient-to-br from-[#87f5f5] via-[#ffe5f1] to-[#f042ff] rounded-lg p-4 mb-4">
+              <h4 className="text-sm font-medium text-gray-700 mb-3">Block Explorer QR Code</h4>
+              <div className="flex justify-center">
+                <QRCodeSVG
+                  value={addressUrl}
+                  size={120}
+                  level="M"
+                  fgColor="#10b981"
+                  bgColor="#ffffff"
+                />
+              </div>
+              <p className="text-xs text-gray-500 text-center mt-2">
+                Scan to view on the block explorer
+              </p>
             </div>
-            <p className="text-xs text-gray-500 text-center mt-2">
-              Scan to view on Etherscan
-            </p>
-          </div>
+          )}
 
           {/* Generate PDF Button */}
           <div className="flex justify-center">
@@ -8,12 +8,14 @@ interface ComponentsDemoProps {
   provider: ethers.BrowserProvider | null;
   address: string | null;
   isConnected: boolean;
+  chainId: number | null;
 }
 
 export const ComponentsDemo: React.FC<ComponentsDemoProps> = ({
   provider,
   address,
-  isConnected
+  isConnected,
+  chainId
 }) => {
   return (
     <div className="space-y-8">
@@ -25,16 +27,16 @@ export const ComponentsDemo: React.FC<ComponentsDemoProps> = ({
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="rounded-2xl shadow-lg p-6 border relative bg-gradient-to-br from-[#F3F4F5] to-[#FF9408] border-yellow-400 text-black">
           {/* Compliance Report */}
-          <ComplianceReport provider={provider} address={address} isConnected={isConnected} />
+          <ComplianceReport provider={provider} address={address} isConnected={isConnected} chainId={chainId} />
         </div>
         <div className="rounded-2xl shadow-lg p-6 border relative bg-gradient-to-br from-[#DBE0E1] to-[#CA3F16] border-orange-800 text-black">
           {/* Sell Token Form (Transfer Tokens) */}
-          <SellTokenForm provider={provider} address={address} isConnected={isConnected} />
+          <SellTokenForm provider={provider} address={address} isConnected={isConnected} chainId={chainId} />
         </div>
       </div>
       <div className="rounded-2xl shadow-lg p-6 border relative bg-gradient-to-br from-[#FF9408] to-[#95122C] border-red-900 text-white">
         {/* Eco Profile - Full Width */}
-        <EcoProfile provider={provider} address={address} isConnected={isConnected} />
+        <EcoProfile provider={provider} address={address} isConnected={isConnected} chainId={chainId} />
       </div>
     </div>
   );
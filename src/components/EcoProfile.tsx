@@ -1,14 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
 import { User, Award, FileText, ExternalLink, CheckCircle, Clock, AlertCircle } from 'lucide-react';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../constants/contract';
+import { connectEcoToken } from '../contracts/EcoToken';
 import { EcoAction } from '../types';
+import { getActionIndexer } from '../utils/actionIndexer';
+import { openProviderCache, readThrough } from '../utils/chainCache';
+import { findTokenAddress } from '../utils/networks';
+import { isCid, ipfsGatewayUrl } from '../utils/ipfs';
+import { EvidenceManifestView } from './EvidenceManifestView';
 import toast from 'react-hot-toast';
 
 interface EcoProfileProps {
   provider: ethers.BrowserProvider | null;
   address: string | null;
   isConnected: boolean;
+  chainId: number | null;
 }
 
 interface ManufacturerAction {
@@ -22,66 +28,53 @@ interface ManufacturerAction {
 export const EcoProfile: React.FC<EcoProfileProps> = ({
   provider,
   address,
-  isConnected
+  isConnected,
+  chainId
 }) => {
   const [actions, setActions] = useState<ManufacturerAction[]>([]);
   const [tokenBalance, setTokenBalance] = useState('0');
   const [loading, setLoading] = useState(false);
   const [totalReduction, setTotalReduction] = useState(0);
   const [verifiedActions, setVerifiedActions] = useState(0);
+  const tokenAddress = findTokenAddress(chainId);
 
   useEffect(() => {
-    if (isConnected && address && provider) {
+    if (isConnected && address && provider && tokenAddress) {
       fetchProfileData();
     }
-  }, [isConnected, address, provider]);
+  }, [isConnected, address, provider, tokenAddress]);
 
   const fetchProfileData = async () => {
-    if (!provider || !address) return;
+    if (!provider || !address || !tokenAddress) return;
 
     setLoading(true);
     try {
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
-      
-      // Get token balance
-      const balance = await contract.balanceOf(address);
-      setTokenBalance(ethers.formatEther(balance));
+      const contract = connectEcoToken(tokenAddress, provider);
+      const cache = await openProviderCache(provider, tokenAddress);
+      const indexer = getActionIndexer(provider, tokenAddress);
 
-      // Fetch all manufacturer actions
-      const manufacturerActions: ManufacturerAction[] = [];
-      let actionId = 0;
-      let totalReductionAmount = 0;
-      let verifiedCount = 0;
+      const showActions = () => {
+        const manufacturerActions: ManufacturerAction[] = indexer.getActionsFor(address);
+        setActions(manufacturerActions);
+        setTotalReduction(manufacturerActions.reduce((sum, action) => sum + action.reductionAmount, 0));
+        setVerifiedActions(manufacturerActions.filter(action => action.verified).length);
+      };
 
-      while (true) {
-        try {
-          const action = await contract.manufacturerActions(address, actionId);
-          
-          const actionData: ManufacturerAction = {
-            description: action.description,
-            reductionAmount: Number(action.reductionAmount),
-            ipfsHash: action.ipfsHash,
-            verified: action.verified,
-            actionId
-          };
-
-          manufacturerActions.push(actionData);
-          
-          if (action.verified) {
-            verifiedCount++;
-          }
-          
-          totalReductionAmount += Number(action.reductionAmount);
-          actionId++;
-        } catch {
-          // No more actions found
-          break;
-        }
+      // Show the cached profile first, then refresh balance and actions from the chain
+      const cachedBalance = await cache.getValue<string>(`balance:${address.toLowerCase()}`);
+      if (cachedBalance) {
+        setTokenBalance(cachedBalance.value);
+      }
+      await indexer.load();
+      showActions();
+      if (cachedBalance) {
+        setLoading(false);
       }
 
-      setActions(manufacturerActions);
-      setTotalReduction(totalReductionAmount);
-      setVerifiedActions(verifiedCount);
+      await readThrough(cache, provider, `balance:${address.toLowerCase()}`, async () =>
+        ethers.formatEther(await contract.balanceOf(address)), setTokenBalance);
+      await indexer.sync();
+      showActions();
     } catch (error) {
       console.error('Error fetching profile data:', error);
       toast.error('Failed to fetch profile data');
@@ -113,8 +106,7 @@ export const EcoProfile: React.FC<EcoProfileProps> = ({
   };
 
   const openIPFSLink = (ipfsHash: string) => {
-    const ipfsUrl = `https://ipfs.io/ipfs/${ipfsHash}`;
-    window.open(ipfsUrl, '_blank');
+    window.open(ipfsGatewayUrl(ipfsHash), '_blank', 'noopener,noreferrer');
   };
 
   if (!isConnected) {
@@ -233,7 +225,7 @@ export const EcoProfile: React.FC<EcoProfileProps> = ({
                           </p>
                         </div>
 
-                        {action.ipfsHash && (
+                        {isCid(action.ipfsHash) ? (
                           <button
                             onClick={() => openIPFSLink(action.ipfsHash)}
                             className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 transition-colors"
@@ -241,8 +233,12 @@ export const EcoProfile: React.FC<EcoProfileProps> = ({
                             <ExternalLink className="w-4 h-4" />
                             View Document
                           </button>
+                        ) : action.ipfsHash && (
+                          <span className="text-sm text-gray-500">No IPFS evidence</span>
                         )}
                       </div>
+
+                      <EvidenceManifestView ipfsHash={action.ipfsHash} />
                     </div>
                   </div>
                 ))}
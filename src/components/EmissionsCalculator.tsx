@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator, Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { ActivityCategory, ActivityLine, EmissionsCalculation } from '../types';
+import { ACTIVITY_CATEGORIES, FACTOR_TABLES, calculateEmissions, calculateLine } from '../utils/emissionsCalculator';
+
+interface EmissionsCalculatorProps {
+  disabled?: boolean;
+  onApply: (calculation: EmissionsCalculation) => void;
+}
+
+interface RowInput {
+  category: ActivityCategory;
+  factorKey: string;
+  quantity: string;
+  distanceKm: string;
+}
+
+type Scenario = 'baseline' | 'project';
+
+const firstFactorKey = (category: ActivityCategory) => Object.keys(FACTOR_TABLES[category])[0];
+
+const newRow = (category: ActivityCategory = 'electricity'): RowInput => ({
+  category,
+  factorKey: firstFactorKey(category),
+  quantity: '',
+  distanceKm: '',
+});
+
+const toActivityLine = (row: RowInput): ActivityLine => ({
+  category: row.category,
+  factorKey: row.factorKey,
+  quantity: parseFloat(row.quantity),
+  distanceKm: row.category === 'freight' ? parseFloat(row.distanceKm) : undefined,
+});
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-800 bg-white/80 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+export const EmissionsCalculator: React.FC<EmissionsCalculatorProps> = ({ disabled, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rows, setRows] = useState<Record<Scenario, RowInput[]>>({
+    baseline: [newRow()],
+    project: [newRow()],
+  });
+
+  const result = useMemo(() => {
+    try {
+      return { calculation: calculateEmissions(rows.baseline.map(toActivityLine), rows.project.map(toActivityLine)) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [rows]);
+
+  const updateRow = (scenario: Scenario, index: number, changes: Partial<RowInput>) => {
+    setRows(prev => ({
+      ...prev,
+      [scenario]: prev[scenario].map((row, i) => {
+        if (i !== index) return row;
+        const next = { ...row, ...changes };
+        // A new category means the old factor key no longer applies
+        if (changes.category && changes.category !== row.category) {
+          next.factorKey = firstFactorKey(changes.category);
+        }
+        return next;
+      }),
+    }));
+  };
+
+  const addRow = (scenario: Scenario) => {
+    setRows(prev => ({ ...prev, [scenario]: [...prev[scenario], newRow()] }));
+  };
+
+  const removeRow = (scenario: Scenario, index: number) => {
+    setRows(prev => ({ ...prev, [scenario]: prev[scenario].filter((_, i) => i !== index) }));
+  };
+
+  // Shows a line's working as soon as its own inputs are complete
+  const lineWorking = (row: RowInput) => {
+    try {
+      return calculateLine(toActivityLine(row)).working;
+    } catch {
+      return null;
+    }
+  };
+
+  const renderScenario = (scenario: Scenario, title: string) => (
+    <div className="space-y-3">
+      <h4 className="font-semibold text-gray-800">{title}</h4>
+      {rows[scenario].map((row, index) => {
+        const factor = FACTOR_TABLES[row.category][row.factorKey];
+        const working = lineWorking(row);
+        return (
+          <div key={index} className="rounded-lg bg-white/60 p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={row.category}
+                onChange={(e) => updateRow(scenario, index, { category: e.target.value as ActivityCategory })}
+                className={inputClass}
+                disabled={disabled}
+              >
+                {ACTIVITY_CATEGORIES.map(category => (
+                  <option key={category.value} value={category.value}>{category.label}</option>
+                ))}
+              </select>
+              <select
+                value={row.factorKey}
+                onChange={(e) => updateRow(scenario, index, { factorKey: e.target.value })}
+                className={`${inputClass} flex-1 min-w-[10rem]`}
+                disabled={disabled}
+              >
+                {Object.entries(FACTOR_TABLES[row.category]).map(([key, option]) => (
+                  <option key={key} value={key}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => removeRow(scenario, index)}
+                disabled={disabled}
+                className="text-gray-500 hover:text-red-600"
+                aria-label="Remove line"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="number"
+                value={row.quantity}
+                onChange={(e) => updateRow(scenario, index, { quantity: e.target.value })}
+                step="any"
+                min="0"
+                placeholder={row.category === 'freight' ? 'Tonnes shipped' : `Quantity (${factor.unit})`}
+                className={`${inputClass} w-40`}
+                disabled={disabled}
+              />
+              {row.category === 'freight' && (
+                <input
+                  type="number"
+                  value={row.distanceKm}
+                  onChange={(e) => updateRow(scenario, index, { distanceKm: e.target.value })}
+                  step="any"
+                  min="0"
+                  placeholder="Distance (km)"
+                  className={`${inputClass} w-40`}
+                  disabled={disabled}
+                />
+              )}
+              <span className="text-xs text-gray-500">
+                {factor.kgCO2ePerUnit} kgCO2e/{factor.unit} · {factor.source}
+              </span>
+            </div>
+
+            {working && <p className="font-mono text-xs text-gray-700">{working}</p>}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => addRow(scenario)}
+        disabled={disabled}
+        className="flex items-center gap-1 text-sm text-emerald-700 hover:text-emerald-800"
+      >
+        <Plus className="w-4 h-4" />
+        Add line
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="rounded-xl border border-emerald-300 bg-white/40">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left font-semibold text-emerald-800"
+      >
+        <span className="flex items-center gap-2">
+          <Calculator className="w-5 h-5" />
+          Calculate from activity data
+        </span>
+        {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {renderScenario('baseline', 'Baseline activity')}
+            {renderScenario('project', 'Project activity')}
+          </div>
+
+          {result.calculation ? (
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-emerald-50 p-3 text-sm text-gray-800">
+              <div className="flex flex-wrap gap-4">
+                <span>Baseline: <strong>{result.calculation.baseline.totalT} tCO2e</strong></span>
+                <span>Project: <strong>{result.calculation.project.totalT} tCO2e</strong></span>
+                <span className="text-emerald-700">
+                  Reduction: <strong>{result.calculation.reductionT} tCO2e</strong>
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => result.calculation && onApply(result.calculation)}
+                disabled={disabled || result.calculation.reductionT <= 0}
+                className="rounded-full bg-emerald-600 px-4 py-2 font-semibold text-white hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Use this result
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">{result.error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
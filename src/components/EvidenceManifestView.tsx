@@ -0,0 +1,138 @@
+import React from 'react';
+import { FileText, MapPin, AlertTriangle, Loader2, ExternalLink, CheckCircle, Calculator } from 'lucide-react';
+import { useEvidenceManifest } from '../hooks/useEvidenceManifest';
+import { EMISSION_SCOPES, MANIFEST_VERSION } from '../utils/evidenceManifest';
+import { ipfsGatewayUrl } from '../utils/ipfs';
+
+interface EvidenceManifestViewProps {
+  ipfsHash: string;
+}
+
+export const EvidenceManifestView: React.FC<EvidenceManifestViewProps> = ({ ipfsHash }) => {
+  const state = useEvidenceManifest(ipfsHash);
+
+  if (state.status === 'none') {
+    return null;
+  }
+
+  if (state.status === 'loading') {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading evidence manifest...
+      </div>
+    );
+  }
+
+  if (state.status === 'unavailable') {
+    return (
+      <div className="flex items-start gap-2 rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>Evidence manifest could not be fetched: {state.error}</span>
+      </div>
+    );
+  }
+
+  if (state.status === 'invalid') {
+    return (
+      <div className="rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+        <div className="flex items-center gap-2 font-semibold mb-1">
+          <AlertTriangle className="w-4 h-4" />
+          Evidence does not match the v{MANIFEST_VERSION} manifest schema
+        </div>
+        <ul className="list-disc pl-6 space-y-0.5">
+          {state.issues.map((issue, index) => (
+            <li key={index}>
+              {issue.path && <span className="font-mono">{issue.path}</span>} {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const { manifest } = state;
+  const { calculation } = manifest;
+  const scope = EMISSION_SCOPES.find(item => item.value === manifest.emissionScope);
+
+  return (
+    <details className="rounded-lg border border-emerald-200 bg-white/70 p-3 text-sm text-gray-800">
+      <summary className="flex cursor-pointer items-center gap-2 font-semibold text-emerald-700">
+        <CheckCircle className="w-4 h-4" />
+        Evidence manifest v{manifest.version} · {manifest.methodology}
+      </summary>
+
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs font-medium text-gray-500">Reporting period</p>
+          <p>{manifest.reportingPeriod.start} → {manifest.reportingPeriod.end}</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-500">Emission scope</p>
+          <p>{scope?.label ?? `Scope ${manifest.emissionScope}`}</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-500">Baseline / measured</p>
+          <p>{manifest.baseline} / {manifest.measured} {manifest.unit}</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-500">Reduction</p>
+          <p className="font-semibold text-green-700">{manifest.reductionAmount} tCO2e</p>
+        </div>
+        <div className="md:col-span-2 flex items-center gap-1">
+          <MapPin className="w-4 h-4 text-gray-500" />
+          <span>
+            {manifest.location.site}, {manifest.location.country}
+            {manifest.location.latitude !== undefined && manifest.location.longitude !== undefined && (
+              <span className="text-gray-500"> ({manifest.location.latitude}, {manifest.location.longitude})</span>
+            )}
+          </span>
+        </div>
+      </div>
+
+      {calculation && (
+        <div className="mt-3">
+          <p className="flex items-center gap-1 text-xs font-medium text-gray-500 mb-1">
+            <Calculator className="w-3 h-3" />
+            Calculation (factor table {calculation.factorTableVersion}, recomputed and consistent)
+          </p>
+          {(['baseline', 'project'] as const).map(name => (
+            <div key={name} className="mb-2">
+              <p className="font-medium capitalize">
+                {name}: {calculation[name].totalT} tCO2e
+              </p>
+              <ul className="pl-4 space-y-0.5">
+                {calculation[name].lines.map((line, index) => (
+                  <li key={index} className="font-mono text-xs text-gray-700">
+                    {line.working} <span className="text-gray-500">({line.factorSource})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3">
+        <p className="text-xs font-medium text-gray-500 mb-1">Files</p>
+        <ul className="space-y-1">
+          {manifest.files.map(file => (
+            <li key={file.cid}>
+              <a
+                href={`${ipfsGatewayUrl(file.cid)}?filename=${encodeURIComponent(file.name)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+              >
+                <FileText className="w-4 h-4" />
+                {file.name}
+                <span className="text-gray-500">({(file.size / 1024).toFixed(1)} KB)</span>
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </details>
+  );
+};
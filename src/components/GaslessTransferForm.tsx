@@ -1,13 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
-import { Send, CheckCircle, XCircle, Clock, Zap, Shield } from 'lucide-react';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../constants/contract';
+import { Send, Zap, Shield } from 'lucide-react';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { useRecipient } from '../hooks/useRecipient';
+import { TRANSFER_TYPES } from '../constants/networks';
+import { findTokenAddress, getMetaTransferAddress, getMetaTransferDomain } from '../utils/networks';
+import { authHeaders } from '../utils/authSession';
+import { asError, decodeTxError } from '../utils/txErrors';
+import { getTransferHistory } from '../utils/transferHistory';
+import { RecipientPicker } from './RecipientPicker';
+import { TransferHistoryPanel } from './TransferHistoryPanel';
 import toast from 'react-hot-toast';
 
 interface GaslessTransferFormProps {
   provider: ethers.BrowserProvider | null;
   address: string | null;
   isConnected: boolean;
+  chainId: number | null;
 }
 
 interface TransferRequest {
@@ -27,26 +36,26 @@ interface TransferSignature {
 export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
   provider,
   address,
-  isConnected
+  isConnected,
+  chainId
 }) => {
-  const [recipientAddress, setRecipientAddress] = useState('');
+  const recipient = useRecipient(provider, chainId, address);
   const [amount, setAmount] = useState('');
   const [tokenBalance, setTokenBalance] = useState('0');
   const [loading, setLoading] = useState(false);
-  const [transferHistory, setTransferHistory] = useState<any[]>([]);
-  const [showHistory, setShowHistory] = useState(false);
+  const tokenAddress = findTokenAddress(chainId);
 
   useEffect(() => {
-    if (isConnected && address && provider) {
+    if (isConnected && address && provider && tokenAddress) {
       fetchTokenBalance();
     }
-  }, [isConnected, address, provider]);
+  }, [isConnected, address, provider, tokenAddress]);
 
   const fetchTokenBalance = async () => {
-    if (!provider || !address) return;
+    if (!provider || !address || !tokenAddress) return;
 
     try {
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+      const contract = connectEcoToken(tokenAddress, provider);
       const balance = await contract.balanceOf(address);
       setTokenBalance(ethers.formatEther(balance));
     } catch (error) {
@@ -55,38 +64,15 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
     }
   };
 
-  const validateAddress = (address: string): boolean => {
-    return ethers.isAddress(address);
-  };
-
   const validateAmount = (amount: string): boolean => {
     const numAmount = parseFloat(amount);
     return !isNaN(numAmount) && numAmount > 0 && numAmount <= parseFloat(tokenBalance);
   };
 
-  // EIP-712 Domain and Types for meta-transaction
-  const getDomain = (chainId: number) => ({
-    name: 'EcoToken',
-    version: '1',
-    chainId: chainId,
-    verifyingContract: CONTRACT_ADDRESS
-  });
-
-  const getTypes = () => ({
-    Transfer: [
-      { name: 'from', type: 'address' },
-      { name: 'to', type: 'address' },
-      { name: 'amount', type: 'uint256' },
-      { name: 'nonce', type: 'uint256' },
-      { name: 'deadline', type: 'uint256' }
-    ]
-  });
-
   const getNonce = async (): Promise<number> => {
     if (!provider || !address) throw new Error('Provider or address not available');
     
     try {
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
       // Assuming the contract has a nonce mapping or we can use a simple timestamp-based nonce
       return Math.floor(Date.now() / 1000);
     } catch (error) {
@@ -96,14 +82,14 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
   };
 
   const createTransferRequest = async (): Promise<TransferRequest> => {
-    if (!address) throw new Error('Address not available');
+    if (!address || !recipient.address) throw new Error('Address not available');
     
     const nonce = await getNonce();
     const deadline = Math.floor(Date.now() / 1000) + 3600; // 1 hour from now
     
     return {
       from: address,
-      to: recipientAddress,
+      to: recipient.address,
       amount: ethers.parseEther(amount).toString(),
       nonce,
       deadline
@@ -114,11 +100,10 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
     if (!provider || !address) throw new Error('Provider or address not available');
     
     const signer = await provider.getSigner();
-    const network = await provider.getNetwork();
-    const domain = getDomain(network.chainId);
-    const types = getTypes();
+    // Signed for the EcoMetaTransfer deployment on the connected chain
+    const domain = getMetaTransferDomain(chainId);
 
-    const signature = await signer.signTypedData(domain, types, transferRequest);
+    const signature = await signer.signTypedData(domain, TRANSFER_TYPES, transferRequest);
     const sig = ethers.splitSignature(signature);
 
     return {
@@ -131,19 +116,27 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
   const relayTransfer = async (transferRequest: TransferRequest, signature: TransferSignature): Promise<string> => {
     const response = await fetch('/api/relay-transfer', {
       method: 'POST',
+      // The relayer may require a SIWE session for this account
       headers: {
         'Content-Type': 'application/json',
+        ...authHeaders(chainId, address),
       },
       body: JSON.stringify({
         transferRequest,
         signature,
-        contractAddress: CONTRACT_ADDRESS
+        contractAddress: getMetaTransferAddress(chainId),
+        chainId
       }),
     });
 
     if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.message || 'Relay request failed');
+      // The relayer answers with a decoded error; anything else means the relay service itself failed
+      const errorData = await response.json().catch(() => ({}));
+      throw asError({
+        kind: errorData.kind ?? 'relay',
+        reason: errorData.reason,
+        message: errorData.error || `Relay service error (HTTP ${response.status})`,
+      });
     }
 
     const result = await response.json();
@@ -156,7 +149,7 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
       return;
     }
 
-    if (!validateAddress(recipientAddress)) {
+    if (!recipient.address) {
       toast.error('Please enter a valid recipient address');
       return;
     }
@@ -167,19 +160,6 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
     }
 
     setLoading(true);
-    const transferId = Date.now().toString();
-    
-    // Add to history as pending
-    const newTransfer = {
-      id: transferId,
-      to: recipientAddress,
-      amount,
-      timestamp: new Date(),
-      status: 'pending' as const,
-      type: 'gasless'
-    };
-    
-    setTransferHistory(prev => [newTransfer, ...prev]);
 
     try {
       // Step 1: Create transfer request
@@ -189,80 +169,29 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
       const signature = await signTransferRequest(transferRequest);
       
       // Step 3: Send to relayer
-      const txHash = await relayTransfer(transferRequest, signature);
+      await relayTransfer(transferRequest, signature);
       
-      // Update history with transaction hash
-      setTransferHistory(prev => 
-        prev.map(transfer => 
-          transfer.id === transferId 
-            ? { ...transfer, txHash, status: 'success' as const }
-            : transfer
-        )
-      );
-
       toast.success('Gasless transfer completed successfully!');
       
       // Reset form
-      setRecipientAddress('');
+      recipient.reset();
       setAmount('');
       
-      // Refresh token balance
+      // Refresh token balance and pick the relayed transfer up in the history
       await fetchTokenBalance();
+      if (provider && chainId !== null) {
+        getTransferHistory(provider, chainId, address)?.sync()
+          .catch(error => console.error('Error syncing transfer history:', error));
+      }
       
     } catch (error) {
       console.error('Gasless transfer error:', error);
-      
-      // Update history as failed
-      setTransferHistory(prev => 
-        prev.map(transfer => 
-          transfer.id === transferId 
-            ? { ...transfer, status: 'failed' as const, error: error instanceof Error ? error.message : 'Unknown error' }
-            : transfer
-        )
-      );
-
-      if (error instanceof Error) {
-        if (error.message.includes('user rejected')) {
-          toast.error('Transaction was cancelled');
-        } else if (error.message.includes('relay')) {
-          toast.error('Relay service error. Please try again.');
-        } else {
-          toast.error('Transfer failed. Please try again.');
-        }
-      } else {
-        toast.error('Transfer failed. Please try again.');
-      }
+      toast.error(decodeTxError(error, { fallback: 'Transfer failed. Please try again.' }).message);
     } finally {
       setLoading(false);
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return <Clock className="w-4 h-4 text-yellow-500" />;
-      case 'success':
-        return <CheckCircle className="w-4 h-4 text-green-500" />;
-      case 'failed':
-        return <XCircle className="w-4 h-4 text-red-500" />;
-      default:
-        return <Clock className="w-4 h-4 text-gray-500" />;
-    }
-  };
-
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'Pending';
-      case 'success':
-        return 'Success';
-      case 'failed':
-        return 'Failed';
-      default:
-        return 'Unknown';
-    }
-  };
-
   if (!isConnected) {
     return (
       <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
@@ -316,21 +245,7 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
       {/* Transfer Form */}
       <div className="space-y-4 mb-6">
         <div>
-          <label htmlFor="gasless-recipient" className="block text-sm font-medium text-gray-700 mb-2">
-            Recipient Address
-          </label>
-          <input
-            type="text"
-            id="gasless-recipient"
-            value={recipientAddress}
-            onChange={(e) => setRecipientAddress(e.target.value)}
-            placeholder="0x..."
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
-            disabled={loading}
-          />
-          {recipientAddress && !validateAddress(recipientAddress) && (
-            <p className="text-red-500 text-sm mt-1">Invalid address format</p>
-          )}
+          <RecipientPicker id="gasless-recipient" recipient={recipient} disabled={loading} />
         </div>
 
         <div>
@@ -358,7 +273,7 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
 
         <button
           onClick={handleGaslessTransfer}
-          disabled={loading || !recipientAddress || !amount || !validateAddress(recipientAddress) || !validateAmount(amount)}
+          disabled={loading || !recipient.address || !amount || !validateAmount(amount)}
           className="w-full bg-gradient-to-r from-purple-500 to-blue-500 text-white font-semibold py-3 px-6 rounded-lg shadow-lg hover:from-purple-600 hover:to-blue-600 transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {loading ? (
@@ -376,66 +291,7 @@ export const GaslessTransferForm: React.FC<GaslessTransferFormProps> = ({
       </div>
 
       {/* Transfer History */}
-      {transferHistory.length > 0 && (
-        <div className="border-t border-gray-200 pt-6">
-          <div className="flex items-center justify-between mb-4">
-            <h4 className="text-lg font-semibold text-gray-900">Transfer History</h4>
-            <button
-              onClick={() => setShowHistory(!showHistory)}
-              className="flex items-center gap-2 text-sm text-purple-600 hover:text-purple-700"
-            >
-              {showHistory ? 'Hide' : 'Show'} History
-            </button>
-          </div>
-
-          {showHistory && (
-            <div className="space-y-3 max-h-64 overflow-y-auto">
-              {transferHistory.map((transfer) => (
-                <div
-                  key={transfer.id}
-                  className="bg-gray-50 rounded-lg p-4 border border-gray-200"
-                >
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                      {getStatusIcon(transfer.status)}
-                      <span className={`text-sm font-medium ${
-                        transfer.status === 'success' ? 'text-green-700' :
-                        transfer.status === 'failed' ? 'text-red-700' :
-                        'text-yellow-700'
-                      }`}>
-                        {getStatusText(transfer.status)}
-                      </span>
-                      {transfer.type === 'gasless' && (
-                        <span className="bg-purple-100 text-purple-700 px-2 py-1 rounded-full text-xs">
-                          Gasless
-                        </span>
-                      )}
-                    </div>
-                    <span className="text-xs text-gray-500">
-                      {transfer.timestamp.toLocaleTimeString()}
-                    </span>
-                  </div>
-                  
-                  <div className="text-sm text-gray-700">
-                    <p><span className="font-medium">To:</span> {transfer.to}</p>
-                    <p><span className="font-medium">Amount:</span> {transfer.amount} ECO</p>
-                    {transfer.txHash && (
-                      <p className="text-xs text-gray-500 mt-1">
-                        <span className="font-medium">Tx:</span> {transfer.txHash.slice(0, 10)}...{transfer.txHash.slice(-8)}
-                      </p>
-                    )}
-                    {transfer.error && (
-                      <p className="text-xs text-red-500 mt-1">
-                        <span className="font-medium">Error:</span> {transfer.error}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-      )}
+      <TransferHistoryPanel provider={provider} chainId={chainId} address={address} />
     </div>
   );
 }; 
\ No newline at end of file
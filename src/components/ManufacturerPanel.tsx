@@ -1,7 +1,47 @@
 import React, { useState } from 'react';
-import { EcoAction } from '../types';
-import { Plus, FileText, CheckCircle, Clock, Leaf, Sparkles } from 'lucide-react';
-import { keccak256, toUtf8Bytes } from 'ethers';
+import { EcoAction, EmissionScope, EmissionsCalculation, ManifestIssue } from '../types';
+import { Plus, FileText, CheckCircle, Clock, Leaf, Sparkles, Paperclip, X, ExternalLink } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { EVIDENCE_ACCEPT } from '../constants/ipfs';
+import { validateEvidenceFiles, isCid, ipfsGatewayUrl } from '../utils/ipfs';
+import {
+  ManifestDraft,
+  MANIFEST_UNITS,
+  EMISSION_SCOPES,
+  uploadManifestBundle,
+  validateManifestDraft,
+} from '../utils/evidenceManifest';
+import { EvidenceManifestView } from './EvidenceManifestView';
+import { EmissionsCalculator } from './EmissionsCalculator';
+
+const METHODOLOGIES = [
+  'GHG Protocol Corporate Standard',
+  'GHG Protocol Project Protocol',
+  'ISO 14064-2',
+  'Verra VCS',
+  'Gold Standard',
+];
+
+const EMPTY_FORM = {
+  description: '',
+  reductionAmount: '',
+  methodology: '',
+  periodStart: '',
+  periodEnd: '',
+  emissionScope: '1',
+  baseline: '',
+  measured: '',
+  unit: 'tCO2e',
+  site: '',
+  country: '',
+  latitude: '',
+  longitude: '',
+};
+
+// Editing any of these by hand detaches the form from the calculator result
+const CALCULATED_FIELDS = ['baseline', 'measured', 'unit', 'reductionAmount'];
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : parseFloat(value));
 
 interface ManufacturerPanelProps {
   userActions: EcoAction[];
@@ -15,28 +55,73 @@ export const ManufacturerPanel: React.FC<ManufacturerPanelProps> = ({
   onSubmitAction,
 }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [formData, setFormData] = useState({
-    description: '',
-    reductionAmount: '',
+  const [isUploading, setIsUploading] = useState(false);
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [issues, setIssues] = useState<ManifestIssue[]>([]);
+  const [calculation, setCalculation] = useState<EmissionsCalculation | null>(null);
+
+  const buildDraft = (): ManifestDraft => ({
+    description: formData.description,
+    methodology: formData.methodology,
+    reportingPeriod: { start: formData.periodStart, end: formData.periodEnd },
+    emissionScope: Number(formData.emissionScope) as EmissionScope,
+    baseline: parseFloat(formData.baseline),
+    measured: parseFloat(formData.measured),
+    unit: formData.unit,
+    reductionAmount: parseFloat(formData.reductionAmount),
+    location: {
+      site: formData.site,
+      country: formData.country,
+      latitude: optionalNumber(formData.latitude),
+      longitude: optionalNumber(formData.longitude),
+    },
+    calculation: calculation ?? undefined,
   });
 
+  const issueFor = (path: string) => {
+    const issue = issues.find(item => item.path === path || item.path.startsWith(`${path}.`));
+    return issue && <p className="mt-1 text-xs text-red-600">{issue.message}</p>;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.description || !formData.reductionAmount) {
+    const draft = buildDraft();
+    const draftIssues = validateManifestDraft(draft);
+    setIssues(draftIssues);
+    if (draftIssues.length > 0) {
+      toast.error('Please fix the highlighted manifest fields');
+      return;
+    }
+
+    const problem = validateEvidenceFiles(evidenceFiles);
+    if (problem) {
+      toast.error(problem);
       return;
     }
 
     setIsSubmitting(true);
     try {
-      // Generate a mock IPFS hash using keccak256 of description + reductionAmount
-      const hashInput = `${formData.description}:${formData.reductionAmount}`;
-      const ipfsHash = keccak256(toUtf8Bytes(hashInput));
+      setIsUploading(true);
+      let ipfsHash: string;
+      try {
+        ipfsHash = (await uploadManifestBundle(draft, evidenceFiles)).manifestCid;
+      } catch (error) {
+        console.error('Error uploading evidence:', error);
+        toast.error('Failed to upload evidence to IPFS');
+        return;
+      } finally {
+        setIsUploading(false);
+      }
+
       await onSubmitAction(
         formData.description,
-        parseFloat(formData.reductionAmount),
+        draft.reductionAmount,
         ipfsHash
       );
-      setFormData({ description: '', reductionAmount: '' });
+      setFormData(EMPTY_FORM);
+      setEvidenceFiles([]);
+      setCalculation(null);
     } catch (error) {
       console.error('Error submitting action:', error);
     } finally {
@@ -44,9 +129,35 @@ export const ManufacturerPanel: React.FC<ManufacturerPanelProps> = ({
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    setEvidenceFiles(prev => [...prev, ...selected]);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const removeEvidenceFile = (index: number) => {
+    setEvidenceFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
+    if (CALCULATED_FIELDS.includes(name)) {
+      setCalculation(null);
+    }
+  };
+
+  const applyCalculation = (result: EmissionsCalculation) => {
+    setCalculation(result);
+    setFormData(prev => ({
+      ...prev,
+      baseline: String(result.baseline.totalT),
+      measured: String(result.project.totalT),
+      unit: 'tCO2e',
+      reductionAmount: String(result.reductionT),
+    }));
+    toast.success(`Calculated a reduction of ${result.reductionT} tCO2e`);
   };
 
   return (
@@ -74,11 +185,148 @@ export const ManufacturerPanel: React.FC<ManufacturerPanelProps> = ({
                 placeholder="Describe your eco-action and environmental impact..."
                 required
               />
+              {issueFor('description')}
             </div>
             
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="methodology" className="block text-sm font-medium text-pink-700 mb-2">
+                  Methodology
+                </label>
+                <input
+                  type="text"
+                  id="methodology"
+                  name="methodology"
+                  list="methodology-options"
+                  value={formData.methodology}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                  placeholder="e.g. GHG Protocol Corporate Standard"
+                  required
+                />
+                <datalist id="methodology-options">
+                  {METHODOLOGIES.map(methodology => <option key={methodology} value={methodology} />)}
+                </datalist>
+                {issueFor('methodology')}
+              </div>
+
+              <div>
+                <label htmlFor="emissionScope" className="block text-sm font-medium text-pink-700 mb-2">
+                  Emission Scope
+                </label>
+                <select
+                  id="emissionScope"
+                  name="emissionScope"
+                  value={formData.emissionScope}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                >
+                  {EMISSION_SCOPES.map(scope => (
+                    <option key={scope.value} value={scope.value}>{scope.label}</option>
+                  ))}
+                </select>
+                {issueFor('emissionScope')}
+              </div>
+
+              <div>
+                <label htmlFor="periodStart" className="block text-sm font-medium text-pink-700 mb-2">
+                  Reporting Period Start
+                </label>
+                <input
+                  type="date"
+                  id="periodStart"
+                  name="periodStart"
+                  value={formData.periodStart}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                  required
+                />
+                {issueFor('reportingPeriod')}
+              </div>
+
+              <div>
+                <label htmlFor="periodEnd" className="block text-sm font-medium text-pink-700 mb-2">
+                  Reporting Period End
+                </label>
+                <input
+                  type="date"
+                  id="periodEnd"
+                  name="periodEnd"
+                  value={formData.periodEnd}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                  required
+                />
+              </div>
+            </div>
+
+            <EmissionsCalculator disabled={isSubmitting} onApply={applyCalculation} />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="baseline" className="block text-sm font-medium text-orange-700 mb-2">
+                  Baseline
+                </label>
+                <input
+                  type="number"
+                  id="baseline"
+                  name="baseline"
+                  value={formData.baseline}
+                  onChange={handleInputChange}
+                  step="any"
+                  min="0"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                  placeholder="0.00"
+                  required
+                />
+                {issueFor('baseline')}
+              </div>
+
+              <div>
+                <label htmlFor="measured" className="block text-sm font-medium text-orange-700 mb-2">
+                  Measured
+                </label>
+                <input
+                  type="number"
+                  id="measured"
+                  name="measured"
+                  value={formData.measured}
+                  onChange={handleInputChange}
+                  step="any"
+                  min="0"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                  placeholder="0.00"
+                  required
+                />
+                {issueFor('measured')}
+              </div>
+
+              <div>
+                <label htmlFor="unit" className="block text-sm font-medium text-orange-700 mb-2">
+                  Unit
+                </label>
+                <select
+                  id="unit"
+                  name="unit"
+                  value={formData.unit}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                >
+                  {MANIFEST_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                </select>
+                {issueFor('unit')}
+              </div>
+            </div>
+            {calculation && (
+              <p className="-mt-3 text-xs text-emerald-800">
+                Filled from the calculator (factor table {calculation.factorTableVersion}); the full working is stored in the evidence manifest.
+              </p>
+            )}
+            {issueFor('calculation')}
+
             <div>
               <label htmlFor="reductionAmount" className="block text-sm font-medium text-orange-700 mb-2">
-                CO2 Reduction Amount (tons)
+                CO2 Reduction Amount (tCO2e)
               </label>
               <input
                 type="number"
@@ -86,12 +334,120 @@ export const ManufacturerPanel: React.FC<ManufacturerPanelProps> = ({
                 name="reductionAmount"
                 value={formData.reductionAmount}
                 onChange={handleInputChange}
-                step="0.01"
+                step="any"
                 min="0"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-orange-400"
                 placeholder="0.00"
                 required
               />
+              {issueFor('reductionAmount')}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="site" className="block text-sm font-medium text-purple-700 mb-2">
+                  Site
+                </label>
+                <input
+                  type="text"
+                  id="site"
+                  name="site"
+                  value={formData.site}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                  placeholder="Plant or facility name"
+                  required
+                />
+                {issueFor('location.site')}
+              </div>
+
+              <div>
+                <label htmlFor="country" className="block text-sm font-medium text-purple-700 mb-2">
+                  Country
+                </label>
+                <input
+                  type="text"
+                  id="country"
+                  name="country"
+                  value={formData.country}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                  placeholder="e.g. DE"
+                  required
+                />
+                {issueFor('location.country')}
+              </div>
+
+              <div>
+                <label htmlFor="latitude" className="block text-sm font-medium text-purple-700 mb-2">
+                  Latitude (optional)
+                </label>
+                <input
+                  type="number"
+                  id="latitude"
+                  name="latitude"
+                  value={formData.latitude}
+                  onChange={handleInputChange}
+                  step="any"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                />
+                {issueFor('location.latitude')}
+              </div>
+
+              <div>
+                <label htmlFor="longitude" className="block text-sm font-medium text-purple-700 mb-2">
+                  Longitude (optional)
+                </label>
+                <input
+                  type="number"
+                  id="longitude"
+                  name="longitude"
+                  value={formData.longitude}
+                  onChange={handleInputChange}
+                  step="any"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200 bg-gradient-to-br from-[#ffe5f1] to-[#FF9408] text-gray-800 placeholder:text-pink-400"
+                />
+                {issueFor('location.longitude')}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="evidence" className="block text-sm font-medium text-purple-700 mb-2">
+                Evidence (PDF, photos, CSV)
+              </label>
+              <input
+                type="file"
+                id="evidence"
+                multiple
+                accept={EVIDENCE_ACCEPT}
+                onChange={handleFilesChange}
+                className="w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:bg-purple-100 file:text-purple-700 hover:file:bg-purple-200"
+              />
+              {evidenceFiles.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                  {evidenceFiles.map((file, index) => (
+                    <li
+                      key={`${file.name}-${index}`}
+                      className="flex items-center justify-between gap-2 rounded-lg bg-white/60 px-3 py-2 text-sm text-gray-800"
+                    >
+                      <span className="flex items-center gap-2 truncate">
+                        <Paperclip className="w-4 h-4 text-purple-500 flex-shrink-0" />
+                        <span className="truncate">{file.name}</span>
+                        <span className="text-gray-500">({(file.size / 1024).toFixed(1)} KB)</span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => removeEvidenceFile(index)}
+                        disabled={isSubmitting}
+                        className="text-gray-500 hover:text-red-600"
+                        aria-label={`Remove ${file.name}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
             
             <button
@@ -102,7 +458,7 @@ export const ManufacturerPanel: React.FC<ManufacturerPanelProps> = ({
               {isSubmitting ? (
                 <>
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                  Submitting...
+                  {isUploading ? 'Uploading evidence...' : 'Submitting...'}
                 </>
               ) : (
                 <>
@@ -178,12 +534,26 @@ export const ManufacturerPanel: React.FC<ManufacturerPanelProps> = ({
                     </div>
                     
                     <div>
-                      <p className="text-sm font-medium text-gray-600 dark:text-yellow-300 mb-1">IPFS Hash</p>
-                      <p className="font-mono text-sm text-blue-600 dark:text-blue-300 break-all">
-                        {action.ipfsHash}
-                      </p>
+                      <p className="text-sm font-medium text-gray-600 dark:text-yellow-300 mb-1">Evidence CID</p>
+                      {isCid(action.ipfsHash) ? (
+                        <a
+                          href={ipfsGatewayUrl(action.ipfsHash)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 font-mono text-sm text-blue-600 dark:text-blue-300 break-all hover:underline"
+                        >
+                          {action.ipfsHash}
+                          <ExternalLink className="w-4 h-4 flex-shrink-0" />
+                        </a>
+                      ) : (
+                        <p className="font-mono text-sm text-gray-500 dark:text-yellow-200 break-all" title="Not an IPFS CID">
+                          {action.ipfsHash}
+                        </p>
+                      )}
                     </div>
                   </div>
+
+                  <EvidenceManifestView ipfsHash={action.ipfsHash} />
                 </div>
               </div>
             ))}
@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, BookUser, Download, Loader2, Save, ShieldAlert, Trash2, Upload } from 'lucide-react';
+import { RecipientState } from '../hooks/useRecipient';
+import { AddressBookFormat } from '../utils/addressBook';
+import { downloadText } from '../utils/download';
+import toast from 'react-hot-toast';
+
+interface RecipientPickerProps {
+  recipient: RecipientState;
+  disabled?: boolean;
+  id?: string;
+  label?: string;
+}
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const parseTags = (value: string) => value.split(',').map(tag => tag.trim()).filter(Boolean);
+
+export const RecipientPicker: React.FC<RecipientPickerProps> = ({ recipient, disabled, id = 'recipient', label = 'Recipient Address' }) => {
+  const [showContacts, setShowContacts] = useState(false);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [contactLabel, setContactLabel] = useState('');
+  const [contactTags, setContactTags] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { addressBook, contacts, resolvedAddress, ensName, contact } = recipient;
+
+  const query = search.trim().toLowerCase();
+  const matchingContacts = contacts.filter(candidate =>
+    !query
+    || candidate.label.toLowerCase().includes(query)
+    || candidate.address.toLowerCase().includes(query)
+    || candidate.ensName?.toLowerCase().includes(query)
+    || candidate.tags.some(tag => tag.toLowerCase().includes(query)));
+
+  const saveContact = () => {
+    if (!addressBook || !resolvedAddress) return;
+    addressBook.save({ address: resolvedAddress, label: contactLabel, tags: parseTags(contactTags), ensName });
+    toast.success(`Saved ${contactLabel || formatAddress(resolvedAddress)} to your address book`);
+    setSaving(false);
+    setContactLabel('');
+    setContactTags('');
+  };
+
+  const exportContacts = (format: AddressBookFormat) => {
+    if (!addressBook) return;
+    downloadText(`eco-address-book.${format}`, addressBook.exportContacts(format), format === 'json' ? 'application/json' : 'text/csv');
+  };
+
+  const importContacts = async (file: File) => {
+    if (!addressBook) return;
+    try {
+      const format: AddressBookFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const { added, updated, skipped } = addressBook.importContacts(await file.text(), format);
+      toast.success(`Imported ${added} new and ${updated} updated contacts${skipped ? `, skipped ${skipped} invalid rows` : ''}`);
+    } catch (error) {
+      console.error('Error importing contacts:', error);
+      toast.error('Could not read the address book file');
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          id={id}
+          value={recipient.input}
+          onChange={(e) => recipient.setInput(e.target.value)}
+          placeholder="0x... or name.eth"
+          className="flex-1 min-w-0 px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors"
+          disabled={disabled}
+        />
+        {addressBook && (
+          <button
+            type="button"
+            onClick={() => setShowContacts(!showContacts)}
+            className="px-3 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50"
+            aria-label="Address book"
+            disabled={disabled}
+          >
+            <BookUser className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {recipient.status === 'resolving' && (
+        <p className="flex items-center gap-1 text-gray-500 text-sm mt-1">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Resolving name...
+        </p>
+      )}
+      {recipient.status === 'invalid' && <p className="text-red-500 text-sm mt-1">{recipient.error}</p>}
+      {recipient.status === 'resolved' && resolvedAddress && (
+        <p className="text-xs text-gray-600 mt-1 break-all">
+          {contact && <span className="font-semibold text-emerald-700">{contact.label} · </span>}
+          {ensName && <span className="font-medium">{ensName} · </span>}
+          <span className="font-mono">{resolvedAddress}</span>
+        </p>
+      )}
+
+      {recipient.warnings.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {recipient.warnings.map((warning) => (
+            <p
+              key={warning.kind}
+              className={`flex items-start gap-1 text-xs ${warning.kind === 'lookalike' ? 'text-red-600 font-medium' : 'text-amber-700'}`}
+            >
+              {warning.kind === 'lookalike'
+                ? <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+                : <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+              {warning.message}
+            </p>
+          ))}
+          {recipient.needsConfirmation && (
+            <label className="flex items-center gap-2 text-xs text-red-700">
+              <input
+                type="checkbox"
+                checked={recipient.confirmed}
+                onChange={(e) => recipient.setConfirmed(e.target.checked)}
+                disabled={disabled}
+              />
+              I have compared every character and this is the right address
+            </label>
+          )}
+        </div>
+      )}
+
+      {addressBook && resolvedAddress && !contact && (
+        saving ? (
+          <div className="flex flex-wrap gap-2 mt-2">
+            <input
+              type="text"
+              value={contactLabel}
+              onChange={(e) => setContactLabel(e.target.value)}
+              placeholder="Label"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              value={contactTags}
+              onChange={(e) => setContactTags(e.target.value)}
+              placeholder="Tags, comma separated"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              type="button"
+              onClick={saveContact}
+              disabled={!contactLabel.trim()}
+              className="px-3 py-2 rounded-lg bg-emerald-600 text-white text-sm disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setSaving(true)}
+            className="flex items-center gap-1 text-xs text-emerald-700 hover:text-emerald-800 mt-2"
+          >
+            <Save className="w-3 h-3" />
+            Save to address book
+          </button>
+        )
+      )}
+
+      {showContacts && addressBook && (
+        <div className="mt-2 p-3 border border-gray-200 rounded-lg bg-white space-y-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search label, tag or address"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {matchingContacts.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-2">
+                {contacts.length === 0 ? 'No saved contacts yet' : 'No contacts match'}
+              </p>
+            )}
+            {matchingContacts.map((candidate) => (
+              <div key={candidate.address} className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-50">
+                <button
+                  type="button"
+                  onClick={() => {
+                    recipient.setInput(candidate.address);
+                    setShowContacts(false);
+                  }}
+                  className="flex-1 min-w-0 text-left"
+                  disabled={disabled}
+                >
+                  <p className="text-sm font-medium text-gray-800 truncate">{candidate.label}</p>
+                  <p className="text-xs text-gray-500 font-mono">
+                    {candidate.ensName ? `${candidate.ensName} · ` : ''}{formatAddress(candidate.address)}
+                  </p>
+                  {candidate.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {candidate.tags.map(tag => (
+                        <span key={tag} className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full text-xs">{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => addressBook.remove(candidate.address)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${candidate.label}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600 border-t border-gray-100 pt-2">
+            <button type="button" onClick={() => fileInput.current?.click()} className="flex items-center gap-1 hover:text-gray-900">
+              <Upload className="w-3 h-3" />
+              Import
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importContacts(file);
+                e.target.value = '';
+              }}
+            />
+            <div className="flex gap-3">
+              <button type="button" onClick={() => exportContacts('json')} disabled={contacts.length === 0} className="flex items-center gap-1 hover:text-gray-900 disabled:opacity-50">
+                <Download className="w-3 h-3" />
+                JSON
+              </button>
+              <button type="button" onClick={() => exportContacts('csv')} disabled={contacts.length === 0} className="flex items-center gap-1 hover:text-gray-900 disabled:opacity-50">
+                <Download className="w-3 h-3" />
+                CSV
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,59 +1,57 @@
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
-import { Send, CheckCircle, XCircle, Clock, History } from 'lucide-react';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../constants/contract';
+import { Send } from 'lucide-react';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { useRecipient } from '../hooks/useRecipient';
+import { openProviderCache, readThrough } from '../utils/chainCache';
+import { findTokenAddress } from '../utils/networks';
+import { describePreview, preflight } from '../utils/simulation';
+import { decodeTxError } from '../utils/txErrors';
+import { getTransactionManager } from '../utils/txManager';
+import { getTransferHistory } from '../utils/transferHistory';
+import { RecipientPicker } from './RecipientPicker';
+import { TransferHistoryPanel } from './TransferHistoryPanel';
 import toast from 'react-hot-toast';
 
 interface SellTokenFormProps {
   provider: ethers.BrowserProvider | null;
   address: string | null;
   isConnected: boolean;
-}
-
-interface TransferHistory {
-  id: string;
-  to: string;
-  amount: string;
-  timestamp: Date;
-  status: 'pending' | 'success' | 'failed';
-  txHash?: string;
+  chainId: number | null;
 }
 
 export const SellTokenForm: React.FC<SellTokenFormProps> = ({
   provider,
   address,
-  isConnected
+  isConnected,
+  chainId
 }) => {
-  const [recipientAddress, setRecipientAddress] = useState('');
+  const recipient = useRecipient(provider, chainId, address);
   const [amount, setAmount] = useState('');
   const [tokenBalance, setTokenBalance] = useState('0');
   const [loading, setLoading] = useState(false);
-  const [transferHistory, setTransferHistory] = useState<TransferHistory[]>([]);
-  const [showHistory, setShowHistory] = useState(false);
+  const tokenAddress = findTokenAddress(chainId);
 
   useEffect(() => {
-    if (isConnected && address && provider) {
+    if (isConnected && address && provider && tokenAddress) {
       fetchTokenBalance();
     }
-  }, [isConnected, address, provider]);
+  }, [isConnected, address, provider, tokenAddress]);
 
   const fetchTokenBalance = async () => {
-    if (!provider || !address) return;
+    if (!provider || !address || !tokenAddress) return;
 
     try {
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
-      const balance = await contract.balanceOf(address);
-      setTokenBalance(ethers.formatEther(balance));
+      const contract = connectEcoToken(tokenAddress, provider);
+      const cache = await openProviderCache(provider, tokenAddress);
+      await readThrough(cache, provider, `balance:${address.toLowerCase()}`, async () =>
+        ethers.formatEther(await contract.balanceOf(address)), setTokenBalance);
     } catch (error) {
       console.error('Error fetching token balance:', error);
       toast.error('Failed to fetch token balance');
     }
   };
 
-  const validateAddress = (address: string): boolean => {
-    return ethers.isAddress(address);
-  };
-
   const validateAmount = (amount: string): boolean => {
     const numAmount = parseFloat(amount);
     return !isNaN(numAmount) && numAmount > 0 && numAmount <= parseFloat(tokenBalance);
@@ -65,7 +63,13 @@ export const SellTokenForm: React.FC<SellTokenFormProps> = ({
       return;
     }
 
-    if (!validateAddress(recipientAddress)) {
+    if (!tokenAddress) {
+      toast.error('Please switch to a supported network');
+      return;
+    }
+
+    const recipientAddress = recipient.address;
+    if (!recipientAddress) {
       toast.error('Please enter a valid recipient address');
       return;
     }
@@ -77,107 +81,52 @@ export const SellTokenForm: React.FC<SellTokenFormProps> = ({
 
     setLoading(true);
     const transferId = Date.now().toString();
-    
-    // Add to history as pending
-    const newTransfer: TransferHistory = {
-      id: transferId,
-      to: recipientAddress,
-      amount,
-      timestamp: new Date(),
-      status: 'pending'
-    };
-    
-    setTransferHistory(prev => [newTransfer, ...prev]);
 
     try {
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const contract = connectEcoToken(tokenAddress, signer);
       
       const amountWei = ethers.parseEther(amount);
+
+      // The wallet is only asked to sign once the transfer simulates cleanly
+      toast.loading('Simulating transfer...', { id: transferId });
+      const preview = await preflight(provider, contract.transfer, [recipientAddress, amountWei], {
+        from: address,
+        changes: [
+          `Sends ${amount} ECO to ${recipientAddress.slice(0, 6)}...${recipientAddress.slice(-4)}`,
+          `Your balance becomes ${ethers.formatEther(ethers.parseEther(tokenBalance) - amountWei)} ECO`,
+        ],
+      });
+      toast.loading(`${describePreview(preview)} · confirm in your wallet`, { id: transferId });
+
       const tx = await contract.transfer(recipientAddress, amountWei);
-      
-      // Update history with transaction hash
-      setTransferHistory(prev => 
-        prev.map(transfer => 
-          transfer.id === transferId 
-            ? { ...transfer, txHash: tx.hash, status: 'pending' as const }
-            : transfer
-        )
-      );
 
-      toast.success('Transaction submitted! Waiting for confirmation...');
+      toast.success('Transaction submitted! Waiting for confirmation...', { id: transferId });
       
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
+      // Wait for whichever submission of the transfer is mined, including a speed-up from the tray
+      await getTransactionManager(provider, Number(tx.chainId), tx.from)
+        .track(tx, `Send ${amount} ECO to ${recipientAddress.slice(0, 6)}...${recipientAddress.slice(-4)}`, { to: recipientAddress, amount });
       
-      // Update history as successful
-      setTransferHistory(prev => 
-        prev.map(transfer => 
-          transfer.id === transferId 
-            ? { ...transfer, status: 'success' as const }
-            : transfer
-        )
-      );
-
       toast.success('Transfer completed successfully!');
       
       // Reset form
-      setRecipientAddress('');
+      recipient.reset();
       setAmount('');
       
-      // Refresh token balance
+      // Refresh token balance and pick the transfer up in the history
       await fetchTokenBalance();
+      getTransferHistory(provider, Number(tx.chainId), address)?.sync()
+        .catch(error => console.error('Error syncing transfer history:', error));
       
     } catch (error) {
       console.error('Transfer error:', error);
       
-      // Update history as failed
-      setTransferHistory(prev => 
-        prev.map(transfer => 
-          transfer.id === transferId 
-            ? { ...transfer, status: 'failed' as const }
-            : transfer
-        )
-      );
-
-      if (error instanceof Error) {
-        if (error.message.includes('insufficient balance')) {
-          toast.error('Insufficient token balance');
-        } else if (error.message.includes('user rejected')) {
-          toast.error('Transaction was cancelled');
-        } else {
-          toast.error('Transfer failed. Please try again.');
-        }
-      } else {
-        toast.error('Transfer failed. Please try again.');
-      }
+      toast.error(decodeTxError(error, { fallback: 'Transfer failed. Please try again.' }).message, { id: transferId });
     } finally {
       setLoading(false);
     }
   };
 
-  const getStatusIcon = (status: TransferHistory['status']) => {
-    switch (status) {
-      case 'pending':
-        return <Clock className="w-4 h-4 text-yellow-500" />;
-      case 'success':
-        return <CheckCircle className="w-4 h-4 text-green-500" />;
-      case 'failed':
-        return <XCircle className="w-4 h-4 text-red-500" />;
-    }
-  };
-
-  const getStatusText = (status: TransferHistory['status']) => {
-    switch (status) {
-      case 'pending':
-        return 'Pending';
-      case 'success':
-        return 'Success';
-      case 'failed':
-        return 'Failed';
-    }
-  };
-
   if (!isConnected) {
     return (
       <div className="bg-gradient-to-br from-[#87f5f5] via-[#ffe5f1] to-[#f042ff] rounded-lg p-4">
@@ -217,21 +166,7 @@ export const SellTokenForm: React.FC<SellTokenFormProps> = ({
       {/* Transfer Form */}
       <div className="bg-gradient-to-br from-[#87f5f5] via-[#ffe5f1] to-[#f042ff] rounded-lg p-4 mb-6">
         <div>
-          <label htmlFor="recipient" className="block text-sm font-medium text-gray-700 mb-2">
-            Recipient Address
-          </label>
-          <input
-            type="text"
-            id="recipient"
-            value={recipientAddress}
-            onChange={(e) => setRecipientAddress(e.target.value)}
-            placeholder="0x..."
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors"
-            disabled={loading}
-          />
-          {recipientAddress && !validateAddress(recipientAddress) && (
-            <p className="text-red-500 text-sm mt-1">Invalid address format</p>
-          )}
+          <RecipientPicker recipient={recipient} disabled={loading} />
         </div>
 
         <div>
@@ -259,7 +194,7 @@ export const SellTokenForm: React.FC<SellTokenFormProps> = ({
 
         <button
           onClick={handleTransfer}
-          disabled={loading || !recipientAddress || !amount || !validateAddress(recipientAddress) || !validateAmount(amount)}
+          disabled={loading || !recipient.address || !amount || !validateAmount(amount)}
           className="w-full bg-gradient-to-r from-emerald-500 to-emerald-600 text-white font-semibold py-3 px-6 rounded-lg shadow-lg hover:from-emerald-600 hover:to-emerald-700 transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {loading ? (
@@ -277,57 +212,7 @@ export const SellTokenForm: React.FC<SellTokenFormProps> = ({
       </div>
 
       {/* Transfer History */}
-      {transferHistory.length > 0 && (
-        <div className="border-t border-gray-200 pt-6">
-          <div className="flex items-center justify-between mb-4">
-            <h4 className="text-lg font-semibold text-black">Transfer History</h4>
-            <button
-              onClick={() => setShowHistory(!showHistory)}
-              className="flex items-center gap-2 text-sm text-emerald-600 hover:text-emerald-700"
-            >
-              <History className="w-4 h-4" />
-              {showHistory ? 'Hide' : 'Show'} History
-            </button>
-          </div>
-
-          {showHistory && (
-            <div className="space-y-3 max-h-64 overflow-y-auto">
-              {transferHistory.map((transfer) => (
-                <div
-                  key={transfer.id}
-                  className="bg-gray-50 rounded-lg p-4 border border-gray-200"
-                >
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                      {getStatusIcon(transfer.status)}
-                      <span className={`text-sm font-medium ${
-                        transfer.status === 'success' ? 'text-green-700' :
-                        transfer.status === 'failed' ? 'text-red-700' :
-                        'text-yellow-700'
-                      }`}>
-                        {getStatusText(transfer.status)}
-                      </span>
-                    </div>
-                    <span className="text-xs text-gray-500">
-                      {transfer.timestamp.toLocaleTimeString()}
-                    </span>
-                  </div>
-                  
-                  <div className="text-sm text-gray-700">
-                    <p><span className="font-medium">To:</span> {transfer.to}</p>
-                    <p><span className="font-medium">Amount:</span> {transfer.amount} ECO</p>
-                    {transfer.txHash && (
-                      <p className="text-xs text-gray-500 mt-1">
-                        <span className="font-medium">Tx:</span> {transfer.txHash.slice(0, 10)}...{transfer.txHash.slice(-8)}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-      )}
+      <TransferHistoryPanel provider={provider} chainId={chainId} address={address} />
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Activity, CheckCircle, XCircle, Loader2, ExternalLink, Zap, Ban, X } from 'lucide-react';
+import { TrackedTransaction, TrackedTxStatus } from '../types';
+import { explorerLink } from '../utils/networks';
+
+interface TransactionTrayProps {
+  chainId: number;
+  transactions: TrackedTransaction[];
+  pendingCount: number;
+  onSpeedUp: (id: string) => Promise<void>;
+  onCancel: (id: string) => Promise<void>;
+  onDismiss: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<TrackedTxStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  reverted: 'Reverted',
+  replaced: 'Replaced',
+  cancelled: 'Cancelled',
+  dropped: 'Dropped',
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const StatusIcon: React.FC<{ status: TrackedTxStatus }> = ({ status }) => {
+  if (status === 'pending') return <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />;
+  if (status === 'confirmed') return <CheckCircle className="w-4 h-4 text-green-600" />;
+  return <XCircle className="w-4 h-4 text-red-600" />;
+};
+
+export const TransactionTray: React.FC<TransactionTrayProps> = ({
+  chainId,
+  transactions,
+  pendingCount,
+  onSpeedUp,
+  onCancel,
+  onDismiss,
+  onClearFinished,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Ids with a speed-up or cancel on its way to the wallet
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+
+  const runAction = async (id: string, action: (id: string) => Promise<void>) => {
+    setBusyIds(prev => new Set(prev).add(id));
+    try {
+      await action(id);
+    } finally {
+      setBusyIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 h-12 px-4 rounded-full bg-white border-2 border-gray-200 shadow-2xl text-gray-700 font-semibold"
+        aria-label="Transactions"
+      >
+        {pendingCount > 0 ? <Loader2 className="w-5 h-5 animate-spin text-blue-600" /> : <Activity className="w-5 h-5" />}
+        {pendingCount > 0 ? `${pendingCount} pending` : 'Transactions'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto bg-white rounded-2xl shadow-2xl border border-gray-100 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-gray-800">Transactions</h3>
+            {transactions.length > pendingCount && (
+              <button onClick={onClearFinished} className="text-xs text-gray-500 hover:text-gray-800">
+                Clear finished
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {transactions.map((tx) => {
+              const txUrl = explorerLink(chainId, 'tx', tx.hash);
+              const busy = busyIds.has(tx.id);
+              return (
+                <div key={tx.id} className="p-3 border border-gray-200 rounded-lg text-sm">
+                  <div className="flex items-start gap-2">
+                    <StatusIcon status={tx.status} />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-800 truncate">{tx.purpose}</p>
+                      <p className="text-xs text-gray-500">
+                        {STATUS_LABELS[tx.status]} · nonce {tx.nonce} · {new Date(tx.submittedAt).toLocaleTimeString()}
+                        {tx.hashes.length > 1 && ` · ${tx.hashes.length - 1} replacement${tx.hashes.length > 2 ? 's' : ''}`}
+                      </p>
+                      {tx.error && <p className="text-xs text-red-600 mt-1">{tx.error}</p>}
+                      {txUrl ? (
+                        <a
+                          href={txUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 font-mono text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {formatAddress(tx.hash)}
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      ) : (
+                        <p className="font-mono text-xs text-gray-500">{formatAddress(tx.hash)}</p>
+                      )}
+                    </div>
+                    {tx.status !== 'pending' && (
+                      <button onClick={() => onDismiss(tx.id)} className="text-gray-400 hover:text-gray-700" aria-label="Dismiss">
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+
+                  {tx.status === 'pending' && (
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => runAction(tx.id, onSpeedUp)}
+                        disabled={busy}
+                        className="flex items-center gap-1 px-3 py-1 rounded-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-xs font-semibold"
+                      >
+                        <Zap className="w-3 h-3" />
+                        Speed up
+                      </button>
+                      {!tx.cancelHash && (
+                        <button
+                          onClick={() => runAction(tx.id, onCancel)}
+                          disabled={busy}
+                          className="flex items-center gap-1 px-3 py-1 rounded-full border border-red-300 text-red-600 hover:bg-red-50 disabled:opacity-50 text-xs font-semibold"
+                        >
+                          <Ban className="w-3 h-3" />
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
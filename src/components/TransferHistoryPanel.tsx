@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { ArrowDownLeft, ArrowUpRight, Repeat, Download, RefreshCw, History, ExternalLink } from 'lucide-react';
+import { useTransferHistory } from '../hooks/useTransferHistory';
+import { TransferDirection, TransferRecord } from '../types';
+import { explorerLink } from '../utils/networks';
+
+interface TransferHistoryPanelProps {
+  provider: ethers.BrowserProvider | null;
+  chainId: number | null;
+  address: string | null;
+}
+
+const DAY_SECONDS = 86_400;
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// <input type="date"> value -> local midnight in unix seconds
+const dayStart = (value: string) => (value ? Math.floor(new Date(`${value}T00:00`).getTime() / 1000) : undefined);
+
+const DirectionIcon: React.FC<{ direction: TransferDirection }> = ({ direction }) => {
+  if (direction === 'in') return <ArrowDownLeft className="w-4 h-4 text-green-600" />;
+  if (direction === 'out') return <ArrowUpRight className="w-4 h-4 text-red-600" />;
+  return <Repeat className="w-4 h-4 text-gray-500" />;
+};
+
+const counterpartyLabel = ({ direction, counterparty }: TransferRecord) => {
+  if (counterparty === ethers.ZeroAddress) return direction === 'in' ? 'Minted' : 'Burned';
+  if (direction === 'self') return 'To yourself';
+  return `${direction === 'in' ? 'From' : 'To'} ${formatAddress(counterparty)}`;
+};
+
+export const TransferHistoryPanel: React.FC<TransferHistoryPanelProps> = ({ provider, chainId, address }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const [sinceDay, setSinceDay] = useState('');
+  const [untilDay, setUntilDay] = useState('');
+  const { transfers, total, page, pageCount, filter, setFilter, setPage, syncing, refresh, exportCsv } =
+    useTransferHistory(provider, chainId, address);
+
+  const setDateRange = (since: string, until: string) => {
+    setSinceDay(since);
+    setUntilDay(until);
+    const untilStart = dayStart(until);
+    // The end date is inclusive
+    setFilter({ ...filter, since: dayStart(since), until: untilStart === undefined ? undefined : untilStart + DAY_SECONDS });
+  };
+
+  if (!address) return null;
+
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-lg font-semibold text-gray-900">Transfer History</h4>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="flex items-center gap-2 text-sm text-emerald-600 hover:text-emerald-700"
+        >
+          <History className="w-4 h-4" />
+          {showHistory ? 'Hide' : 'Show'} History
+        </button>
+      </div>
+
+      {showHistory && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <input
+              type="text"
+              value={filter.counterparty ?? ''}
+              onChange={(e) => setFilter({ ...filter, counterparty: e.target.value || undefined })}
+              placeholder="Filter by address"
+              className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg font-mono"
+            />
+            <select
+              value={filter.direction ?? ''}
+              onChange={(e) => setFilter({ ...filter, direction: (e.target.value || undefined) as TransferDirection | undefined })}
+              className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">Incoming and outgoing</option>
+              <option value="in">Incoming</option>
+              <option value="out">Outgoing</option>
+              <option value="self">To yourself</option>
+            </select>
+            <label className="flex flex-col text-xs text-gray-600">
+              From
+              <input
+                type="date"
+                value={sinceDay}
+                onChange={(e) => setDateRange(e.target.value, untilDay)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            <label className="flex flex-col text-xs text-gray-600">
+              To
+              <input
+                type="date"
+                value={untilDay}
+                onChange={(e) => setDateRange(sinceDay, e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>{total} transfer{total === 1 ? '' : 's'}</span>
+            <div className="flex gap-3">
+              <button onClick={refresh} disabled={syncing} className="flex items-center gap-1 hover:text-gray-900 disabled:opacity-50">
+                <RefreshCw className={`w-3 h-3 ${syncing ? 'animate-spin' : ''}`} />
+                {syncing ? 'Syncing...' : 'Refresh'}
+              </button>
+              <button onClick={exportCsv} disabled={total === 0} className="flex items-center gap-1 hover:text-gray-900 disabled:opacity-50">
+                <Download className="w-3 h-3" />
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-3 max-h-64 overflow-y-auto">
+            {transfers.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">
+                {syncing ? 'Loading transfers...' : 'No transfers found'}
+              </p>
+            )}
+            {transfers.map((transfer) => {
+              const txUrl = explorerLink(chainId, 'tx', transfer.txHash);
+              return (
+                <div key={transfer.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                      <DirectionIcon direction={transfer.direction} />
+                      <span className="text-sm font-medium text-gray-800">{counterpartyLabel(transfer)}</span>
+                      {transfer.gasless && (
+                        <span className="bg-green-100 text-green-700 px-2 py-1 rounded-full text-xs">
+                          Gasless
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {transfer.timestamp !== undefined
+                        ? new Date(transfer.timestamp * 1000).toLocaleString()
+                        : `Block ${transfer.blockNumber}`}
+                    </span>
+                  </div>
+
+                  <div className="flex items-center justify-between text-sm text-gray-700">
+                    <span className={transfer.direction === 'in' ? 'text-green-700' : transfer.direction === 'out' ? 'text-red-700' : ''}>
+                      {transfer.direction === 'in' ? '+' : transfer.direction === 'out' ? '-' : ''}
+                      {ethers.formatEther(transfer.value)} ECO
+                    </span>
+                    {txUrl ? (
+                      <a
+                        href={txUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 font-mono text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        {transfer.txHash.slice(0, 10)}...{transfer.txHash.slice(-8)}
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    ) : (
+                      <span className="font-mono text-xs text-gray-500">
+                        {transfer.txHash.slice(0, 10)}...{transfer.txHash.slice(-8)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="px-3 py-1 rounded-lg border border-gray-300 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-gray-600">Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount - 1}
+                className="px-3 py-1 rounded-lg border border-gray-300 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
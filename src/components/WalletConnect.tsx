@@ -1,35 +1,59 @@
 import React, { useState } from 'react';
-import { Wallet, LogOut, ArrowRightCircle, X, Loader2, QrCode } from 'lucide-react';
+import { Wallet, LogOut, ArrowRightCircle, X, Loader2, QrCode, ShieldCheck } from 'lucide-react';
 import { ethers } from 'ethers';
 import { QRCodeCanvas } from 'qrcode.react';
+import { EcoToken } from '../contracts/EcoToken';
+import { useRecipient } from '../hooks/useRecipient';
+import { AuthSession, WalletOption } from '../types';
+import { decodeTxError } from '../utils/txErrors';
+import { getTransactionManager } from '../utils/txManager';
+import { RecipientPicker } from './RecipientPicker';
 
 interface WalletConnectProps {
   isConnected: boolean;
   isConnecting: boolean;
   address: string | null;
+  chainId?: number | null;
   balance: string;
   tokenBalance: string;
-  onConnect: () => void;
+  wallets: WalletOption[];
+  activeWallet?: WalletOption | null;
+  pairingUri?: string | null;
+  onConnect: (walletId: string) => void;
+  onCancelPairing?: () => void;
   onDisconnect: () => void;
   provider?: ethers.BrowserProvider | null; // Add provider prop
-  contract?: ethers.Contract | null; // Add contract prop (ERC20)
+  contract?: EcoToken | null; // Add contract prop (ERC20)
   onRefreshBalance?: () => void; // Optional callback to refresh balance
+  authSession?: AuthSession | null;
+  isSigningIn?: boolean;
+  onSignIn?: () => void;
+  onSignOut?: () => void;
 }
 
 export const WalletConnect: React.FC<WalletConnectProps> = ({
   isConnected,
   isConnecting,
   address,
+  chainId,
   balance,
   tokenBalance,
+  wallets,
+  activeWallet,
+  pairingUri,
   onConnect,
+  onCancelPairing,
   onDisconnect,
   provider,
   contract,
   onRefreshBalance,
+  authSession,
+  isSigningIn,
+  onSignIn,
+  onSignOut,
 }) => {
   const [showModal, setShowModal] = useState(false);
-  const [recipient, setRecipient] = useState('');
+  const recipient = useRecipient(provider, chainId, address);
   const [amount, setAmount] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [txStatus, setTxStatus] = useState<'idle' | 'pending' | 'success' | 'error'>('idle');
@@ -42,8 +66,16 @@ export const WalletConnect: React.FC<WalletConnectProps> = ({
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   };
 
+  const signedInRoles = authSession
+    ? [
+        authSession.roles.isAdmin && 'Admin',
+        authSession.roles.isManufacturer && 'Manufacturer',
+        authSession.roles.isAuditor && 'Auditor',
+      ].filter(Boolean).join(', ')
+    : '';
+
   const resetModal = () => {
-    setRecipient('');
+    recipient.reset();
     setAmount('');
     setTxStatus('idle');
     setTxError('');
@@ -56,8 +88,9 @@ export const WalletConnect: React.FC<WalletConnectProps> = ({
       setTxError('Wallet not connected.');
       return;
     }
-    if (!ethers.isAddress(recipient)) {
-      setTxError('Invalid recipient address.');
+    const to = recipient.address;
+    if (!to) {
+      setTxError(recipient.error || 'Invalid recipient address.');
       return;
     }
     if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
@@ -77,9 +110,8 @@ export const WalletConnect: React.FC<WalletConnectProps> = ({
         }
         const decimals = 18;
         const amountInWei = ethers.parseUnits(amount, decimals);
-        // @ts-ignore: dynamic contract method
-        const tx = await contract.connect(signer)['transfer'](recipient, amountInWei);
-        await tx.wait();
+        const tx = await contract.connect(signer).transfer(to, amountInWei);
+        await getTransactionManager(provider, Number(tx.chainId), tx.from).track(tx, `Send ${amount} ECO`, { to, amount });
         setTxStatus('success');
         resetModal();
         setShowModal(false);
@@ -88,33 +120,81 @@ export const WalletConnect: React.FC<WalletConnectProps> = ({
         }
       } else if (sendType === 'eth') {
         const tx = await signer.sendTransaction({
-          to: recipient,
+          to,
           value: ethers.parseEther(amount)
         });
-        await tx.wait();
+        await getTransactionManager(provider, Number(tx.chainId), tx.from).track(tx, `Send ${amount} ETH`, { to, amount });
         setTxStatus('success');
         resetModal();
         setShowModal(false);
       }
-    } catch (err: any) {
+    } catch (err) {
       setTxStatus('error');
-      setTxError(err.message || 'Transaction failed');
+      setTxError(decodeTxError(err, { fallback: 'Transaction failed' }).message);
     } finally {
       setIsSending(false);
     }
   };
 
   if (!isConnected) {
+    if (pairingUri) {
+      return (
+        <div className="flex flex-col items-center gap-4 mb-8 rounded-2xl bg-white/90 p-6 shadow-lg text-center">
+          <h3 className="text-xl font-bold text-gray-800">Scan with your mobile wallet</h3>
+          <QRCodeCanvas
+            value={pairingUri}
+            size={220}
+            bgColor="#fff"
+            fgColor="#2563eb"
+            className="rounded-lg border border-blue-200 shadow-md"
+          />
+          {/* On a phone the wc: link opens the installed wallet app directly */}
+          <a href={pairingUri} className="text-sm font-semibold text-blue-600 hover:text-blue-700">
+            Open in wallet app
+          </a>
+          <button
+            onClick={onCancelPairing}
+            className="flex items-center gap-2 text-gray-600 hover:text-red-600 px-4 py-2 rounded-lg hover:bg-red-50 transition-colors duration-200"
+          >
+            <X size={18} />
+            Cancel
+          </button>
+        </div>
+      );
+    }
+
+    if (wallets.length === 0) {
+      return (
+        <div className="flex flex-col items-center gap-2 mb-8 text-center">
+          <div className="flex items-center gap-3 bg-white/80 text-gray-700 px-8 py-4 rounded-xl font-semibold shadow-lg">
+            <Wallet size={24} />
+            No browser wallet detected
+          </div>
+          <span className="text-sm text-gray-600">Install a wallet extension such as MetaMask, Rabby or Coinbase Wallet, then reload.</span>
+        </div>
+      );
+    }
+
+    // One button per connector: each EIP-6963 wallet, WalletConnect and the mock wallet when configured
     return (
-      <div className="flex justify-center mb-8">
-        <button
-          onClick={onConnect}
-          disabled={isConnecting}
-          className="flex items-center gap-3 bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white px-8 py-4 rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none dark:bg-yellow-400 dark:text-black dark:border-2 dark:border-yellow-400 dark:shadow-yellow-400/40 dark:hover:bg-yellow-300 dark:hover:text-black"
-        >
-          <Wallet size={24} />
-          {isConnecting ? 'Connecting...' : 'Connect MetaMask'}
-        </button>
+      <div className="flex flex-wrap justify-center gap-4 mb-8">
+        {wallets.map(info => (
+          <button
+            key={info.id}
+            onClick={() => onConnect(info.id)}
+            disabled={isConnecting}
+            className="flex items-center gap-3 bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white px-8 py-4 rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none dark:bg-yellow-400 dark:text-black dark:border-2 dark:border-yellow-400 dark:shadow-yellow-400/40 dark:hover:bg-yellow-300 dark:hover:text-black"
+          >
+            {info.icon ? (
+              <img src={info.icon} alt="" className="w-6 h-6 rounded" />
+            ) : info.kind === 'walletConnect' ? (
+              <QrCode size={24} />
+            ) : (
+              <Wallet size={24} />
+            )}
+            {isConnecting ? 'Connecting...' : `Connect ${info.name}`}
+          </button>
+        ))}
       </div>
     );
   }
@@ -122,7 +202,10 @@ export const WalletConnect: React.FC<WalletConnectProps> = ({
   return (
     <div className="rounded-2xl shadow-lg p-6 mb-8 border border-yellow-400 bg-gradient-to-br from-[#F3F4F5] to-[#FF9408] text-black">
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-2xl font-bold text-gray-800">Wallet Connected</h2>
+        <h2 className="flex items-center gap-2 text-2xl font-bold text-gray-800">
+          {activeWallet?.icon && <img src={activeWallet.icon} alt="" className="w-7 h-7 rounded" />}
+          {activeWallet ? `${activeWallet.name} Connected` : 'Wallet Connected'}
+        </h2>
         <button onClick={onDisconnect} className="flex items-center gap-2 text-red-600 hover:text-red-700 px-4 py-2 rounded-lg hover:bg-red-50 transition-colors duration-200 focus:ring-2 focus:ring-red-300 focus:outline-none shadow-md">
           <LogOut size={18} />
           Disconnect
@@ -148,6 +231,37 @@ export const WalletConnect: React.FC<WalletConnectProps> = ({
           </div>
         </div>
       </div>
+      {/* Sign-In with Ethereum, for the relayer and report endpoints */}
+      {onSignIn && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl bg-white/70 border border-gray-200 px-4 py-3 mb-6">
+          {authSession ? (
+            <>
+              <span className="flex items-center gap-2 text-sm text-gray-700">
+                <ShieldCheck className="w-5 h-5 text-emerald-600" />
+                Signed in with Ethereum{signedInRoles && ` as ${signedInRoles}`} until {new Date(authSession.expiresAt * 1000).toLocaleString()}
+              </span>
+              <button
+                onClick={onSignOut}
+                className="text-sm font-semibold text-gray-600 hover:text-red-600 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors duration-200"
+              >
+                Sign out
+              </button>
+            </>
+          ) : (
+            <>
+              <span className="text-sm text-gray-700">Sign in to use the gasless relayer and compliance reports.</span>
+              <button
+                onClick={onSignIn}
+                disabled={isSigningIn}
+                className="flex items-center gap-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 px-4 py-2 rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSigningIn ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                {isSigningIn ? 'Waiting for signature...' : 'Sign in with Ethereum'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
       {/* Animated Make Transaction Button */}
       <div className="flex flex-col items-center mt-2">
         <button
@@ -211,18 +325,7 @@ export const WalletConnect: React.FC<WalletConnectProps> = ({
                   <div className="text-center text-xs text-gray-500 mb-2">
                     {sendType === 'eco' ? `Your ECO Balance: ${parseFloat(tokenBalance).toFixed(2)} ECO` : `Your ETH Balance: ${parseFloat(balance).toFixed(4)} ETH`}
                   </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Recipient Address</label>
-                    <input
-                      type="text"
-                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-colors duration-200"
-                      value={recipient}
-                      onChange={e => setRecipient(e.target.value)}
-                      placeholder="0x..."
-                      disabled={isSending}
-                      required
-                    />
-                  </div>
+                  <RecipientPicker id="send-recipient" recipient={recipient} disabled={isSending} />
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Amount {sendType === 'eco' ? '(ECO)' : '(ETH)'}</label>
                     <input
@@ -0,0 +1,5 @@
+// Sign-In with Ethereum endpoints (src/api/auth.ts). The dApp signs in against its own origin by default.
+export const AUTH_API_URL = import.meta.env.VITE_AUTH_API_URL || "/api/auth";
+export const SIWE_STATEMENT = "Sign in to Carbon-Wise to use the relayer and compliance reports.";
+// How long the signed message itself stays valid; the session lifetime is decided by the server
+export const SIWE_MESSAGE_TTL_MS = 10 * 60 * 1000;
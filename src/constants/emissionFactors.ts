@@ -0,0 +1,45 @@
+// Emission factors used by the reduction calculator, in kgCO2e per activity unit.
+// Values are rounded averages from the published sources; bump the version whenever a value changes
+// so stored calculations can tell which table they were made with.
+
+export const EMISSION_FACTOR_TABLE_VERSION = "2024.1";
+
+export interface EmissionFactor {
+  label: string;
+  unit: string; // activity unit the factor applies to
+  kgCO2ePerUnit: number;
+  source: string;
+}
+
+// Location-based grid electricity, per kWh consumed
+export const GRID_ELECTRICITY_FACTORS: Record<string, EmissionFactor> = {
+  "grid-us": { label: "United States (national average)", unit: "kWh", kgCO2ePerUnit: 0.371, source: "EPA eGRID 2022" },
+  "grid-eu27": { label: "European Union (EU-27)", unit: "kWh", kgCO2ePerUnit: 0.251, source: "EEA 2023" },
+  "grid-de": { label: "Germany", unit: "kWh", kgCO2ePerUnit: 0.380, source: "UBA 2023" },
+  "grid-fr": { label: "France", unit: "kWh", kgCO2ePerUnit: 0.056, source: "ADEME Base Carbone 2023" },
+  "grid-uk": { label: "United Kingdom", unit: "kWh", kgCO2ePerUnit: 0.207, source: "DESNZ 2024" },
+  "grid-in": { label: "India", unit: "kWh", kgCO2ePerUnit: 0.716, source: "CEA CO2 Baseline Database v19" },
+  "grid-cn": { label: "China", unit: "kWh", kgCO2ePerUnit: 0.570, source: "MEE 2022" },
+  "grid-jp": { label: "Japan", unit: "kWh", kgCO2ePerUnit: 0.457, source: "MOE 2022" },
+  "grid-au": { label: "Australia", unit: "kWh", kgCO2ePerUnit: 0.680, source: "NGA Factors 2023" },
+  "grid-br": { label: "Brazil", unit: "kWh", kgCO2ePerUnit: 0.039, source: "MCTI 2023" },
+};
+
+// Stationary and mobile combustion, per unit of fuel burned
+export const FUEL_FACTORS: Record<string, EmissionFactor> = {
+  "fuel-diesel": { label: "Diesel", unit: "L", kgCO2ePerUnit: 2.66, source: "DESNZ 2024" },
+  "fuel-petrol": { label: "Petrol", unit: "L", kgCO2ePerUnit: 2.35, source: "DESNZ 2024" },
+  "fuel-lpg": { label: "LPG", unit: "L", kgCO2ePerUnit: 1.56, source: "DESNZ 2024" },
+  "fuel-heating-oil": { label: "Heating oil", unit: "L", kgCO2ePerUnit: 2.54, source: "DESNZ 2024" },
+  "fuel-natural-gas": { label: "Natural gas", unit: "m3", kgCO2ePerUnit: 2.04, source: "DESNZ 2024" },
+  "fuel-coal": { label: "Coal (industrial)", unit: "kg", kgCO2ePerUnit: 2.40, source: "DESNZ 2024" },
+};
+
+// Freight transport, per tonne-kilometre
+export const FREIGHT_FACTORS: Record<string, EmissionFactor> = {
+  "freight-road": { label: "Road (HGV, average laden)", unit: "tkm", kgCO2ePerUnit: 0.107, source: "DESNZ 2024" },
+  "freight-rail": { label: "Rail", unit: "tkm", kgCO2ePerUnit: 0.028, source: "DESNZ 2024" },
+  "freight-sea": { label: "Sea (container ship)", unit: "tkm", kgCO2ePerUnit: 0.016, source: "DESNZ 2024" },
+  "freight-inland-waterway": { label: "Inland waterway", unit: "tkm", kgCO2ePerUnit: 0.031, source: "GLEC Framework v3" },
+  "freight-air": { label: "Air (long haul)", unit: "tkm", kgCO2ePerUnit: 1.130, source: "DESNZ 2024" },
+};
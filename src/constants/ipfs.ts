@@ -0,0 +1,8 @@
+// IPFS endpoints used for eco-action evidence. The API defaults to a local Kubo node
+// (or the in-memory stand-in in src/api/ipfs-standin.ts) on the standard RPC port.
+export const IPFS_API_URL = import.meta.env.VITE_IPFS_API_URL || "http://127.0.0.1:5001";
+export const IPFS_API_TOKEN = import.meta.env.VITE_IPFS_API_TOKEN || "";
+export const IPFS_GATEWAY_URL = import.meta.env.VITE_IPFS_GATEWAY_URL || "https://ipfs.io";
+
+export const EVIDENCE_ACCEPT = ".pdf,.csv,image/*";
+export const EVIDENCE_MAX_FILE_SIZE = 20 * 1024 * 1024; // 20 MB per file
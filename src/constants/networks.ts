@@ -0,0 +1,113 @@
+// Registry of every network the dApp and the relayer can run against. Addresses and RPC URLs can be
+// overridden per deployment through env vars (VITE_* in the browser, plain names on the relayer), so
+// the same build serves a local devnet, Sepolia and a production L2.
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  // WebSocket endpoint for live contract events; without one they are polled over the RPC
+  wsUrl: string | null;
+  explorerUrl: string | null;
+  contracts: {
+    ecoToken: string;
+    ecoMetaTransfer: string;
+  };
+  // Block the token contract was deployed in; event scans start here. When null it is looked up on-chain.
+  deploymentBlock: number | null;
+  // EIP-712 domain of EcoMetaTransfer; chainId and verifyingContract come from this entry
+  eip712: { name: string; version: string };
+  testnet: boolean;
+}
+
+// Reads a setting from Vite's import.meta.env in the browser, or process.env on the relayer
+const env = (key: string): string | undefined => {
+  const viteValue = (import.meta as { env?: Record<string, string | undefined> }).env?.[`VITE_${key}`];
+  if (viteValue) return viteValue;
+  return typeof process !== 'undefined' ? process.env?.[key] : undefined;
+};
+
+const rpcUrls = (override: string | undefined, defaults: string[]) =>
+  override ? [override, ...defaults] : defaults;
+
+const blockNumber = (value: string | undefined) => (value ? Number(value) : null);
+
+export const LOCAL_CHAIN_ID = 31337;
+export const SEPOLIA_CHAIN_ID = 11155111;
+export const BASE_CHAIN_ID = 8453;
+
+const META_TRANSFER_EIP712 = { name: "EcoMetaTransfer", version: "1" };
+
+export const NETWORKS: Record<number, NetworkConfig> = {
+  [LOCAL_CHAIN_ID]: {
+    chainId: LOCAL_CHAIN_ID,
+    name: "Local Devnet",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: rpcUrls(env("LOCAL_RPC_URL"), ["http://127.0.0.1:8545"]),
+    wsUrl: env("LOCAL_WS_URL") ?? null,
+    explorerUrl: null,
+    contracts: {
+      ecoToken: env("LOCAL_ECO_TOKEN_ADDRESS") ?? "",
+      ecoMetaTransfer: env("LOCAL_ECO_META_TRANSFER_ADDRESS") ?? "",
+    },
+    deploymentBlock: blockNumber(env("LOCAL_DEPLOYMENT_BLOCK")),
+    eip712: META_TRANSFER_EIP712,
+    testnet: true,
+  },
+  [SEPOLIA_CHAIN_ID]: {
+    chainId: SEPOLIA_CHAIN_ID,
+    name: "Sepolia",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: rpcUrls(env("SEPOLIA_RPC_URL"), [
+      "https://ethereum-sepolia-rpc.publicnode.com",
+      "https://rpc.sepolia.org",
+    ]),
+    wsUrl: env("SEPOLIA_WS_URL") ?? null,
+    explorerUrl: "https://sepolia.etherscan.io",
+    contracts: {
+      ecoToken: env("SEPOLIA_ECO_TOKEN_ADDRESS") ?? "0x6dbB1F7De2514efb1104F18E251F4BEe507dFC05",
+      ecoMetaTransfer: env("SEPOLIA_ECO_META_TRANSFER_ADDRESS") ?? "0xB4E765140cefB7E14B97899Ab573C1e27b5E12b6",
+    },
+    deploymentBlock: blockNumber(env("SEPOLIA_DEPLOYMENT_BLOCK")),
+    eip712: META_TRANSFER_EIP712,
+    testnet: true,
+  },
+  [BASE_CHAIN_ID]: {
+    chainId: BASE_CHAIN_ID,
+    name: "Base",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: rpcUrls(env("BASE_RPC_URL"), ["https://mainnet.base.org"]),
+    wsUrl: env("BASE_WS_URL") ?? null,
+    explorerUrl: "https://basescan.org",
+    contracts: {
+      ecoToken: env("BASE_ECO_TOKEN_ADDRESS") ?? "",
+      ecoMetaTransfer: env("BASE_ECO_META_TRANSFER_ADDRESS") ?? "",
+    },
+    deploymentBlock: blockNumber(env("BASE_DEPLOYMENT_BLOCK")),
+    eip712: META_TRANSFER_EIP712,
+    testnet: false,
+  },
+};
+
+export const DEFAULT_CHAIN_ID = Number(env("DEFAULT_CHAIN_ID") ?? SEPOLIA_CHAIN_ID);
+
+// Where ENS names are resolved, independent of the chain the dApp runs on. Without an RPC URL the
+// wallet's provider is asked, which only works on chains with an ENS deployment ethers knows about.
+export const ENS_RESOLVER = {
+  rpcUrl: env("ENS_RPC_URL") ?? null,
+  chainId: Number(env("ENS_CHAIN_ID") ?? 1),
+  // Registry of a custom ENS deployment, e.g. on a devnet; ethers' built-in address otherwise
+  registry: env("ENS_REGISTRY_ADDRESS") ?? null,
+};
+
+// EIP-712 types signed for a gasless transfer, identical on every chain
+export const TRANSFER_TYPES = {
+  Transfer: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
@@ -0,0 +1,16 @@
+// Role names shown in the AdminPanel. The label file is a JSON object whose keys are role constant names
+// (e.g. "MINTER_ROLE") or role hashes and whose values are the names to show; it overrides the built-in ones.
+// Also imported by the API endpoints, so import.meta.env may be missing here.
+export const ROLE_LABELS_URL =
+  (import.meta as { env?: Record<string, string | undefined> }).env?.VITE_ROLE_LABELS_URL || "";
+
+// Tried against roles the ABI has no getter for, which are only known from RoleAdminChanged events
+export const COMMON_ROLE_NAMES = [
+  "MINTER_ROLE",
+  "BURNER_ROLE",
+  "PAUSER_ROLE",
+  "UPGRADER_ROLE",
+  "OPERATOR_ROLE",
+  "RELAYER_ROLE",
+  "VERIFIER_ROLE",
+];
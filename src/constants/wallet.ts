@@ -0,0 +1,13 @@
+// Wallet connectors offered at sign-in. WalletConnect (QR pairing for mobile wallets) is only offered once
+// a WalletConnect Cloud project id is set; the mock connector signs in as fixed accounts for tests and demos.
+export const WALLETCONNECT_PROJECT_ID = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || "";
+export const MOCK_WALLET_ACCOUNTS: string[] = (import.meta.env.VITE_MOCK_WALLET_ACCOUNTS || "")
+  .split(",")
+  .map((account: string) => account.trim())
+  .filter(Boolean);
+
+export const DAPP_METADATA = {
+  name: "Carbon-Wise dApp",
+  description: "Track, verify, and earn for your carbon reduction efforts.",
+  icons: [] as string[],
+};
@@ -0,0 +1,39 @@
+// Generated by scripts/generate-bindings.mjs from src/abi/EcoMetaTransfer.json. Do not edit;
+// run `npm run codegen` after changing an ABI.
+
+import { ethers } from 'ethers';
+import abi from '../abi/EcoMetaTransfer.json';
+import { TypedContractMethod } from './common';
+
+export const ecoMetaTransferAbi = abi;
+export const ecoMetaTransferInterface = new ethers.Interface(abi);
+
+export interface EcoMetaTransfer extends ethers.BaseContract {
+  connect(runner: ethers.ContractRunner | null): EcoMetaTransfer;
+  'transferWithSig(address,address,uint256,uint256,uint256,bytes)': TypedContractMethod<[from: ethers.AddressLike, to: ethers.AddressLike, amount: ethers.BigNumberish, nonce: ethers.BigNumberish, deadline: ethers.BigNumberish, signature: ethers.BytesLike], void, 'nonpayable'>;
+  nonces: TypedContractMethod<[owner: ethers.AddressLike], bigint, 'view'>;
+  'transferWithSig(address,address,address,uint256,uint256,uint256,bytes)': TypedContractMethod<[token: ethers.AddressLike, from: ethers.AddressLike, to: ethers.AddressLike, amount: ethers.BigNumberish, nonce: ethers.BigNumberish, deadline: ethers.BigNumberish, signature: ethers.BytesLike], void, 'nonpayable'>;
+  owner: TypedContractMethod<[], string, 'view'>;
+  transferOwnership: TypedContractMethod<[newOwner: ethers.AddressLike], void, 'nonpayable'>;
+}
+
+export const connectEcoMetaTransfer = (address: string, runner?: ethers.ContractRunner | null): EcoMetaTransfer =>
+  new ethers.Contract(address, abi, runner) as unknown as EcoMetaTransfer;
+
+export interface EcoMetaTransferEvents {
+  TransferWithSig: { from: string; to: string; amount: bigint; nonce: bigint };
+  OwnershipTransferred: { previousOwner: string; newOwner: string };
+}
+
+export type EcoMetaTransferEventName = keyof EcoMetaTransferEvents;
+export type EcoMetaTransferEvent = { [N in EcoMetaTransferEventName]: { name: N; args: EcoMetaTransferEvents[N] } }[EcoMetaTransferEventName];
+
+// Decodes one of this contract's logs into a named event with typed args, or null for any other log
+export function parseEcoMetaTransferEvent(log: { topics: readonly string[]; data: string }): EcoMetaTransferEvent | null {
+  try {
+    const parsed = ecoMetaTransferInterface.parseLog(log);
+    return parsed ? ({ name: parsed.name, args: parsed.args.toObject() } as EcoMetaTransferEvent) : null;
+  } catch {
+    return null;
+  }
+}
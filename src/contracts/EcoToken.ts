@@ -0,0 +1,87 @@
+// Generated by scripts/generate-bindings.mjs from src/abi/EcoToken.json. Do not edit;
+// run `npm run codegen` after changing an ABI.
+
+import { ethers } from 'ethers';
+import abi from '../abi/EcoToken.json';
+import { TypedContractMethod, revertData } from './common';
+
+export const ecoTokenAbi = abi;
+export const ecoTokenInterface = new ethers.Interface(abi);
+
+export interface EcoToken extends ethers.BaseContract {
+  connect(runner: ethers.ContractRunner | null): EcoToken;
+  addAuditor: TypedContractMethod<[user: ethers.AddressLike], void, 'nonpayable'>;
+  addManufacturer: TypedContractMethod<[user: ethers.AddressLike], void, 'nonpayable'>;
+  approve: TypedContractMethod<[spender: ethers.AddressLike, value: ethers.BigNumberish], boolean, 'nonpayable'>;
+  grantRole: TypedContractMethod<[role: ethers.BytesLike, account: ethers.AddressLike], void, 'nonpayable'>;
+  renounceRole: TypedContractMethod<[role: ethers.BytesLike, callerConfirmation: ethers.AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: ethers.BytesLike, account: ethers.AddressLike], void, 'nonpayable'>;
+  submitEcoAction: TypedContractMethod<[description: string, reductionAmount: ethers.BigNumberish, ipfsHash: string], void, 'nonpayable'>;
+  transfer: TypedContractMethod<[to: ethers.AddressLike, value: ethers.BigNumberish], boolean, 'nonpayable'>;
+  transferFrom: TypedContractMethod<[from: ethers.AddressLike, to: ethers.AddressLike, value: ethers.BigNumberish], boolean, 'nonpayable'>;
+  verifyAction: TypedContractMethod<[manufacturer: ethers.AddressLike, actionId: ethers.BigNumberish], void, 'nonpayable'>;
+  allowance: TypedContractMethod<[owner: ethers.AddressLike, spender: ethers.AddressLike], bigint, 'view'>;
+  AUDITOR_ROLE: TypedContractMethod<[], string, 'view'>;
+  balanceOf: TypedContractMethod<[account: ethers.AddressLike], bigint, 'view'>;
+  decimals: TypedContractMethod<[], bigint, 'view'>;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], string, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: ethers.BytesLike], string, 'view'>;
+  hasRole: TypedContractMethod<[role: ethers.BytesLike, account: ethers.AddressLike], boolean, 'view'>;
+  MANUFACTURER_ROLE: TypedContractMethod<[], string, 'view'>;
+  manufacturerActions: TypedContractMethod<[arg0: ethers.AddressLike, arg1: ethers.BigNumberish], [string, bigint, string, boolean] & { description: string; reductionAmount: bigint; ipfsHash: string; verified: boolean }, 'view'>;
+  name: TypedContractMethod<[], string, 'view'>;
+  supportsInterface: TypedContractMethod<[interfaceId: ethers.BytesLike], boolean, 'view'>;
+  symbol: TypedContractMethod<[], string, 'view'>;
+  totalSupply: TypedContractMethod<[], bigint, 'view'>;
+}
+
+export const connectEcoToken = (address: string, runner?: ethers.ContractRunner | null): EcoToken =>
+  new ethers.Contract(address, abi, runner) as unknown as EcoToken;
+
+export interface EcoTokenEvents {
+  Approval: { owner: string; spender: string; value: bigint };
+  EcoActionSubmitted: { manufacturer: string; actionId: bigint; ipfsHash: string };
+  EcoActionVerified: { manufacturer: string; actionId: bigint; creditsIssued: bigint };
+  RoleAdminChanged: { role: string; previousAdminRole: string; newAdminRole: string };
+  RoleGranted: { role: string; account: string; sender: string };
+  RoleRevoked: { role: string; account: string; sender: string };
+  Transfer: { from: string; to: string; value: bigint };
+}
+
+export type EcoTokenEventName = keyof EcoTokenEvents;
+export type EcoTokenEvent = { [N in EcoTokenEventName]: { name: N; args: EcoTokenEvents[N] } }[EcoTokenEventName];
+
+// Decodes one of this contract's logs into a named event with typed args, or null for any other log
+export function parseEcoTokenEvent(log: { topics: readonly string[]; data: string }): EcoTokenEvent | null {
+  try {
+    const parsed = ecoTokenInterface.parseLog(log);
+    return parsed ? ({ name: parsed.name, args: parsed.args.toObject() } as EcoTokenEvent) : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface EcoTokenErrors {
+  AccessControlBadConfirmation: Record<string, never>;
+  AccessControlUnauthorizedAccount: { account: string; neededRole: string };
+  ERC20InsufficientAllowance: { spender: string; allowance: bigint; needed: bigint };
+  ERC20InsufficientBalance: { sender: string; balance: bigint; needed: bigint };
+  ERC20InvalidApprover: { approver: string };
+  ERC20InvalidReceiver: { receiver: string };
+  ERC20InvalidSender: { sender: string };
+  ERC20InvalidSpender: { spender: string };
+}
+
+export type EcoTokenError = { [N in keyof EcoTokenErrors]: { name: N; args: EcoTokenErrors[N] } }[keyof EcoTokenErrors];
+
+// The custom error a call to this contract reverted with, or null for anything else
+export function decodeEcoTokenError(error: unknown): EcoTokenError | null {
+  const data = revertData(error);
+  if (!data) return null;
+  try {
+    const parsed = ecoTokenInterface.parseError(data);
+    return parsed ? ({ name: parsed.name, args: parsed.args.toObject() } as EcoTokenError) : null;
+  } catch {
+    return null;
+  }
+}
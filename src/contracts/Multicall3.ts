@@ -0,0 +1,17 @@
+// Generated by scripts/generate-bindings.mjs from src/abi/Multicall3.json. Do not edit;
+// run `npm run codegen` after changing an ABI.
+
+import { ethers } from 'ethers';
+import abi from '../abi/Multicall3.json';
+import { TypedContractMethod } from './common';
+
+export const multicall3Abi = abi;
+export const multicall3Interface = new ethers.Interface(abi);
+
+export interface Multicall3 extends ethers.BaseContract {
+  connect(runner: ethers.ContractRunner | null): Multicall3;
+  aggregate3: TypedContractMethod<[calls: { target: ethers.AddressLike; allowFailure: boolean; callData: ethers.BytesLike }[]], { success: boolean; returnData: string }[], 'payable'>;
+}
+
+export const connectMulticall3 = (address: string, runner?: ethers.ContractRunner | null): Multicall3 =>
+  new ethers.Contract(address, abi, runner) as unknown as Multicall3;
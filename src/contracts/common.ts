@@ -0,0 +1,32 @@
+// Generated by scripts/generate-bindings.mjs. Do not edit;
+// run `npm run codegen` after changing an ABI.
+
+import { ethers } from 'ethers';
+
+export type StateMutability = 'view' | 'pure' | 'nonpayable' | 'payable';
+
+type WithOverrides<Args extends unknown[]> = Args | [...Args, ethers.Overrides];
+
+// A contract method with its argument and return types; reads resolve to the decoded result,
+// writes to the sent transaction
+export interface TypedContractMethod<Args extends unknown[], Output, Mutability extends StateMutability> {
+  (...args: WithOverrides<Args>): Promise<Mutability extends 'view' | 'pure' ? Output : ethers.ContractTransactionResponse>;
+  name: string;
+  fragment: ethers.FunctionFragment;
+  getFragment(...args: WithOverrides<Args>): ethers.FunctionFragment;
+  populateTransaction(...args: WithOverrides<Args>): Promise<ethers.ContractTransaction>;
+  staticCall(...args: WithOverrides<Args>): Promise<Output>;
+  send(...args: WithOverrides<Args>): Promise<ethers.ContractTransactionResponse>;
+  estimateGas(...args: WithOverrides<Args>): Promise<bigint>;
+}
+
+// Revert data carried by an ethers CALL_EXCEPTION, or by the wallet or RPC error it wraps
+export function revertData(error: unknown): string | null {
+  let current = error;
+  for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+    const { data, error: inner, info } = current as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+    if (typeof data === 'string' && ethers.isHexString(data) && data.length >= 10) return data;
+    current = (data && typeof data === 'object' ? data : undefined) ?? inner ?? info?.error;
+  }
+  return null;
+}
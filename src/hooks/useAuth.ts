@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { AuthSession, WalletSession } from '../types';
+import { AUTH_API_URL, SIWE_MESSAGE_TTL_MS, SIWE_STATEMENT } from '../constants/auth';
+import { buildSiweMessage } from '../utils/siwe';
+import { clearAuthSession, loadAuthSession, saveAuthSession } from '../utils/authSession';
+import { decodeTxError } from '../utils/txErrors';
+import { useSessionState } from './useSessionState';
+import toast from 'react-hot-toast';
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    return (await response.json()).error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const useAuth = (provider: ethers.BrowserProvider | null, session: WalletSession | null) => {
+  // A sign-in belongs to one wallet session; the stored one for the new account, if any, takes over
+  const [authSession, setAuthSession] = useSessionState<AuthSession | null>(session?.key ?? null, null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  useEffect(() => {
+    if (session) {
+      setAuthSession(session.key, loadAuthSession(session.chainId, session.address));
+    }
+  }, [session, setAuthSession]);
+
+  const signIn = async () => {
+    if (!provider || !session) {
+      toast.error('Please connect your wallet');
+      return;
+    }
+
+    setIsSigningIn(true);
+    try {
+      const nonceResponse = await fetch(`${AUTH_API_URL}/nonce`);
+      if (!nonceResponse.ok) {
+        throw new Error(await readError(nonceResponse, 'Could not get a sign-in nonce'));
+      }
+      const { nonce } = await nonceResponse.json();
+
+      const issuedAt = new Date();
+      const message = buildSiweMessage({
+        domain: window.location.host,
+        address: ethers.getAddress(session.address),
+        statement: SIWE_STATEMENT,
+        uri: window.location.origin,
+        version: '1',
+        chainId: session.chainId,
+        nonce,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime: new Date(issuedAt.getTime() + SIWE_MESSAGE_TTL_MS).toISOString(),
+      });
+      const signer = await provider.getSigner(session.address);
+      const signature = await signer.signMessage(message);
+
+      const verifyResponse = await fetch(`${AUTH_API_URL}/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+      });
+      if (!verifyResponse.ok) {
+        throw new Error(await readError(verifyResponse, 'Sign-in was not accepted'));
+      }
+
+      const signedIn = (await verifyResponse.json()) as AuthSession;
+      saveAuthSession(signedIn);
+      setAuthSession(session.key, signedIn);
+      toast.success('Signed in with Ethereum');
+    } catch (error) {
+      console.error('Error signing in:', error);
+      const txError = decodeTxError(error, { fallback: 'Failed to sign in' });
+      toast.error(txError.kind === 'rejected' ? 'Sign-in was cancelled' : txError.message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const signOut = () => {
+    if (session) {
+      clearAuthSession(session.chainId, session.address);
+      setAuthSession(session.key, null);
+    }
+  };
+
+  return {
+    authSession,
+    isSigningIn,
+    signIn,
+    signOut,
+  };
+};
@@ -1,50 +1,158 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { ethers } from 'ethers';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../constants/contract';
-import { UserRole, EcoAction, User, RoleChangeEvent } from '../types';
+import { TypedContractMethod } from '../contracts/common';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { UserRole, IndexedEcoAction, User, RoleChangeEvent, BatchItemProgress, RoleHashes } from '../types';
+import { ActionIndexer, actionKey, getActionIndexer } from '../utils/actionIndexer';
+import { openProviderCache, readThrough } from '../utils/chainCache';
+import { syncRoleEvents } from '../utils/roleEvents';
+import { getRoleRegistry } from '../utils/roleRegistry';
+import { LiveEvent, subscribeContractEvents } from '../utils/liveEvents';
+import { getBatchingRunner } from '../utils/multicall';
+import { findTokenAddress } from '../utils/networks';
+import { sessionKey } from '../utils/session';
+import { describePreview, preflight } from '../utils/simulation';
+import { decodeTxError } from '../utils/txErrors';
+import { getTransactionManager } from '../utils/txManager';
+import { getTransferHistory } from '../utils/transferHistory';
+import { useSessionState } from './useSessionState';
 import toast from 'react-hot-toast';
 
-export const useContract = (provider: ethers.BrowserProvider | null, address: string | null) => {
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
-  const [userRole, setUserRole] = useState<UserRole>({
-    isManufacturer: false,
-    isAuditor: false,
-    isAdmin: false,
-  });
-  const [userActions, setUserActions] = useState<EcoAction[]>([]);
+const NO_ROLES: UserRole = {
+  isManufacturer: false,
+  isAuditor: false,
+  isAdmin: false,
+};
+const NO_ACTIONS: IndexedEcoAction[] = [];
+const NO_USERS: User[] = [];
+const NO_ROLE_EVENTS: RoleChangeEvent[] = [];
+
+const formatShortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const useContract = (
+  provider: ethers.BrowserProvider | null,
+  address: string | null,
+  chainId: number | null
+) => {
+  const contractAddress = findTokenAddress(chainId);
+  const session = provider && address && contractAddress && chainId !== null
+    ? sessionKey(chainId, address)
+    : null;
+  // Reads go through the batching runner; writes connect a signer as before
+  const contract = useMemo(
+    () => (provider && contractAddress ? connectEcoToken(contractAddress, getBatchingRunner(provider)) : null),
+    [provider, contractAddress]
+  );
+  // Everything read for the connected account belongs to its session and resets when it changes
+  const [userRole, setUserRole] = useSessionState(session, NO_ROLES);
+  const [rolesLoaded, setRolesLoaded] = useSessionState(session, false);
+  const [userActions, setUserActions] = useSessionState(session, NO_ACTIONS);
+  const [pendingActions, setPendingActions] = useSessionState(session, NO_ACTIONS);
+  const [allUsers, setAllUsers] = useSessionState(session, NO_USERS);
+  const [roleEvents, setRoleEvents] = useSessionState(session, NO_ROLE_EVENTS);
+  // Bumped when a live Transfer touches the connected account, so its token balance is re-read
+  const [balanceVersion, setBalanceVersion] = useSessionState(session, 0);
   const [loading, setLoading] = useState(false);
-  const [allUsers, setAllUsers] = useState<User[]>([]);
-  const [roleEvents, setRoleEvents] = useState<RoleChangeEvent[]>([]);
+  const sessionController = useRef<AbortController | null>(null);
+  const liveEventHandler = useRef<(events: LiveEvent[]) => void>(() => undefined);
+
+  // Aborted when the session ends, so reads still running for the old account stop where they are
+  const sessionSignal = () => sessionController.current?.signal ?? AbortSignal.abort();
+
+  // Roles in failure messages are named the way the activity log names them
+  const roleName = provider && contractAddress ? getRoleRegistry(provider, contractAddress).getRoleName : undefined;
+  const txErrorMessage = (error: unknown, fallback: string) => decodeTxError(error, { fallback, roleName }).message;
+
+  // Dry-runs a write and shows its effects and fee in the pending toast before the wallet prompt;
+  // a simulation that fails throws, so nothing is signed
+  const simulate = async <Args extends unknown[]>(
+    method: TypedContractMethod<Args, unknown, 'nonpayable'>,
+    args: Args,
+    from: string,
+    changes: string[],
+    toastId: string
+  ) => {
+    if (!provider) throw new Error('Contract not initialized');
+    toast.loading('Simulating transaction...', { id: toastId });
+    const preview = await preflight(provider, method, args, { from, changes, roleName });
+    toast.loading(`${describePreview(preview)} · confirm in your wallet`, { id: toastId });
+  };
+
+  useEffect(() => {
+    if (!session) return;
+    const controller = new AbortController();
+    sessionController.current = controller;
+    return () => controller.abort();
+  }, [session]);
 
+  // Roles come first; the role-specific data is loaded once they are known
   useEffect(() => {
-    if (provider && address) {
-      const contractInstance = new ethers.Contract(
-        CONTRACT_ADDRESS,
-        CONTRACT_ABI,
-        provider
-      );
-      setContract(contractInstance);
+    if (!session) return;
+    if (!rolesLoaded) {
       checkUserRole();
+      return;
+    }
+    if (userRole.isManufacturer) {
       loadUserActions();
-      if (userRole.isAdmin) {
-        loadAllUsers();
-        loadRoleEvents();
-      }
     }
-  }, [provider, address, userRole.isAdmin]);
+    if (userRole.isAdmin) {
+      loadAllUsers();
+      loadRoleEvents();
+    }
+    if (userRole.isAuditor) {
+      loadPendingActions();
+    }
+  }, [session, rolesLoaded, userRole.isAdmin, userRole.isAuditor, userRole.isManufacturer]);
+
+  // The handler is swapped every render so it always sees the current roles and loaders
+  useEffect(() => {
+    if (!session || !provider || !contractAddress || chainId === null) return;
+    return subscribeContractEvents(provider, contractAddress, chainId, events => liveEventHandler.current(events));
+  }, [session, provider, contractAddress, chainId]);
+
+  const readUser = async (
+    userAddress: string,
+    roles: RoleHashes,
+    indexer: ActionIndexer
+  ): Promise<User | null> => {
+    if (!contract) return null;
+    try {
+      const [isManufacturer, isAuditor, isAdmin, tokenBalance] = await Promise.all([
+        contract.hasRole(roles.manufacturer, userAddress),
+        contract.hasRole(roles.auditor, userAddress),
+        contract.hasRole(roles.admin, userAddress),
+        contract.balanceOf(userAddress),
+      ]);
+
+      return {
+        address: userAddress,
+        roles: { isManufacturer, isAuditor, isAdmin },
+        tokenBalance: ethers.formatEther(tokenBalance),
+        actionsCount: indexer.getActionsFor(userAddress).length,
+      };
+    } catch (error) {
+      console.error(`Error loading user ${userAddress}:`, error);
+      return null;
+    }
+  };
 
   const loadAllUsers = async () => {
-    if (!contract) return;
+    if (!contract || !provider || !contractAddress || !session) return;
+    const signal = sessionSignal();
 
     try {
-      // Listen to past role events to build user list
-      const filter = contract.filters.RoleGranted();
-      const events = await contract.queryFilter(filter, 0, 'latest');
-      
+      const cache = await openProviderCache(provider, contractAddress);
+      const cachedUsers = await cache.getValue<User[]>('users');
+      if (cachedUsers && !signal.aborted) {
+        setAllUsers(session, cachedUsers.value);
+      }
+
+      // Build the user list from the cached role grant history
+      const roleLogs = await syncRoleEvents(provider, contractAddress, signal);
       const userAddresses = new Set<string>();
-      events.forEach(event => {
-        if (event.args) {
-          userAddresses.add(event.args.account);
+      roleLogs.forEach(log => {
+        if (log.granted) {
+          userAddresses.add(log.account);
         }
       });
 
@@ -53,151 +161,223 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
         userAddresses.add(address);
       }
 
-      const users: User[] = [];
-      for (const userAddress of userAddresses) {
-        try {
-          const manufacturerRole = await contract.MANUFACTURER_ROLE();
-          const auditorRole = await contract.AUDITOR_ROLE();
-          const defaultAdminRole = await contract.DEFAULT_ADMIN_ROLE();
-
-          const isManufacturer = await contract.hasRole(manufacturerRole, userAddress);
-          const isAuditor = await contract.hasRole(auditorRole, userAddress);
-          const isAdmin = await contract.hasRole(defaultAdminRole, userAddress);
-
-          const tokenBalance = await contract.balanceOf(userAddress);
-          
-          // Count actions for manufacturers
-          let actionsCount = 0;
-          if (isManufacturer) {
-            let actionId = 0;
-            while (true) {
-              try {
-                await contract.manufacturerActions(userAddress, actionId);
-                actionsCount++;
-                actionId++;
-              } catch {
-                break;
-              }
-            }
-          }
+      const indexer = getActionIndexer(provider, contractAddress);
+      await indexer.sync(signal);
+      const roles = await getRoleRegistry(provider, contractAddress).getRoleHashes();
 
-          users.push({
-            address: userAddress,
-            roles: { isManufacturer, isAuditor, isAdmin },
-            tokenBalance: ethers.formatEther(tokenBalance),
-            actionsCount,
-          });
-        } catch (error) {
-          console.error(`Error loading user ${userAddress}:`, error);
-        }
-      }
+      // Issued together so the batching runner sends them as a few multicalls instead of four calls per user
+      const loaded = await Promise.all(Array.from(userAddresses, userAddress => readUser(userAddress, roles, indexer)));
+      const users = loaded.filter((user): user is User => user !== null);
 
-      setAllUsers(users);
+      signal.throwIfAborted();
+      setAllUsers(session, users);
+      await cache.putValue('users', users, await provider.getBlockNumber());
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error loading all users:', error);
     }
   };
 
   const loadRoleEvents = async () => {
-    if (!contract) return;
+    if (!provider || !contractAddress || !session) return;
+    const signal = sessionSignal();
 
     try {
-      const grantedFilter = contract.filters.RoleGranted();
-      const revokedFilter = contract.filters.RoleRevoked();
-      
-      const [grantedEvents, revokedEvents] = await Promise.all([
-        contract.queryFilter(grantedFilter, 0, 'latest'),
-        contract.queryFilter(revokedFilter, 0, 'latest')
-      ]);
-
-      const events: RoleChangeEvent[] = [];
-      
-      grantedEvents.forEach(event => {
-        if (event.args) {
-          const block = event.blockNumber;
-          events.push({
-            user: event.args.account,
-            role: getRoleName(event.args.role),
-            granted: true,
-            timestamp: block, // In a real app, you'd get the block timestamp
-          });
-        }
-      });
-
-      revokedEvents.forEach(event => {
-        if (event.args) {
-          const block = event.blockNumber;
-          events.push({
-            user: event.args.account,
-            role: getRoleName(event.args.role),
-            granted: false,
-            timestamp: block,
-          });
-        }
-      });
-
-      // Sort by timestamp (block number) descending
-      events.sort((a, b) => b.timestamp - a.timestamp);
-      setRoleEvents(events.slice(0, 20)); // Keep last 20 events
+      const registry = getRoleRegistry(provider, contractAddress);
+      const [roleLogs] = await Promise.all([syncRoleEvents(provider, contractAddress, signal), registry.sync(signal)]);
+      // The full history, newest first; block timestamps are resolved per page by the activity log
+      const events: RoleChangeEvent[] = roleLogs.map(log => ({
+        id: `${log.txHash}:${log.logIndex}`,
+        user: log.account,
+        role: registry.getRoleName(log.role),
+        roleHash: log.role,
+        granted: log.granted,
+        sender: log.sender,
+        blockNumber: log.blockNumber,
+        txHash: log.txHash,
+        logIndex: log.logIndex,
+      })).reverse();
+      if (!signal.aborted) {
+        setRoleEvents(session, events);
+      }
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error loading role events:', error);
     }
   };
 
-  const getRoleName = (roleHash: string): string => {
-    // These are the keccak256 hashes of the role names
-    const roles: { [key: string]: string } = {
-      '0x0000000000000000000000000000000000000000000000000000000000000000': 'Admin',
-      '0x9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6': 'Manufacturer',
-      '0x1e4c11d3c2f3e3b3e3b3e3b3e3b3e3b3e3b3e3b3e3b3e3b3e3b3e3b3e3b3e3b3': 'Auditor'
-    };
-    return roles[roleHash] || 'Unknown';
-  };
+  // Resolved in batches through the chain cache, so each block is only fetched once
+  const getBlockTimestamps = useCallback(async (blockNumbers: number[]) => {
+    if (!provider || !contractAddress) return new Map<number, number>();
+    const cache = await openProviderCache(provider, contractAddress);
+    return cache.getBlockTimestamps(provider, blockNumbers);
+  }, [provider, contractAddress]);
 
   const checkUserRole = async () => {
-    if (!contract || !address) return;
+    if (!contract || !provider || !address || !contractAddress || !session) return;
+    const signal = sessionSignal();
 
     try {
-      const manufacturerRole = await contract.MANUFACTURER_ROLE();
-      const auditorRole = await contract.AUDITOR_ROLE();
-      const defaultAdminRole = await contract.DEFAULT_ADMIN_ROLE();
-
-      const isManufacturer = await contract.hasRole(manufacturerRole, address);
-      const isAuditor = await contract.hasRole(auditorRole, address);
-      const isAdmin = await contract.hasRole(defaultAdminRole, address);
-
-      setUserRole({ isManufacturer, isAuditor, isAdmin });
+      const cache = await openProviderCache(provider, contractAddress);
+      await readThrough<UserRole>(cache, provider, `roles:${address.toLowerCase()}`, async () => {
+        const roles = await getRoleRegistry(provider, contractAddress).getRoleHashes();
+        const [isManufacturer, isAuditor, isAdmin] = await Promise.all([
+          contract.hasRole(roles.manufacturer, address),
+          contract.hasRole(roles.auditor, address),
+          contract.hasRole(roles.admin, address),
+        ]);
+
+        return { isManufacturer, isAuditor, isAdmin };
+      }, (roles) => {
+        setUserRole(session, roles);
+        setRolesLoaded(session, true);
+      }, signal);
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error checking user role:', error);
+      // Show the account without roles rather than loading forever
+      setRolesLoaded(session, true);
     }
   };
 
   const loadUserActions = async () => {
-    if (!contract || !address || !userRole.isManufacturer) return;
+    if (!provider || !address || !contractAddress || !session || !userRole.isManufacturer) return;
+    const signal = sessionSignal();
 
     try {
-      const actions: EcoAction[] = [];
-      let actionId = 0;
+      const indexer = getActionIndexer(provider, contractAddress);
+      await indexer.load();
+      if (!signal.aborted) setUserActions(session, indexer.getActionsFor(address));
+      await indexer.sync(signal);
+      if (!signal.aborted) setUserActions(session, indexer.getActionsFor(address));
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('Error loading user actions:', error);
+    }
+  };
 
-      // Try to load actions until we hit an error (no more actions)
-      while (true) {
-        try {
-          const action = await contract.manufacturerActions(address, actionId);
-          actions.push({
-            description: action.description,
-            reductionAmount: Number(action.reductionAmount),
-            ipfsHash: action.ipfsHash,
-            verified: action.verified,
-          });
-          actionId++;
-        } catch {
+  // Verification queue: every submitted action that has no EcoActionVerified event yet
+  const loadPendingActions = async () => {
+    if (!provider || !contractAddress || !session) return;
+    const signal = sessionSignal();
+
+    try {
+      const indexer = getActionIndexer(provider, contractAddress);
+      await indexer.load();
+      if (!signal.aborted) setPendingActions(session, indexer.getUnverifiedActions());
+      await indexer.sync(signal);
+      if (!signal.aborted) setPendingActions(session, indexer.getUnverifiedActions());
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('Error loading pending actions:', error);
+    }
+  };
+
+  // Re-reads only the users a live event touched and merges them into the admin's user list
+  const refreshUsers = async (userAddresses: string[]) => {
+    if (!provider || !contractAddress || !session) return;
+    const signal = sessionSignal();
+
+    try {
+      const indexer = getActionIndexer(provider, contractAddress);
+      const roles = await getRoleRegistry(provider, contractAddress).getRoleHashes();
+      const refreshed = (await Promise.all(userAddresses.map(userAddress => readUser(userAddress, roles, indexer))))
+        .filter((user): user is User => user !== null);
+      if (signal.aborted) return;
+
+      setAllUsers(session, (users) => {
+        const byAddress = new Map(users.map(user => [user.address.toLowerCase(), user]));
+        refreshed.forEach(user => {
+          const known = byAddress.has(user.address.toLowerCase());
+          const hasRole = user.roles.isManufacturer || user.roles.isAuditor || user.roles.isAdmin;
+          // Plain token holders only join the list once they hold a role
+          if (known || hasRole) byAddress.set(user.address.toLowerCase(), user);
+        });
+        return Array.from(byAddress.values());
+      });
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('Error refreshing users:', error);
+    }
+  };
+
+  liveEventHandler.current = (events: LiveEvent[]) => {
+    if (!address || !provider || !contractAddress) return;
+    const signal = sessionSignal();
+    const isMine = (account: string) => account.toLowerCase() === address.toLowerCase();
+    const registry = getRoleRegistry(provider, contractAddress);
+    const touchedUsers = new Set<string>();
+    let myRolesChanged = false;
+    let rolesChanged = false;
+    let actionsChanged = false;
+    let balanceChanged = false;
+
+    events.forEach(event => {
+      switch (event.name) {
+        case 'Transfer': {
+          const [from, to, value] = event.args;
+          if (isMine(to) && !isMine(from) && from !== ethers.ZeroAddress) {
+            toast.success(`Received ${ethers.formatEther(value)} ECO from ${formatShortAddress(from)}`);
+          }
+          balanceChanged = balanceChanged || isMine(from) || isMine(to);
+          [from, to].filter(account => account !== ethers.ZeroAddress).forEach(account => touchedUsers.add(account));
+          break;
+        }
+        case 'RoleGranted':
+        case 'RoleRevoked': {
+          const [role, account] = event.args;
+          const granted = event.name === 'RoleGranted';
+          if (isMine(account)) {
+            myRolesChanged = true;
+            toast(`You were ${granted ? 'granted' : 'removed from'} the ${registry.getRoleName(role)} role`);
+          }
+          rolesChanged = true;
+          touchedUsers.add(account);
+          break;
+        }
+        case 'EcoActionSubmitted': {
+          const [manufacturer, actionId] = event.args;
+          if (userRole.isAuditor && !isMine(manufacturer)) {
+            toast(`Action #${actionId} from ${formatShortAddress(manufacturer)} is waiting for verification`);
+          }
+          actionsChanged = true;
+          touchedUsers.add(manufacturer);
+          break;
+        }
+        case 'EcoActionVerified': {
+          const [manufacturer, actionId, creditsIssued] = event.args;
+          if (isMine(manufacturer)) {
+            toast.success(`Your action #${actionId} was verified: ${ethers.formatEther(creditsIssued)} ECO credited`);
+          }
+          actionsChanged = true;
+          touchedUsers.add(manufacturer);
           break;
         }
       }
-
-      setUserActions(actions);
-    } catch (error) {
-      console.error('Error loading user actions:', error);
+    });
+
+    if (balanceChanged) {
+      setBalanceVersion(session, version => version + 1);
+      // Incoming transfers from elsewhere show up in the forms' history without a manual refresh
+      if (chainId !== null) {
+        getTransferHistory(provider, chainId, address)?.sync(signal)
+          .catch((error) => {
+            if (!signal.aborted) console.error('Error syncing transfer history:', error);
+          });
+      }
+    }
+    if (myRolesChanged) checkUserRole();
+    if (actionsChanged && userRole.isManufacturer) loadUserActions();
+    if (actionsChanged && userRole.isAuditor) loadPendingActions();
+    if (userRole.isAdmin) {
+      if (rolesChanged) loadRoleEvents();
+      // Action counts come from the indexer, so let it catch up before re-reading the users
+      const indexerSync = actionsChanged ? getActionIndexer(provider, contractAddress).sync(signal) : Promise.resolve();
+      indexerSync
+        .catch((error) => {
+          if (!signal.aborted) console.error('Error syncing actions:', error);
+        })
+        .then(() => refreshUsers(Array.from(touchedUsers)));
     }
   };
 
@@ -213,6 +393,22 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
     }
   };
 
+  // Writes go through the session's transaction manager, so they outlive a reload and can be sped up
+  // or cancelled from the tray; resolves with the receipt of whichever submission was mined
+  const trackTransaction = (tx: ethers.ContractTransactionResponse, purpose: string, params: Record<string, string | number>) => {
+    if (!provider) throw new Error('Contract not initialized');
+    return getTransactionManager(provider, Number(tx.chainId), tx.from).track(tx, purpose, params);
+  };
+
+  // What verifying an action will do, read from the action itself when it exists
+  const describeVerification = async (manufacturer: string, actionId: number) => {
+    const details = await contract?.manufacturerActions(manufacturer, actionId).catch(() => null);
+    if (!details) return [`Verifies action #${actionId} of ${formatShortAddress(manufacturer)}`];
+    return [
+      `Verifies "${details.description}" and mints ${ethers.formatEther(details.reductionAmount)} ECO to ${formatShortAddress(manufacturer)}`,
+    ];
+  };
+
   const submitEcoAction = async (description: string, reductionAmount: number, ipfsHash: string) => {
     if (!contract || !provider) throw new Error('Contract not initialized');
 
@@ -223,20 +419,20 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
     const loadingToast = toast.loading('Submitting eco-action...');
 
     try {
-      const tx = await contractWithSigner.submitEcoAction(
-        description,
-        ethers.parseEther(reductionAmount.toString()),
-        ipfsHash
-      );
+      const args: [string, bigint, string] = [description, ethers.parseEther(reductionAmount.toString()), ipfsHash];
+      await simulate(contractWithSigner.submitEcoAction, args, signer.address, [
+        `Submits "${description}" for verification (${reductionAmount} ECO once verified)`,
+      ], loadingToast);
+      const tx = await contractWithSigner.submitEcoAction(...args);
 
       toast.loading('Transaction pending...', { id: loadingToast });
-      await tx.wait();
+      await trackTransaction(tx, `Submit eco-action "${description}"`, { description, reductionAmount, ipfsHash });
 
       toast.success('Eco-action submitted successfully!', { id: loadingToast });
       await loadUserActions();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error submitting eco-action:', error);
-      toast.error(error.message || 'Failed to submit eco-action', { id: loadingToast });
+      toast.error(txErrorMessage(error, 'Failed to submit eco-action'), { id: loadingToast });
       throw error;
     } finally {
       setLoading(false);
@@ -253,21 +449,93 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
     const loadingToast = toast.loading('Verifying action...');
 
     try {
+      await simulate(contractWithSigner.verifyAction, [manufacturerAddress, actionId], signer.address,
+        await describeVerification(manufacturerAddress, actionId), loadingToast);
       const tx = await contractWithSigner.verifyAction(manufacturerAddress, actionId);
 
       toast.loading('Transaction pending...', { id: loadingToast });
-      await tx.wait();
+      await trackTransaction(tx, `Verify action #${actionId} of ${formatShortAddress(manufacturerAddress)}`, { manufacturer: manufacturerAddress, actionId });
 
       toast.success('Action verified successfully!', { id: loadingToast });
-    } catch (error: any) {
+      await loadPendingActions();
+    } catch (error) {
       console.error('Error verifying action:', error);
-      toast.error(error.message || 'Failed to verify action', { id: loadingToast });
+      toast.error(txErrorMessage(error, 'Failed to verify action'), { id: loadingToast });
       throw error;
     } finally {
       setLoading(false);
     }
   };
 
+  // Sends one verifyAction per item with consecutive nonces and only waits for the
+  // receipts once everything is submitted. A failure only affects its own item.
+  const verifyActionsBatch = async (
+    items: { manufacturer: string; actionId: number }[],
+    onProgress: (key: string, progress: BatchItemProgress) => void
+  ) => {
+    if (!provider || !contractAddress) throw new Error('Contract not initialized');
+
+    const signer = await provider.getSigner();
+    const contractWithSigner = connectEcoToken(contractAddress, signer);
+    let nonce = await signer.getNonce('pending');
+
+    setLoading(true);
+    items.forEach(item => onProgress(actionKey(item.manufacturer, item.actionId), { status: 'queued' }));
+
+    const receipts: Promise<boolean>[] = [];
+    try {
+      for (const item of items) {
+        const key = actionKey(item.manufacturer, item.actionId);
+        onProgress(key, { status: 'simulating' });
+        try {
+          await preflight(provider, contractWithSigner.verifyAction, [item.manufacturer, item.actionId], { from: signer.address, roleName });
+        } catch (error) {
+          // Stopped before signing, so this item never takes a nonce
+          onProgress(key, { status: 'failed', error: txErrorMessage(error, 'Simulation failed') });
+          continue;
+        }
+        onProgress(key, { status: 'signing' });
+
+        let tx: ethers.ContractTransactionResponse;
+        try {
+          tx = await contractWithSigner.verifyAction(item.manufacturer, item.actionId, { nonce });
+          nonce++;
+        } catch (error) {
+          // Nothing was broadcast, so the nonce is still free for the next item
+          console.error(`Error submitting verification for ${key}:`, error);
+          onProgress(key, { status: 'failed', error: txErrorMessage(error, 'Submission failed') });
+          continue;
+        }
+
+        onProgress(key, { status: 'submitted', txHash: tx.hash });
+        receipts.push(
+          trackTransaction(tx, `Verify action #${item.actionId} of ${formatShortAddress(item.manufacturer)}`, { ...item })
+            .then((receipt) => {
+              onProgress(key, { status: 'confirmed', txHash: receipt.hash });
+              return true;
+            })
+            .catch((error) => {
+              console.error(`Error confirming verification for ${key}:`, error);
+              onProgress(key, { status: 'failed', txHash: tx.hash, error: txErrorMessage(error, 'Transaction failed') });
+              return false;
+            })
+        );
+      }
+
+      const results = await Promise.all(receipts);
+      const confirmedCount = results.filter(Boolean).length;
+      const failedCount = items.length - confirmedCount;
+      if (failedCount === 0) {
+        toast.success(`Verified ${confirmedCount} action${confirmedCount === 1 ? '' : 's'}`);
+      } else {
+        toast.error(`Verified ${confirmedCount} of ${items.length} actions, ${failedCount} failed`);
+      }
+      await loadPendingActions();
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const addManufacturer = async (userAddress: string) => {
     if (!contract || !provider) throw new Error('Contract not initialized');
 
@@ -278,17 +546,20 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
     const loadingToast = toast.loading('Adding manufacturer...');
 
     try {
+      await simulate(contractWithSigner.addManufacturer, [userAddress], signer.address, [
+        `Grants the Manufacturer role to ${formatShortAddress(userAddress)}`,
+      ], loadingToast);
       const tx = await contractWithSigner.addManufacturer(userAddress);
 
       toast.loading('Transaction pending...', { id: loadingToast });
-      await tx.wait();
+      await trackTransaction(tx, `Add manufacturer ${formatShortAddress(userAddress)}`, { account: userAddress });
 
       toast.success('Manufacturer added successfully!', { id: loadingToast });
       await loadAllUsers(); // Refresh user list
       await checkUserRole(); // <-- Refresh current user's roles
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error adding manufacturer:', error);
-      toast.error(error.message || 'Failed to add manufacturer', { id: loadingToast });
+      toast.error(txErrorMessage(error, 'Failed to add manufacturer'), { id: loadingToast });
       throw error;
     } finally {
       setLoading(false);
@@ -305,17 +576,20 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
     const loadingToast = toast.loading('Adding auditor...');
 
     try {
+      await simulate(contractWithSigner.addAuditor, [userAddress], signer.address, [
+        `Grants the Auditor role to ${formatShortAddress(userAddress)}`,
+      ], loadingToast);
       const tx = await contractWithSigner.addAuditor(userAddress);
 
       toast.loading('Transaction pending...', { id: loadingToast });
-      await tx.wait();
+      await trackTransaction(tx, `Add auditor ${formatShortAddress(userAddress)}`, { account: userAddress });
 
       toast.success('Auditor added successfully!', { id: loadingToast });
       await loadAllUsers(); // Refresh user list
       await checkUserRole(); // <-- Refresh current user's roles
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error adding auditor:', error);
-      toast.error(error.message || 'Failed to add auditor', { id: loadingToast });
+      toast.error(txErrorMessage(error, 'Failed to add auditor'), { id: loadingToast });
       throw error;
     } finally {
       setLoading(false);
@@ -323,7 +597,7 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
   };
 
   const removeRole = async (userAddress: string, roleType: 'manufacturer' | 'auditor') => {
-    if (!contract || !provider) throw new Error('Contract not initialized');
+    if (!contract || !provider || !contractAddress) throw new Error('Contract not initialized');
 
     const signer = await provider.getSigner();
     const contractWithSigner = contract.connect(signer);
@@ -332,23 +606,21 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
     const loadingToast = toast.loading(`Removing ${roleType}...`);
 
     try {
-      let roleHash;
-      if (roleType === 'manufacturer') {
-        roleHash = await contract.MANUFACTURER_ROLE();
-      } else {
-        roleHash = await contract.AUDITOR_ROLE();
-      }
+      const roleHash = (await getRoleRegistry(provider, contractAddress).getRoleHashes())[roleType];
 
+      await simulate(contractWithSigner.revokeRole, [roleHash, userAddress], signer.address, [
+        `Revokes the ${roleType} role from ${formatShortAddress(userAddress)}`,
+      ], loadingToast);
       const tx = await contractWithSigner.revokeRole(roleHash, userAddress);
 
       toast.loading('Transaction pending...', { id: loadingToast });
-      await tx.wait();
+      await trackTransaction(tx, `Remove ${roleType} ${formatShortAddress(userAddress)}`, { account: userAddress, role: roleType });
 
       toast.success(`${roleType} role removed successfully!`, { id: loadingToast });
       await loadAllUsers(); // Refresh user list
-    } catch (error: any) {
+    } catch (error) {
       console.error(`Error removing ${roleType}:`, error);
-      toast.error(error.message || `Failed to remove ${roleType}`, { id: loadingToast });
+      toast.error(txErrorMessage(error, `Failed to remove ${roleType}`), { id: loadingToast });
       throw error;
     } finally {
       setLoading(false);
@@ -357,19 +629,27 @@ export const useContract = (provider: ethers.BrowserProvider | null, address: st
 
   return {
     contract,
+    // True from a session's start until its roles are known; panels wait for it instead of
+    // rendering with another account's data or an empty role set
+    sessionLoading: session !== null && !rolesLoaded,
     userRole,
     userActions,
+    pendingActions,
     allUsers,
     roleEvents,
+    balanceVersion,
     loading,
     getTokenBalance,
     submitEcoAction,
     verifyAction,
+    verifyActionsBatch,
     addManufacturer,
     addAuditor,
     checkUserRole,
     loadUserActions,
+    loadPendingActions,
     loadAllUsers,
     removeRole,
+    getBlockTimestamps,
   };
 };
\ No newline at end of file
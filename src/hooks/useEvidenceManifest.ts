@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { ManifestState } from '../types';
+import { loadManifest } from '../utils/evidenceManifest';
+import { isCid } from '../utils/ipfs';
+
+export const useEvidenceManifest = (ipfsHash: string) => {
+  const [state, setState] = useState<ManifestState>(
+    isCid(ipfsHash) ? { status: 'loading' } : { status: 'none' }
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    if (isCid(ipfsHash)) {
+      setState({ status: 'loading' });
+    }
+    loadManifest(ipfsHash).then((next) => {
+      if (!cancelled) setState(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [ipfsHash]);
+
+  return state;
+};
@@ -0,0 +1,143 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { AddressBookContact } from '../types';
+import { getAddressBook } from '../utils/addressBook';
+import { isEnsName, lookupEnsName, resolveEnsName } from '../utils/ens';
+import { checkRecipient, checksumState } from '../utils/recipientChecks';
+import { getTransferHistory } from '../utils/transferHistory';
+
+export type RecipientStatus = 'empty' | 'resolving' | 'resolved' | 'invalid';
+
+const ENS_DEBOUNCE_MS = 400;
+
+// What the user typed or picked as a recipient, resolved to a checksummed address and checked
+// against the address book and the account's own transfer history
+export const useRecipient = (
+  provider: ethers.BrowserProvider | null | undefined,
+  chainId: number | null | undefined,
+  owner: string | null
+) => {
+  const addressBook = useMemo(() => (owner ? getAddressBook(owner) : null), [owner]);
+  const [contacts, setContacts] = useState<AddressBookContact[]>([]);
+  const [input, setInput] = useState('');
+  const [status, setStatus] = useState<RecipientStatus>('empty');
+  const [error, setError] = useState('');
+  const [resolved, setResolved] = useState<{ address: string; ensName?: string } | null>(null);
+  // A lookalike recipient is only handed out once the user says they compared it
+  const [confirmed, setConfirmed] = useState(false);
+
+  useEffect(() => {
+    if (!addressBook) {
+      setContacts([]);
+      return;
+    }
+    setContacts(addressBook.getContacts());
+    return addressBook.subscribe(() => setContacts(addressBook.getContacts()));
+  }, [addressBook]);
+
+  useEffect(() => {
+    const value = input.trim();
+    let cancelled = false;
+    const fail = (message: string) => {
+      setResolved(null);
+      setStatus('invalid');
+      setError(message);
+    };
+    setConfirmed(false);
+    setError('');
+
+    if (!value) {
+      setResolved(null);
+      setStatus('empty');
+      return;
+    }
+
+    if (value.startsWith('0x')) {
+      if (!ethers.isHexString(value, 20)) {
+        fail('Invalid address format');
+      } else if (checksumState(value) === 'invalid') {
+        fail('Checksum mismatch: at least one character is wrong. Copy the address again');
+      } else {
+        const address = ethers.getAddress(value.toLowerCase());
+        setResolved({ address });
+        setStatus('resolved');
+        // The reverse name is only shown next to the address, so it is filled in when it arrives
+        if (provider) {
+          lookupEnsName(address, provider).then((ensName) => {
+            if (!cancelled && ensName) setResolved({ address, ensName });
+          });
+        }
+      }
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    if (!isEnsName(value)) {
+      fail('Enter an address or an ENS name');
+      return;
+    }
+    if (!provider) {
+      fail('Connect a wallet to resolve ENS names');
+      return;
+    }
+
+    setResolved(null);
+    setStatus('resolving');
+    const timer = setTimeout(() => {
+      resolveEnsName(value, provider)
+        .then((address) => {
+          if (cancelled) return;
+          if (!address) {
+            fail(`${value} does not point to an address`);
+            return;
+          }
+          setResolved({ address, ensName: value });
+          setStatus('resolved');
+        })
+        .catch((resolveError) => {
+          if (cancelled) return;
+          console.error(`Error resolving ${value}:`, resolveError);
+          fail(resolveError instanceof Error ? resolveError.message : `Could not resolve ${value}`);
+        });
+    }, ENS_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input, provider]);
+
+  // Recipients of the account's own outgoing transfers count as known, like saved contacts
+  const history = provider && chainId != null && owner ? getTransferHistory(provider, chainId, owner) : null;
+  const pastRecipients = history ? history.getTransfers({ direction: 'out' }).map(transfer => ({ address: transfer.counterparty })) : [];
+  const warnings = resolved
+    ? checkRecipient({
+        address: resolved.address,
+        typed: input.trim().startsWith('0x') ? input.trim() : undefined,
+        self: owner,
+        known: [...contacts, ...pastRecipients],
+      })
+    : [];
+  const needsConfirmation = warnings.some(warning => warning.kind === 'lookalike');
+
+  return {
+    input,
+    setInput,
+    status,
+    error,
+    // Only set once the recipient is resolved and, for a lookalike, confirmed
+    address: resolved && (!needsConfirmation || confirmed) ? resolved.address : null,
+    resolvedAddress: resolved?.address ?? null,
+    ensName: resolved?.ensName,
+    contact: resolved ? addressBook?.find(resolved.address) : undefined,
+    warnings,
+    needsConfirmation,
+    confirmed,
+    setConfirmed,
+    contacts,
+    addressBook,
+    reset: () => setInput(''),
+  };
+};
+
+export type RecipientState = ReturnType<typeof useRecipient>;
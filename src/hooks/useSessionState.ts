@@ -0,0 +1,23 @@
+import { useCallback, useRef, useState } from 'react';
+
+// State owned by one session. Under any other session it reads as `initial`, so the previous
+// account's data never renders, and writes tagged with a session that has ended are ignored.
+export const useSessionState = <T>(session: string | null, initial: T) => {
+  const [entry, setEntry] = useState<{ session: string | null; value: T }>({ session, value: initial });
+  const currentSession = useRef(session);
+  currentSession.current = session;
+  const initialValue = useRef(initial);
+
+  // An updater sees the session's current value, or `initial` if nothing was stored for it yet
+  const setValue = useCallback((owner: string | null, value: T | ((previous: T) => T)) => {
+    if (owner !== currentSession.current) return;
+    setEntry(previous => ({
+      session: owner,
+      value: typeof value === 'function'
+        ? (value as (previous: T) => T)(previous.session === owner ? previous.value : initialValue.current)
+        : value,
+    }));
+  }, []);
+
+  return [entry.session === session ? entry.value : initial, setValue] as const;
+};
@@ -0,0 +1,57 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { TrackedTransaction, WalletSession } from '../types';
+import { decodeTxError } from '../utils/txErrors';
+import { getTransactionManager } from '../utils/txManager';
+import toast from 'react-hot-toast';
+
+const NO_TRANSACTIONS: TrackedTransaction[] = [];
+
+// The session's tracked transactions for the pending-transactions tray, with speed-up and cancel
+export const useTransactions = (provider: ethers.BrowserProvider | null, session: WalletSession | null) => {
+  const manager = useMemo(
+    () => (provider && session ? getTransactionManager(provider, session.chainId, session.address) : null),
+    [provider, session]
+  );
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(NO_TRANSACTIONS);
+
+  useEffect(() => {
+    if (!manager) {
+      setTransactions(NO_TRANSACTIONS);
+      return;
+    }
+    setTransactions(manager.getTransactions());
+    return manager.subscribe(() => setTransactions(manager.getTransactions()));
+  }, [manager]);
+
+  const speedUp = async (id: string) => {
+    if (!manager) return;
+    try {
+      await manager.speedUp(id);
+      toast.success('Speed-up sent with higher fees');
+    } catch (error) {
+      console.error('Error speeding up transaction:', error);
+      toast.error(decodeTxError(error, { fallback: 'Failed to speed up the transaction' }).message);
+    }
+  };
+
+  const cancel = async (id: string) => {
+    if (!manager) return;
+    try {
+      await manager.cancel(id);
+      toast.success('Cancellation sent; it takes effect if it is mined first');
+    } catch (error) {
+      console.error('Error cancelling transaction:', error);
+      toast.error(decodeTxError(error, { fallback: 'Failed to cancel the transaction' }).message);
+    }
+  };
+
+  return {
+    transactions,
+    pendingCount: transactions.filter(tx => tx.status === 'pending').length,
+    speedUp,
+    cancel,
+    dismiss: (id: string) => manager?.dismiss(id),
+    clearFinished: () => manager?.clearFinished(),
+  };
+};
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { TransferHistoryFilter, TransferHistoryPage } from '../types';
+import { downloadText } from '../utils/download';
+import { getTransferHistory, transfersToCsv } from '../utils/transferHistory';
+import toast from 'react-hot-toast';
+
+const EMPTY_PAGE: TransferHistoryPage = { transfers: [], total: 0, page: 0, pageCount: 1 };
+
+// One page of the account's on-chain transfer history, with filters and CSV export of every match
+export const useTransferHistory = (
+  provider: ethers.BrowserProvider | null,
+  chainId: number | null,
+  address: string | null,
+  pageSize = 10
+) => {
+  const history = useMemo(
+    () => (provider && chainId !== null && address ? getTransferHistory(provider, chainId, address) : null),
+    [provider, chainId, address]
+  );
+  const [filter, setFilterState] = useState<TransferHistoryFilter>({});
+  const [page, setPage] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  // Bumped on every history change, so the page below is recomputed
+  const [, setVersion] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!history) return;
+    setSyncing(true);
+    try {
+      await history.sync();
+    } catch (error) {
+      console.error('Error syncing transfer history:', error);
+      toast.error('Failed to load transfer history');
+    } finally {
+      setSyncing(false);
+    }
+  }, [history]);
+
+  useEffect(() => {
+    if (!history) return;
+    const unsubscribe = history.subscribe(() => setVersion(version => version + 1));
+    history.load()
+      .catch(error => console.error('Error loading cached transfers:', error))
+      .then(refresh);
+    return unsubscribe;
+  }, [history, refresh]);
+
+  // A new filter starts again from the first page
+  const setFilter = (next: TransferHistoryFilter) => {
+    setFilterState(next);
+    setPage(0);
+  };
+
+  const exportCsv = () => {
+    if (!history || !address) return;
+    downloadText(`eco-transfers-${address.slice(0, 8).toLowerCase()}.csv`, transfersToCsv(history.getTransfers(filter)), 'text/csv');
+  };
+
+  return {
+    ...(history ? history.getPage(filter, page, pageSize) : EMPTY_PAGE),
+    filter,
+    setFilter,
+    setPage,
+    syncing,
+    refresh,
+    exportCsv,
+  };
+};
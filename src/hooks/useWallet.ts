@@ -1,159 +1,216 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { ethers } from 'ethers';
-import { WalletState } from '../types';
-import { SEPOLIA_CHAIN_ID } from '../constants/contract';
+import {
+  GetAccountReturnType,
+  connect,
+  disconnect as disconnectConnector,
+  reconnect,
+  switchChain,
+  watchAccount,
+  watchConnectors,
+} from '@wagmi/core';
+import { WalletOption, WalletState } from '../types';
+import { DEFAULT_CHAIN_ID } from '../constants/networks';
+import { isSupportedChain, requireNetwork } from '../utils/networks';
+import { getWalletOptions, toWalletOption, walletConfig } from '../utils/walletConfig';
+import { createSession, sessionKey } from '../utils/session';
+import { decodeTxError } from '../utils/txErrors';
 import toast from 'react-hot-toast';
 
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
+const EMPTY_WALLET: WalletState = {
+  address: null,
+  balance: '0',
+  tokenBalance: '0',
+  isConnected: false,
+  isConnecting: false,
+  isSwitching: false,
+  chainId: null,
+};
 
 export const useWallet = () => {
-  const [wallet, setWallet] = useState<WalletState>({
-    address: null,
-    balance: '0',
-    tokenBalance: '0',
-    isConnected: false,
-    isConnecting: false,
-    chainId: null,
-  });
-
+  const [wallet, setWallet] = useState<WalletState>(EMPTY_WALLET);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
+  const [wallets, setWallets] = useState<WalletOption[]>(() => getWalletOptions(walletConfig.connectors));
+  const [activeWallet, setActiveWallet] = useState<WalletOption | null>(null);
+  // WalletConnect pairing URI, shown as a QR code until the mobile wallet approves
+  const [pairingUri, setPairingUri] = useState<string | null>(null);
+  // Account updates resolve asynchronously; only the latest one may write state
+  const syncCounter = useRef(0);
+  const currentSession = useRef<string | null>(null);
+  const connectAttempt = useRef(0);
 
   useEffect(() => {
-    checkConnection();
-    setupEventListeners();
+    const unwatchConnectors = watchConnectors(walletConfig, {
+      onChange: connectors => setWallets(getWalletOptions(connectors)),
+    });
+    // Wallets announced between the first render and this subscription are only seen by re-reading
+    setWallets(getWalletOptions(walletConfig.connectors));
+    // Every account or chain change from any connector arrives here
+    const unwatchAccount = watchAccount(walletConfig, { onChange: syncAccount });
+    // Silently restores the connector used last time, if it still has an authorised session
+    reconnect(walletConfig);
+
+    return () => {
+      unwatchConnectors();
+      unwatchAccount();
+    };
   }, []);
 
-  const checkConnection = async () => {
-    if (window.ethereum) {
-      try {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        setProvider(provider);
-        
-        const accounts = await provider.listAccounts();
-        if (accounts.length > 0) {
-          const network = await provider.getNetwork();
-          const balance = await provider.getBalance(accounts[0].address);
-          
-          setWallet({
-            address: accounts[0].address,
-            balance: ethers.formatEther(balance),
-            tokenBalance: '0',
-            isConnected: true,
-            isConnecting: false,
-            chainId: Number(network.chainId),
-          });
-        }
-      } catch (error) {
-        console.error('Error checking connection:', error);
-      }
+  const syncAccount = async (account: GetAccountReturnType) => {
+    const sync = ++syncCounter.current;
+
+    if (account.status === 'disconnected') {
+      currentSession.current = null;
+      setWallet(EMPTY_WALLET);
+      setProvider(null);
+      setActiveWallet(null);
+      return;
     }
-  };
 
-  const setupEventListeners = () => {
-    if (window.ethereum) {
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
+    if (account.status !== 'connected') {
+      setWallet(prev => ({ ...prev, isConnecting: true }));
+      return;
     }
-  };
 
-  const handleAccountsChanged = (accounts: string[]) => {
-    if (accounts.length === 0) {
-      disconnect();
-    } else {
-      checkConnection();
+    // A new account or chain starts from nothing: the old provider and balances are dropped before
+    // anything renders against the new session
+    const session = sessionKey(account.chainId, account.address);
+    if (session !== currentSession.current) {
+      currentSession.current = session;
+      setProvider(null);
+      setWallet({
+        ...EMPTY_WALLET,
+        address: account.address,
+        chainId: account.chainId,
+        isConnected: true,
+        isSwitching: true,
+      });
     }
-  };
 
-  const handleChainChanged = () => {
-    checkConnection();
+    try {
+      const injected = await account.connector.getProvider() as ethers.Eip1193Provider;
+      const provider = new ethers.BrowserProvider(injected);
+      const balance = await provider.getBalance(account.address);
+      if (sync !== syncCounter.current) return;
+
+      setProvider(provider);
+      setActiveWallet(toWalletOption(account.connector));
+      setWallet({
+        address: account.address,
+        balance: ethers.formatEther(balance),
+        tokenBalance: '0',
+        isConnected: true,
+        isConnecting: false,
+        isSwitching: false,
+        chainId: account.chainId,
+      });
+    } catch (error) {
+      console.error('Error checking connection:', error);
+      if (sync === syncCounter.current) {
+        setWallet(prev => ({ ...prev, isSwitching: false }));
+      }
+    }
   };
 
-  const connectWallet = async () => {
-    if (!window.ethereum) {
-      toast.error('MetaMask is not installed. Please install MetaMask to continue.');
+  const connectWallet = async (walletId?: string) => {
+    const connector = walletConfig.connectors.find(item =>
+      walletId ? item.uid === walletId : wallets.length === 1 && item.uid === wallets[0].id
+    );
+    if (!connector) {
+      toast.error(wallets.length === 0
+        ? 'No wallet found. Please install a wallet extension to continue.'
+        : 'Please choose a wallet to connect');
       return;
     }
 
+    const attempt = ++connectAttempt.current;
+    const onMessage = ({ type, data }: { type: string; data?: unknown }) => {
+      if (type === 'display_uri' && attempt === connectAttempt.current) {
+        setPairingUri(data as string);
+      }
+    };
+
     setWallet(prev => ({ ...prev, isConnecting: true }));
+    connector.emitter.on('message', onMessage);
 
     try {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      await provider.send('eth_requestAccounts', []);
-      
-      const network = await provider.getNetwork();
-      if (Number(network.chainId) !== SEPOLIA_CHAIN_ID) {
-        await switchToSepolia();
+      const { chainId } = await connect(walletConfig, { connector });
+      if (attempt !== connectAttempt.current) return;
+
+      if (!isSupportedChain(chainId)) {
+        await switchChain(walletConfig, { chainId: DEFAULT_CHAIN_ID });
       }
-      
-      await checkConnection();
-      toast.success('Wallet connected successfully!');
-    } catch (error: any) {
+      toast.success(`${toWalletOption(connector).name} connected successfully!`);
+    } catch (error) {
+      if (attempt !== connectAttempt.current) return;
       console.error('Error connecting wallet:', error);
-      toast.error(error.message || 'Failed to connect wallet');
+      toast.error(decodeTxError(error, { fallback: 'Failed to connect wallet' }).message);
       setWallet(prev => ({ ...prev, isConnecting: false }));
+    } finally {
+      connector.emitter.off('message', onMessage);
+      if (attempt === connectAttempt.current) {
+        setPairingUri(null);
+      }
     }
   };
 
-  const switchToSepolia = async () => {
+  // Abandons a WalletConnect pairing that the user closed without scanning
+  const cancelPairing = () => {
+    connectAttempt.current++;
+    setPairingUri(null);
+    setWallet(prev => ({ ...prev, isConnecting: false }));
+  };
+
+  // Wallets that do not know the chain yet are asked to add it with the registry's metadata (4902)
+  const switchNetwork = async (chainId: number) => {
+    if (!wallet.isConnected) {
+      toast.error('Please connect your wallet');
+      return;
+    }
+
     try {
-      await window.ethereum.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: `0x${SEPOLIA_CHAIN_ID.toString(16)}` }],
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await window.ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [
-              {
-                chainId: `0x${SEPOLIA_CHAIN_ID.toString(16)}`,
-                chainName: 'Sepolia',
-                nativeCurrency: {
-                  name: 'Sepolia ETH',
-                  symbol: 'ETH',
-                  decimals: 18,
-                },
-                rpcUrls: ['https://sepolia.infura.io/v3/'],
-                blockExplorerUrls: ['https://sepolia.etherscan.io/'],
-              },
-            ],
-          });
-        } catch (addError) {
-          throw new Error('Failed to add Sepolia network');
-        }
-      } else {
-        throw switchError;
-      }
+      await switchChain(walletConfig, { chainId });
+      toast.success(`Switched to ${requireNetwork(chainId).name}`);
+    } catch (error) {
+      console.error('Error switching network:', error);
+      const txError = decodeTxError(error, { fallback: 'Failed to switch network' });
+      toast.error(txError.kind === 'rejected' ? 'Network switch was cancelled' : txError.message);
     }
   };
 
-  const disconnect = () => {
-    setWallet({
-      address: null,
-      balance: '0',
-      tokenBalance: '0',
-      isConnected: false,
-      isConnecting: false,
-      chainId: null,
-    });
+  const disconnect = async () => {
+    try {
+      await disconnectConnector(walletConfig);
+    } catch (error) {
+      console.error('Error disconnecting wallet:', error);
+    }
+    currentSession.current = null;
+    setWallet(EMPTY_WALLET);
     setProvider(null);
+    setActiveWallet(null);
     toast.success('Wallet disconnected');
   };
 
-  const updateTokenBalance = (balance: string) => {
+  const session = useMemo(
+    () => (wallet.isConnected ? createSession(wallet.chainId, wallet.address) : null),
+    [wallet.isConnected, wallet.chainId, wallet.address]
+  );
+
+  const updateTokenBalance = useCallback((balance: string) => {
     setWallet(prev => ({ ...prev, tokenBalance: balance }));
-  };
+  }, []);
 
   return {
     wallet,
+    session,
     provider,
+    wallets,
+    activeWallet,
+    pairingUri,
     connectWallet,
+    cancelPairing,
+    switchNetwork,
     disconnect,
     updateTokenBalance,
   };
-};
\ No newline at end of file
+};
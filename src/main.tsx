@@ -1,10 +1,23 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
-import App from './App.tsx';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+// With VITE_MOCK_CHAIN=true the app runs against the in-process mock chain instead of a real wallet and
+// network. App is imported afterwards because the wallet config reads the supported chains on load.
+async function start() {
+  if (import.meta.env.VITE_MOCK_CHAIN === 'true') {
+    const { installMockChain } = await import('./utils/mockChainHarness');
+    const { runMockChainScenario } = await import('./utils/mockChainScenario');
+    const mockChain = await installMockChain();
+    window.ecoMockChainScenario = () => runMockChainScenario(mockChain);
+  }
+
+  const { default: App } = await import('./App.tsx');
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+}
+
+void start();
@@ -0,0 +1,24 @@
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+
+// vitest's jsdom environment replaces the typed array classes with jsdom's, while Node's crypto and
+// Buffer still build on Node's. ethers checks bytes with instanceof, so the tests use Node's, as the
+// browser and the app's own bundle only ever see one realm.
+const NodeUint8Array = Object.getPrototypeOf(Buffer.prototype).constructor as Uint8ArrayConstructor;
+globalThis.Uint8Array = NodeUint8Array;
+globalThis.ArrayBuffer = new NodeUint8Array(0).buffer.constructor as ArrayBufferConstructor;
+
+// jsdom's Blob and File cannot be streamed, which is how evidence files are encoded for IPFS
+globalThis.Blob = NodeBlob as typeof Blob;
+globalThis.File = NodeFile as unknown as typeof File;
+
+// jsdom evaluates no media queries; toasts ask for prefers-reduced-motion
+if (typeof window !== 'undefined') window.matchMedia = (query: string) => ({
+  matches: false,
+  media: query,
+  onchange: null,
+  addEventListener: () => undefined,
+  removeEventListener: () => undefined,
+  addListener: () => undefined,
+  removeListener: () => undefined,
+  dispatchEvent: () => false,
+});
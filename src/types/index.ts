@@ -19,10 +19,15 @@ export interface User {
 }
 
 export interface RoleChangeEvent {
+  id: string; // `${txHash}:${logIndex}`
   user: string;
   role: string;
+  roleHash: string;
   granted: boolean;
-  timestamp: number;
+  sender: string; // admin who granted or revoked the role
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
 }
 
 export interface WalletState {
@@ -31,5 +36,234 @@ export interface WalletState {
   tokenBalance: string;
   isConnected: boolean;
   isConnecting: boolean;
+  // The wallet moved to another account or chain and the new session is still being set up
+  isSwitching: boolean;
   chainId: number | null;
-}
\ No newline at end of file
+}
+
+// Per-account and per-chain state belongs to one (chainId, address) session
+export interface WalletSession {
+  key: string;
+  chainId: number;
+  address: string;
+}
+
+// A connector the user can sign in with: an injected (EIP-6963) wallet, WalletConnect or the mock wallet
+export interface WalletOption {
+  id: string;
+  name: string;
+  icon?: string;
+  kind: 'injected' | 'walletConnect' | 'mock';
+}
+
+// Fields of an EIP-4361 (Sign-In with Ethereum) message
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+}
+
+export type AuthRole = 'manufacturer' | 'auditor' | 'admin';
+
+// MANUFACTURER_ROLE, AUDITOR_ROLE and DEFAULT_ADMIN_ROLE as read from the token contract
+export type RoleHashes = Record<AuthRole, string>;
+
+// Off-chain session issued by the auth endpoint after a SIWE sign-in, bound to one address and chain
+export interface AuthSession {
+  token: string;
+  address: string;
+  chainId: number;
+  roles: UserRole;
+  expiresAt: number; // unix seconds
+}
+
+export interface IndexedEcoAction extends EcoAction {
+  manufacturer: string;
+  actionId: number;
+  submittedBlock: number;
+  submittedTxHash: string;
+  submittedAt?: number; // block timestamp in seconds
+  verifiedBy?: string;
+  verifiedBlock?: number;
+  creditsIssued?: string;
+}
+
+export interface RoleEventLog {
+  role: string;
+  account: string;
+  sender: string;
+  granted: boolean;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface TransferLog {
+  from: string;
+  to: string;
+  value: string;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export type TransferDirection = 'in' | 'out' | 'self';
+
+// One ECO movement for the connected account, from a token Transfer event
+export interface TransferRecord {
+  id: string; // txHash:logIndex
+  direction: TransferDirection;
+  counterparty: string; // the other side; the zero address for mints and burns
+  from: string;
+  to: string;
+  value: string; // wei
+  gasless: boolean; // relayed through EcoMetaTransfer.transferWithSig
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  timestamp?: number; // block timestamp in seconds
+}
+
+export interface TransferHistoryFilter {
+  counterparty?: string;
+  direction?: TransferDirection;
+  since?: number; // unix seconds, inclusive
+  until?: number; // unix seconds, exclusive
+}
+
+export interface TransferHistoryPage {
+  transfers: TransferRecord[];
+  total: number;
+  page: number; // zero-based
+  pageCount: number;
+}
+
+// A saved recipient; contacts belong to the connected account and apply on every chain
+export interface AddressBookContact {
+  address: string; // EIP-55 checksummed
+  label: string;
+  tags: string[];
+  ensName?: string;
+  addedAt: number;
+}
+
+export type RecipientWarningKind = 'noChecksum' | 'firstTime' | 'lookalike' | 'self';
+
+export interface RecipientWarning {
+  kind: RecipientWarningKind;
+  message: string;
+  // The saved or previously used address a lookalike resembles
+  resembles?: string;
+}
+
+export type BatchItemStatus = 'queued' | 'simulating' | 'signing' | 'submitted' | 'confirmed' | 'failed';
+
+export interface BatchItemProgress {
+  status: BatchItemStatus;
+  txHash?: string;
+  error?: string;
+}
+
+export type TrackedTxStatus = 'pending' | 'confirmed' | 'reverted' | 'replaced' | 'cancelled' | 'dropped';
+
+// A submitted transaction as the transaction manager keeps it; amounts are decimal strings so it stores as JSON
+export interface TrackedTransaction {
+  id: string; // hash of the first submission
+  chainId: number;
+  from: string;
+  purpose: string;
+  params: Record<string, string>;
+  status: TrackedTxStatus;
+  hash: string; // latest submission, or the one that was mined
+  hashes: string[]; // every submission with this nonce, speed-ups and cancellation included
+  cancelHash?: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  submittedAt: number;
+  startBlock: number;
+  blockNumber?: number;
+  error?: string;
+}
+
+export type EmissionScope = 1 | 2 | 3;
+
+export interface EvidenceFile {
+  name: string;
+  cid: string;
+  size: number;
+  mediaType: string;
+}
+
+export interface EvidenceManifest {
+  schema: 'eco-evidence-manifest';
+  version: 1;
+  description: string;
+  methodology: string;
+  reportingPeriod: { start: string; end: string }; // ISO dates (YYYY-MM-DD)
+  emissionScope: EmissionScope;
+  baseline: number;
+  measured: number;
+  unit: string;
+  reductionAmount: number; // tCO2e, same value as submitted on-chain
+  files: EvidenceFile[];
+  location: { site: string; country: string; latitude?: number; longitude?: number };
+  calculation?: EmissionsCalculation; // present when the reduction came from the calculator
+  createdAt: string;
+}
+
+export interface ManifestIssue {
+  path: string;
+  message: string;
+}
+
+export type ManifestState =
+  | { status: 'none' }
+  | { status: 'loading' }
+  | { status: 'unavailable'; error: string }
+  | { status: 'invalid'; issues: ManifestIssue[]; raw: unknown }
+  | { status: 'valid'; manifest: EvidenceManifest };
+
+export type ActivityCategory = 'electricity' | 'fuel' | 'freight';
+
+export interface ActivityLine {
+  category: ActivityCategory;
+  factorKey: string;
+  quantity: number; // kWh, units of fuel, or tonnes shipped for freight
+  distanceKm?: number; // freight only
+  note?: string;
+}
+
+export interface CalculationLine extends ActivityLine {
+  activity: number; // quantity in the factor's unit (tonne-km for freight)
+  unit: string;
+  kgCO2ePerUnit: number;
+  factorSource: string;
+  emissionsKg: number;
+  working: string;
+}
+
+export interface EmissionsScenario {
+  lines: CalculationLine[];
+  totalT: number;
+}
+
+export interface EmissionsCalculation {
+  factorTableVersion: string;
+  baseline: EmissionsScenario;
+  project: EmissionsScenario;
+  reductionT: number;
+}
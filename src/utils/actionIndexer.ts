@@ -0,0 +1,199 @@
+import { ethers } from 'ethers';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { IndexedEcoAction } from '../types';
+import { ChainCache, CachedBlock, openProviderCache, reconcileReorg } from './chainCache';
+import { scanLogs } from './logScanner';
+import { getBatchingRunner } from './multicall';
+import { shareTask } from './sharedTask';
+
+// Builds a local index of eco-actions from EcoActionSubmitted / EcoActionVerified
+// events so panels never have to probe manufacturerActions(address, id) until it reverts.
+
+type Listener = () => void;
+
+export interface ActionIndexer {
+  load: () => Promise<void>;
+  // Callers share one sync, which stops between scan windows once all of their signals have aborted
+  sync: (signal?: AbortSignal) => Promise<void>;
+  getActionsFor: (manufacturer: string) => IndexedEcoAction[];
+  getUnverifiedActions: () => IndexedEcoAction[];
+  getActionsVerifiedBy: (auditor: string) => IndexedEcoAction[];
+  subscribe: (listener: Listener) => () => void;
+}
+
+const CURSOR_NAME = 'actions';
+
+export const actionKey = (manufacturer: string, actionId: number) =>
+  `${manufacturer.toLowerCase()}:${actionId}`;
+
+const sortActions = (actions: IndexedEcoAction[]) =>
+  actions.sort((a, b) => a.submittedBlock - b.submittedBlock || a.actionId - b.actionId);
+
+export function createActionIndexer(
+  provider: ethers.Provider,
+  contractAddress: string
+): ActionIndexer {
+  const contract = connectEcoToken(contractAddress, getBatchingRunner(provider));
+  const actions = new Map<string, IndexedEcoAction>();
+  const listeners = new Set<Listener>();
+  let cachePromise: Promise<ChainCache> | null = null;
+  // The cache's rollback count when the map was last read from it
+  let loadedRollbacks = 0;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const reloadFromCache = async (cache: ChainCache) => {
+    loadedRollbacks = cache.rollbacks;
+    const cached = await cache.getAll('actions');
+    actions.clear();
+    cached.forEach(action => actions.set(actionKey(action.manufacturer, action.actionId), action));
+  };
+
+  // The role and transfer syncs reconcile the same scope, so the rollback may have been theirs, and
+  // may have run while this sync was scanning
+  const reloadIfRolledBack = async (cache: ChainCache) => {
+    if (cache.rollbacks === loadedRollbacks) return;
+    await reloadFromCache(cache);
+    notify();
+  };
+
+  // Reads whatever was indexed in an earlier session, without touching the network for events
+  const load = () => {
+    if (!cachePromise) {
+      cachePromise = openProviderCache(provider, contractAddress).then(async (cache) => {
+        await reloadFromCache(cache);
+        notify();
+        return cache;
+      });
+    }
+    return cachePromise.then(() => undefined);
+  };
+
+  const runSync = async (signal: AbortSignal) => {
+    await load();
+    const cache = await cachePromise!;
+
+    await reconcileReorg(cache, provider);
+    await reloadIfRolledBack(cache);
+
+    const latest = await provider.getBlock('latest');
+    if (!latest || !latest.hash) return;
+
+    await scanLogs({
+      provider,
+      cache,
+      contract,
+      eventNames: ['EcoActionSubmitted', 'EcoActionVerified'],
+      cursor: CURSOR_NAME,
+      toBlock: latest.number,
+      signal,
+      onLogs: async (events) => {
+        const submitted = events.filter(log => log.eventName === 'EcoActionSubmitted');
+        const verified = events.filter(log => log.eventName === 'EcoActionVerified');
+        const changed = new Map<string, IndexedEcoAction>();
+        const seenBlocks: CachedBlock[] = [];
+
+        const submittedBlocks = Array.from(new Set(submitted.map(log => log.blockNumber)));
+        const timestamps = await cache.getBlockTimestamps(provider, submittedBlocks);
+        signal.throwIfAborted();
+
+        // Event payloads carry no description or amount, so read those once per new action
+        await Promise.all(
+          submitted.map(async (log) => {
+            const manufacturer = ethers.getAddress(log.args.manufacturer);
+            const actionId = Number(log.args.actionId);
+            const details = await contract.manufacturerActions(manufacturer, actionId);
+            const key = actionKey(manufacturer, actionId);
+
+            changed.set(key, {
+              ...actions.get(key),
+              manufacturer,
+              actionId,
+              description: details.description,
+              reductionAmount: Number(details.reductionAmount),
+              ipfsHash: log.args.ipfsHash,
+              verified: details.verified || Boolean(actions.get(key)?.verified),
+              submittedBlock: log.blockNumber,
+              submittedTxHash: log.transactionHash,
+              submittedAt: timestamps.get(log.blockNumber),
+            });
+            seenBlocks.push({ number: log.blockNumber, hash: log.blockHash });
+          })
+        );
+
+        signal.throwIfAborted();
+
+        // The verified event does not name the auditor, so take it from the transaction sender
+        await Promise.all(
+          verified.map(async (log) => {
+            const key = actionKey(log.args.manufacturer, Number(log.args.actionId));
+            const existing = changed.get(key) ?? actions.get(key);
+            if (!existing) return;
+
+            const tx = await provider.getTransaction(log.transactionHash);
+            changed.set(key, {
+              ...existing,
+              verified: true,
+              verifiedBy: tx ? ethers.getAddress(tx.from) : undefined,
+              verifiedBlock: log.blockNumber,
+              creditsIssued: log.args.creditsIssued.toString(),
+            });
+            seenBlocks.push({ number: log.blockNumber, hash: log.blockHash });
+          })
+        );
+
+        signal.throwIfAborted();
+        await cache.put('actions', Array.from(changed, ([id, action]) => ({
+          id,
+          blockNumber: action.verifiedBlock ?? action.submittedBlock,
+          record: action,
+        })));
+        await cache.recordBlocks(seenBlocks);
+
+        // Panels fill in window by window during a long first scan
+        changed.forEach((action, key) => actions.set(key, action));
+        if (changed.size > 0) notify();
+      },
+    });
+    await cache.recordBlocks([{ number: latest.number, hash: latest.hash, timestamp: latest.timestamp }]);
+    await reloadIfRolledBack(cache);
+  };
+
+  const sync = shareTask(runSync);
+
+  const all = () => Array.from(actions.values());
+
+  return {
+    load,
+    sync,
+    getActionsFor: (manufacturer) =>
+      sortActions(all().filter(action => action.manufacturer.toLowerCase() === manufacturer.toLowerCase())),
+    getUnverifiedActions: () => sortActions(all().filter(action => !action.verified)),
+    getActionsVerifiedBy: (auditor) =>
+      sortActions(all().filter(action => action.verifiedBy?.toLowerCase() === auditor.toLowerCase())),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// One indexer per contract so every panel shares the same synced state. A new
+// provider (e.g. after a reconnect) gets a fresh indexer that resumes from the cache.
+const indexers = new Map<string, { provider: ethers.Provider; indexer: ActionIndexer }>();
+
+export function getActionIndexer(
+  provider: ethers.Provider,
+  contractAddress: string
+): ActionIndexer {
+  const key = contractAddress.toLowerCase();
+  const cached = indexers.get(key);
+  if (cached && cached.provider === provider) {
+    return cached.indexer;
+  }
+  const indexer = createActionIndexer(provider, contractAddress);
+  indexers.set(key, { provider, indexer });
+  return indexer;
+}
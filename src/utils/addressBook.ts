@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+import { AddressBookContact } from '../types';
+
+// Saved recipients of the connected account, kept in localStorage and shared by every transfer form.
+// Contacts can be exported and imported as JSON (the stored shape) or CSV (address,label,tags,ensName
+// with tags separated by ";").
+
+type Listener = () => void;
+
+export type AddressBookFormat = 'json' | 'csv';
+
+export interface AddressBookImport {
+  added: number;
+  updated: number;
+  // Rows without a valid address
+  skipped: number;
+}
+
+export interface AddressBook {
+  getContacts: () => AddressBookContact[];
+  find: (address: string) => AddressBookContact | undefined;
+  // Adds the contact or replaces the one with the same address
+  save: (contact: Omit<AddressBookContact, 'addedAt'>) => AddressBookContact;
+  remove: (address: string) => void;
+  importContacts: (text: string, format: AddressBookFormat) => AddressBookImport;
+  exportContacts: (format: AddressBookFormat) => string;
+  subscribe: (listener: Listener) => () => void;
+}
+
+const CSV_HEADER = ['address', 'label', 'tags', 'ensName'];
+
+const storageKey = (owner: string) => `eco-address-book:${owner.toLowerCase()}`;
+
+const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+
+// Splits one CSV line, honouring double-quoted fields with "" escapes
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Contacts as loosely typed rows from either format, before validation
+type ContactRow = { address?: unknown; label?: unknown; tags?: unknown; ensName?: unknown };
+
+function parseRows(text: string, format: AddressBookFormat): ContactRow[] {
+  if (format === 'json') {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error('Expected a JSON array of contacts');
+    return parsed as ContactRow[];
+  }
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const header = lines.length > 0 ? parseCsvLine(lines[0]).map(name => name.toLowerCase()) : [];
+  const hasHeader = header.includes('address');
+  const columns = hasHeader ? header : CSV_HEADER.map(name => name.toLowerCase());
+  return lines.slice(hasHeader ? 1 : 0).map(line => {
+    const fields = parseCsvLine(line);
+    const value = (name: string) => fields[columns.indexOf(name.toLowerCase())];
+    return { address: value('address'), label: value('label'), tags: value('tags')?.split(';'), ensName: value('ensName') };
+  });
+}
+
+export function createAddressBook(owner: string): AddressBook {
+  const listeners = new Set<Listener>();
+  let contacts: AddressBookContact[] = [];
+
+  if (typeof localStorage !== 'undefined') {
+    try {
+      const stored = localStorage.getItem(storageKey(owner));
+      contacts = stored ? (JSON.parse(stored) as AddressBookContact[]) : [];
+    } catch (error) {
+      console.error('Error reading the address book:', error);
+    }
+  }
+
+  const persist = () => {
+    contacts.sort((a, b) => a.label.localeCompare(b.label));
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(storageKey(owner), JSON.stringify(contacts));
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  const find = (address: string) => contacts.find(contact => contact.address.toLowerCase() === address.toLowerCase());
+
+  const upsert = (contact: Omit<AddressBookContact, 'addedAt'>) => {
+    const existing = find(contact.address);
+    const saved: AddressBookContact = {
+      address: ethers.getAddress(contact.address.toLowerCase()),
+      label: contact.label.trim() || existing?.label || '',
+      tags: normalizeTags(contact.tags),
+      ensName: contact.ensName || undefined,
+      addedAt: existing?.addedAt ?? Date.now(),
+    };
+    contacts = [...contacts.filter(candidate => candidate !== existing), saved];
+    return { saved, isNew: !existing };
+  };
+
+  return {
+    getContacts: () => contacts,
+    find,
+    save: (contact) => {
+      const { saved } = upsert(contact);
+      persist();
+      return saved;
+    },
+    remove: (address) => {
+      contacts = contacts.filter(contact => contact.address.toLowerCase() !== address.toLowerCase());
+      persist();
+    },
+    importContacts: (text, format) => {
+      const result: AddressBookImport = { added: 0, updated: 0, skipped: 0 };
+      parseRows(text, format).forEach(row => {
+        const address = typeof row.address === 'string' ? row.address.trim() : '';
+        // A mistyped checksum is as likely to be a wrong address as in a form, so such rows are skipped too
+        if (!ethers.isAddress(address)) {
+          result.skipped++;
+          return;
+        }
+        const { isNew } = upsert({
+          address,
+          label: typeof row.label === 'string' ? row.label : '',
+          tags: Array.isArray(row.tags) ? row.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+          ensName: typeof row.ensName === 'string' ? row.ensName : undefined,
+        });
+        if (isNew) result.added++;
+        else result.updated++;
+      });
+      persist();
+      return result;
+    },
+    exportContacts: (format) => {
+      if (format === 'json') return JSON.stringify(contacts, null, 2);
+      const rows = contacts.map(contact => [contact.address, contact.label, contact.tags.join(';'), contact.ensName ?? '']);
+      return [CSV_HEADER, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// One book per account, so a contact saved in one form shows up in the others straight away
+const books = new Map<string, AddressBook>();
+
+export function getAddressBook(owner: string): AddressBook {
+  const key = owner.toLowerCase();
+  let book = books.get(key);
+  if (!book) {
+    book = createAddressBook(owner);
+    books.set(key, book);
+  }
+  return book;
+}
@@ -0,0 +1,35 @@
+import { AuthSession } from '../types';
+import { sessionKey } from './session';
+
+// SIWE sessions are stored per wallet session, so switching account or chain never sends
+// another account's token. Expired tokens are dropped on read.
+
+const storageKey = (chainId: number, address: string) => `eco-auth:${sessionKey(chainId, address)}`;
+
+export function loadAuthSession(chainId: number | null, address: string | null): AuthSession | null {
+  if (chainId === null || !address || typeof localStorage === 'undefined') return null;
+  const key = storageKey(chainId, address);
+  try {
+    const stored = localStorage.getItem(key);
+    const session = stored ? (JSON.parse(stored) as AuthSession) : null;
+    if (session && session.expiresAt > Date.now() / 1000) return session;
+  } catch (error) {
+    console.error('Error reading sign-in session:', error);
+  }
+  localStorage.removeItem(key);
+  return null;
+}
+
+export function saveAuthSession(session: AuthSession) {
+  localStorage.setItem(storageKey(session.chainId, session.address), JSON.stringify(session));
+}
+
+export function clearAuthSession(chainId: number, address: string) {
+  localStorage.removeItem(storageKey(chainId, address));
+}
+
+// Headers for calls to endpoints that may require a signed-in session
+export const authHeaders = (chainId: number | null, address: string | null): Record<string, string> => {
+  const session = loadAuthSession(chainId, address);
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { IndexedEcoAction, RoleEventLog } from '../types';
+import { ChainCache, openChainCache, readThrough, reconcileReorg } from './chainCache';
+
+// Runs on the in-memory backend, since node has no IndexedDB. Every test opens its own scope.
+
+let scopes = 0;
+const openCache = () => openChainCache(31337, ethers.zeroPadValue(ethers.toBeHex(++scopes), 20));
+
+const hashOf = (number: number, fork = '') => ethers.id(`block ${number}${fork}`);
+
+// Answers getBlock from a chain whose blocks from forkFrom on have different hashes
+const chainProvider = (forkFrom = Infinity) => ({
+  getBlock: async (number: number) => ({ number, hash: hashOf(number, number >= forkFrom ? 'reorged' : '') }),
+}) as unknown as ethers.Provider;
+
+const recordChain = (cache: ChainCache, numbers: number[]) =>
+  cache.recordBlocks(numbers.map(number => ({ number, hash: hashOf(number) })));
+
+const roleLog = (blockNumber: number): RoleEventLog => ({
+  role: ethers.ZeroHash,
+  account: ethers.ZeroAddress,
+  sender: ethers.ZeroAddress,
+  granted: true,
+  blockNumber,
+  txHash: ethers.id(`tx ${blockNumber}`),
+  logIndex: 0,
+});
+
+const action = (actionId: number, submittedBlock: number, verifiedBlock?: number): IndexedEcoAction => ({
+  manufacturer: ethers.ZeroAddress,
+  actionId,
+  description: `Action ${actionId}`,
+  reductionAmount: 1,
+  ipfsHash: '',
+  verified: verifiedBlock !== undefined,
+  submittedBlock,
+  submittedTxHash: ethers.id(`submit ${actionId}`),
+  verifiedBlock,
+  verifiedBy: verifiedBlock !== undefined ? ethers.ZeroAddress : undefined,
+  creditsIssued: verifiedBlock !== undefined ? '1' : undefined,
+});
+
+describe('chainCache', () => {
+  it('finds no reorg while every recorded hash matches', async () => {
+    const cache = await openCache();
+    await recordChain(cache, [10, 20, 30]);
+    expect(await cache.detectReorg(chainProvider())).toBeNull();
+  });
+
+  it('reports the lowest changed block and the highest block that still matched', async () => {
+    const cache = await openCache();
+    await recordChain(cache, [10, 20, 30, 40]);
+    // The fork is somewhere in 21..30, where no block was recorded
+    expect(await cache.detectReorg(chainProvider(25))).toEqual({ forkBlock: 30, safeBlock: 20 });
+  });
+
+  it('falls back to the newest block below the check depth when nothing checked matched', async () => {
+    const cache = await openCache();
+    const numbers = Array.from({ length: 20 }, (_, index) => 100 + index);
+    await recordChain(cache, numbers);
+    // The 16 newest are checked: 104..119
+    expect(await cache.detectReorg(chainProvider(0))).toEqual({ forkBlock: 104, safeBlock: 103 });
+  });
+
+  it('starts over when nothing matched and no older block is recorded', async () => {
+    const cache = await openCache();
+    await recordChain(cache, [5, 6]);
+    expect(await cache.detectReorg(chainProvider(0))).toEqual({ forkBlock: 5, safeBlock: -1 });
+  });
+
+  it('rolls records and cursors back to the safe block', async () => {
+    const cache = await openCache();
+    await recordChain(cache, [10, 20, 30]);
+    await cache.put('roles', [10, 20, 25, 30].map(block => ({ id: `r${block}`, blockNumber: block, record: roleLog(block) })));
+    await cache.put('actions', [
+      { id: 'a1', blockNumber: 15, record: action(1, 10, 15) },
+      { id: 'a2', blockNumber: 25, record: action(2, 12, 25) },
+      { id: 'a3', blockNumber: 22, record: action(3, 22) },
+    ]);
+    await cache.putValue('balance', '7', 28);
+    await cache.setCursor('roles', 30);
+    await cache.setCursor('older', 18);
+
+    expect(await reconcileReorg(cache, chainProvider(25))).toEqual({ forkBlock: 30, safeBlock: 20 });
+
+    expect((await cache.getAll('roles')).map(log => log.blockNumber)).toEqual([10, 20]);
+    expect((await cache.getAll('blocks')).map(block => block.number)).toEqual([10, 20]);
+    expect(await cache.getValue('balance')).toBeUndefined();
+    // A verification after the safe block is undone, a submission after it is dropped
+    const actions = await cache.getAll('actions');
+    expect(actions.map(entry => [entry.actionId, entry.verified])).toEqual([[1, true], [2, false]]);
+    expect(actions[1].verifiedBy).toBeUndefined();
+    expect(await cache.getCursor('roles')).toBe(20);
+    expect(await cache.getCursor('older')).toBe(18);
+  });
+
+  it('counts rollbacks so other readers of the scope can reload', async () => {
+    const cache = await openCache();
+    const before = cache.rollbacks;
+    await cache.rollback(5);
+    expect(cache.rollbacks).toBe(before + 1);
+  });
+
+  it('keeps a known timestamp when the block is seen again without one', async () => {
+    const cache = await openCache();
+    await cache.recordBlocks([{ number: 7, hash: hashOf(7), timestamp: 1_700_000_000 }]);
+    await cache.recordBlocks([{ number: 7, hash: hashOf(7) }]);
+    const provider = { getBlock: async () => { throw new Error('not cached'); } } as unknown as ethers.Provider;
+    expect(await cache.getBlockTimestamp(provider, 7)).toBe(1_700_000_000);
+  });
+
+  it('serves the cached value first, then the fresh one', async () => {
+    const cache = await openCache();
+    await cache.putValue('supply', 1, 1);
+    const provider = { getBlockNumber: async () => 2 } as unknown as ethers.Provider;
+    const seen: number[] = [];
+
+    expect(await readThrough(cache, provider, 'supply', async () => 2, value => seen.push(value))).toBe(2);
+    expect(seen).toEqual([1, 2]);
+    expect(await cache.getValue('supply')).toEqual({ value: 2, blockNumber: 2 });
+  });
+});
@@ -0,0 +1,340 @@
+import { ethers } from 'ethers';
+import { IndexedEcoAction, RoleEventLog, TransferLog } from '../types';
+
+// Persistent cache for chain data, scoped per (chainId, contract address).
+// Every record carries the block it came from so a reorg can be rolled back.
+
+export interface CachedBlock {
+  number: number;
+  hash: string;
+  timestamp?: number;
+}
+
+// Where cached data stops agreeing with the chain. Blocks without logs are never recorded, so the
+// fork itself lies somewhere after safeBlock and at or before forkBlock
+export interface ReorgPoint {
+  // Lowest recorded block whose hash changed
+  forkBlock: number;
+  // Highest recorded block whose hash still matched; everything after it is rolled back
+  safeBlock: number;
+}
+
+export interface CachedValue<T = unknown> {
+  value: T;
+  blockNumber: number;
+}
+
+interface StoreRecords {
+  actions: IndexedEcoAction;
+  roles: RoleEventLog;
+  transfers: TransferLog;
+  blocks: CachedBlock;
+  values: CachedValue;
+  cursors: number;
+}
+
+type StoreName = keyof StoreRecords;
+
+interface Entry<S extends StoreName> {
+  scope: string;
+  id: string;
+  blockNumber: number;
+  record: StoreRecords[S];
+}
+
+const STORES: StoreName[] = ['actions', 'roles', 'transfers', 'blocks', 'values', 'cursors'];
+const DB_NAME = 'eco-chain-cache';
+const DB_VERSION = 1;
+const REORG_CHECK_DEPTH = 16;
+// Blocks fetched side by side when resolving timestamps; ethers sends each round as one JSON-RPC batch
+const BLOCK_BATCH_SIZE = 20;
+
+// Minimal storage backend so the cache also works where IndexedDB is missing
+interface Backend {
+  getAll: <S extends StoreName>(store: S, scope: string) => Promise<Entry<S>[]>;
+  get: <S extends StoreName>(store: S, scope: string, id: string) => Promise<Entry<S> | undefined>;
+  put: <S extends StoreName>(store: S, entries: Entry<S>[]) => Promise<void>;
+  remove: (store: StoreName, scope: string, ids: string[]) => Promise<void>;
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      STORES.forEach(store => {
+        if (!db.objectStoreNames.contains(store)) {
+          const objectStore = db.createObjectStore(store, { keyPath: ['scope', 'id'] });
+          objectStore.createIndex('scope', 'scope');
+        }
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function createIndexedDbBackend(db: IDBDatabase): Backend {
+  return {
+    getAll: (store, scope) =>
+      request(db.transaction(store).objectStore(store).index('scope').getAll(scope)),
+    get: (store, scope, id) =>
+      request(db.transaction(store).objectStore(store).get([scope, id])),
+    put: async (store, entries) => {
+      if (entries.length === 0) return;
+      const tx = db.transaction(store, 'readwrite');
+      const objectStore = tx.objectStore(store);
+      entries.forEach(entry => objectStore.put(entry));
+      await transactionDone(tx);
+    },
+    remove: async (store, scope, ids) => {
+      if (ids.length === 0) return;
+      const tx = db.transaction(store, 'readwrite');
+      const objectStore = tx.objectStore(store);
+      ids.forEach(id => objectStore.delete([scope, id]));
+      await transactionDone(tx);
+    },
+  };
+}
+
+function createMemoryBackend(): Backend {
+  const data = new Map<string, Map<string, Entry<StoreName>>>();
+  const table = (store: StoreName, scope: string) => {
+    const key = `${store}|${scope}`;
+    if (!data.has(key)) data.set(key, new Map());
+    return data.get(key)!;
+  };
+
+  return {
+    getAll: async <S extends StoreName>(store: S, scope: string) =>
+      Array.from(table(store, scope).values()) as Entry<S>[],
+    get: async <S extends StoreName>(store: S, scope: string, id: string) =>
+      table(store, scope).get(id) as Entry<S> | undefined,
+    put: async (store, entries) => {
+      entries.forEach(entry => table(store, entry.scope).set(entry.id, entry as Entry<StoreName>));
+    },
+    remove: async (store, scope, ids) => {
+      ids.forEach(id => table(store, scope).delete(id));
+    },
+  };
+}
+
+let backendPromise: Promise<Backend> | null = null;
+
+const getBackend = (): Promise<Backend> => {
+  if (!backendPromise) {
+    backendPromise = typeof indexedDB === 'undefined'
+      ? Promise.resolve(createMemoryBackend())
+      : openDatabase()
+          .then(createIndexedDbBackend)
+          .catch((error) => {
+            console.error('IndexedDB unavailable, using in-memory cache:', error);
+            return createMemoryBackend();
+          });
+  }
+  return backendPromise;
+};
+
+export interface ChainCache {
+  scope: string;
+  getAll: <S extends Exclude<StoreName, 'cursors' | 'values'>>(store: S) => Promise<StoreRecords[S][]>;
+  put: <S extends Exclude<StoreName, 'cursors' | 'values'>>(
+    store: S,
+    items: { id: string; blockNumber: number; record: StoreRecords[S] }[]
+  ) => Promise<void>;
+  getValue: <T>(id: string) => Promise<CachedValue<T> | undefined>;
+  putValue: <T>(id: string, value: T, blockNumber: number) => Promise<void>;
+  getCursor: (name: string) => Promise<number | undefined>;
+  setCursor: (name: string, blockNumber: number) => Promise<void>;
+  recordBlocks: (blocks: CachedBlock[]) => Promise<void>;
+  getBlockTimestamp: (provider: ethers.Provider, blockNumber: number) => Promise<number>;
+  getBlockTimestamps: (provider: ethers.Provider, blockNumbers: number[]) => Promise<Map<number, number>>;
+  detectReorg: (provider: ethers.Provider) => Promise<ReorgPoint | null>;
+  // Drops everything after safeBlock and moves the cursors back to it
+  rollback: (safeBlock: number) => Promise<void>;
+  // Bumped by every rollback of the scope, whichever reader ran it, so in-memory copies can tell they are stale
+  readonly rollbacks: number;
+}
+
+function createChainCache(backend: Backend, scope: string): ChainCache {
+  const recordBlocks = async (blocks: CachedBlock[]) => {
+    // Keep a known timestamp if this sighting of the block only has its hash; only those blocks are read back
+    const known = await Promise.all(blocks.map(block =>
+      block.timestamp === undefined ? backend.get('blocks', scope, String(block.number)) : undefined));
+    await backend.put('blocks', blocks.map((block, index) => ({
+      scope,
+      id: String(block.number),
+      blockNumber: block.number,
+      record: { ...block, timestamp: block.timestamp ?? known[index]?.record.timestamp },
+    })));
+  };
+
+  let rollbacks = 0;
+
+  const rollback = async (safeBlock: number) => {
+    for (const store of ['roles', 'transfers', 'blocks', 'values'] as const) {
+      const stale = (await backend.getAll(store, scope)).filter(entry => entry.blockNumber > safeBlock);
+      await backend.remove(store, scope, stale.map(entry => entry.id));
+    }
+
+    // Actions survive a reorg of their verification, so only undo what happened after the safe block
+    const actions = await backend.getAll('actions', scope);
+    const removed = actions.filter(entry => entry.record.submittedBlock > safeBlock);
+    const unverified = actions
+      .filter(entry => entry.record.submittedBlock <= safeBlock && (entry.record.verifiedBlock ?? -1) > safeBlock)
+      .map(entry => ({
+        ...entry,
+        blockNumber: entry.record.submittedBlock,
+        record: {
+          ...entry.record,
+          verified: false,
+          verifiedBy: undefined,
+          verifiedBlock: undefined,
+          creditsIssued: undefined,
+        },
+      }));
+    await backend.remove('actions', scope, removed.map(entry => entry.id));
+    await backend.put('actions', unverified);
+
+    const cursors = await backend.getAll('cursors', scope);
+    await backend.put('cursors', cursors
+      .filter(entry => entry.record > safeBlock)
+      .map(entry => ({ ...entry, blockNumber: safeBlock, record: safeBlock })));
+    rollbacks += 1;
+  };
+
+  return {
+    scope,
+    getAll: async (store) => (await backend.getAll(store, scope)).map(entry => entry.record),
+    put: (store, items) =>
+      backend.put(store, items.map(item => ({ scope, ...item }))),
+    getValue: async <T>(id: string) =>
+      (await backend.get('values', scope, id))?.record as CachedValue<T> | undefined,
+    putValue: (id, value, blockNumber) =>
+      backend.put('values', [{ scope, id, blockNumber, record: { value, blockNumber } }]),
+    getCursor: async (name) => (await backend.get('cursors', scope, name))?.record,
+    setCursor: (name, blockNumber) =>
+      backend.put('cursors', [{ scope, id: name, blockNumber, record: blockNumber }]),
+    recordBlocks,
+    getBlockTimestamp: async (provider, blockNumber) => {
+      const cached = await backend.get('blocks', scope, String(blockNumber));
+      if (cached?.record.timestamp !== undefined) {
+        return cached.record.timestamp;
+      }
+      const block = await provider.getBlock(blockNumber);
+      if (!block || !block.hash) throw new Error(`Block ${blockNumber} not found`);
+      await recordBlocks([{ number: block.number, hash: block.hash, timestamp: block.timestamp }]);
+      return block.timestamp;
+    },
+    getBlockTimestamps: async (provider, blockNumbers) => {
+      const timestamps = new Map<number, number>();
+      const missing: number[] = [];
+      for (const blockNumber of new Set(blockNumbers)) {
+        const cached = await backend.get('blocks', scope, String(blockNumber));
+        if (cached?.record.timestamp !== undefined) {
+          timestamps.set(blockNumber, cached.record.timestamp);
+        } else {
+          missing.push(blockNumber);
+        }
+      }
+
+      for (let start = 0; start < missing.length; start += BLOCK_BATCH_SIZE) {
+        const blocks = await Promise.all(
+          missing.slice(start, start + BLOCK_BATCH_SIZE).map(blockNumber => provider.getBlock(blockNumber))
+        );
+        const found = blocks.filter((block): block is ethers.Block => !!block && !!block.hash);
+        await recordBlocks(found.map(block => ({ number: block.number, hash: block.hash!, timestamp: block.timestamp })));
+        found.forEach(block => timestamps.set(block.number, block.timestamp));
+      }
+      return timestamps;
+    },
+    detectReorg: async (provider) => {
+      const known = (await backend.getAll('blocks', scope))
+        .map(entry => entry.record)
+        .sort((a, b) => b.number - a.number);
+
+      // Walk back from the newest known block until a hash still matches the chain
+      let forkBlock: number | null = null;
+      for (const block of known.slice(0, REORG_CHECK_DEPTH)) {
+        const current = await provider.getBlock(block.number);
+        if (current && current.hash === block.hash) {
+          return forkBlock === null ? null : { forkBlock, safeBlock: block.number };
+        }
+        forkBlock = block.number;
+      }
+      if (forkBlock === null) return null;
+      // Nothing checked still matched: trust the newest block below the check depth, or start over
+      return { forkBlock, safeBlock: known[REORG_CHECK_DEPTH]?.number ?? -1 };
+    },
+    rollback,
+    get rollbacks() {
+      return rollbacks;
+    },
+  };
+}
+
+const caches = new Map<string, Promise<ChainCache>>();
+
+export const cacheScope = (chainId: number, contractAddress: string) =>
+  `${chainId}:${contractAddress.toLowerCase()}`;
+
+export async function openChainCache(chainId: number, contractAddress: string): Promise<ChainCache> {
+  const scope = cacheScope(chainId, contractAddress);
+  let cache = caches.get(scope);
+  if (!cache) {
+    cache = getBackend().then(backend => createChainCache(backend, scope));
+    caches.set(scope, cache);
+  }
+  return cache;
+}
+
+export async function openProviderCache(provider: ethers.Provider, contractAddress: string): Promise<ChainCache> {
+  const network = await provider.getNetwork();
+  return openChainCache(Number(network.chainId), contractAddress);
+}
+
+// Check the cached block hashes against the chain and undo anything past the last block that matched
+export async function reconcileReorg(cache: ChainCache, provider: ethers.Provider): Promise<ReorgPoint | null> {
+  const reorg = await cache.detectReorg(provider);
+  if (reorg) {
+    console.warn(`Chain reorg detected at block ${reorg.forkBlock}, rolling cached data back to block ${reorg.safeBlock}`);
+    await cache.rollback(reorg.safeBlock);
+  }
+  return reorg;
+}
+
+// Serves a cached value straight away, then refreshes it from the chain in the background
+export async function readThrough<T>(
+  cache: ChainCache,
+  provider: ethers.Provider,
+  id: string,
+  fetchValue: () => Promise<T>,
+  onValue: (value: T) => void,
+  // Once aborted, neither the cached nor the fresh value reaches onValue; rejects with the signal's reason
+  signal?: AbortSignal
+): Promise<T> {
+  const cached = await cache.getValue<T>(id);
+  signal?.throwIfAborted();
+  if (cached) {
+    onValue(cached.value);
+  }
+
+  const [value, blockNumber] = await Promise.all([fetchValue(), provider.getBlockNumber()]);
+  await cache.putValue(id, value, blockNumber);
+  signal?.throwIfAborted();
+  onValue(value);
+  return value;
+}
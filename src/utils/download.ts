@@ -0,0 +1,9 @@
+// Hands generated text (CSV, JSON) to the browser as a file download
+export function downloadText(filename: string, text: string, mediaType: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mediaType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
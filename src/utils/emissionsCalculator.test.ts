@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityLine } from '../types';
+import { EMISSION_FACTOR_TABLE_VERSION } from '../constants/emissionFactors';
+import { calculateEmissions, calculateLine, verifyCalculation } from './emissionsCalculator';
+
+const BASELINE: ActivityLine[] = [
+  { category: 'electricity', factorKey: 'grid-de', quantity: 10_000 },
+  { category: 'fuel', factorKey: 'fuel-diesel', quantity: 500 },
+];
+const PROJECT: ActivityLine[] = [
+  { category: 'electricity', factorKey: 'grid-fr', quantity: 10_000 },
+  { category: 'freight', factorKey: 'freight-rail', quantity: 20, distanceKm: 150 },
+];
+
+describe('emissionsCalculator', () => {
+  it('works out each line with its factor and a readable working', () => {
+    expect(calculateLine(BASELINE[0])).toMatchObject({
+      activity: 10_000,
+      unit: 'kWh',
+      kgCO2ePerUnit: 0.38,
+      factorSource: 'UBA 2023',
+      emissionsKg: 3800,
+      working: '10,000 kWh × 0.38 kgCO2e/kWh = 3,800 kgCO2e',
+    });
+    expect(calculateLine(PROJECT[1])).toMatchObject({
+      activity: 3000,
+      unit: 'tkm',
+      emissionsKg: 84,
+      working: '20 t × 150 km = 3,000 tkm × 0.028 kgCO2e/tkm = 84 kgCO2e',
+    });
+  });
+
+  it('derives the reduction from the baseline and project totals', () => {
+    const calculation = calculateEmissions(BASELINE, PROJECT);
+
+    expect(calculation.factorTableVersion).toBe(EMISSION_FACTOR_TABLE_VERSION);
+    expect(calculation.baseline.totalT).toBe(5.13);
+    expect(calculation.project.totalT).toBe(0.644);
+    expect(calculation.reductionT).toBe(4.486);
+  });
+
+  it('refuses unknown factors, negative quantities and a missing baseline', () => {
+    expect(() => calculateLine({ category: 'fuel', factorKey: 'fuel-hydrogen', quantity: 1 }))
+      .toThrow('Unknown fuel emission factor "fuel-hydrogen"');
+    expect(() => calculateLine({ category: 'fuel', factorKey: 'fuel-diesel', quantity: -1 }))
+      .toThrow('Quantity for Diesel must be a non-negative number');
+    expect(() => calculateLine({ category: 'freight', factorKey: 'freight-road', quantity: 1 }))
+      .toThrow('Distance for Road (HGV, average laden) must be a non-negative number');
+    expect(() => calculateEmissions([], PROJECT)).toThrow('Add at least one baseline activity line');
+  });
+
+  it('verifies a calculation it made itself', () => {
+    expect(verifyCalculation(calculateEmissions(BASELINE, PROJECT))).toEqual([]);
+  });
+
+  it('reports every figure that does not recompute', () => {
+    const calculation = calculateEmissions(BASELINE, PROJECT);
+    calculation.baseline.lines[1].emissionsKg = 1500;
+    calculation.reductionT = 10;
+
+    expect(verifyCalculation(calculation)).toEqual([
+      { path: 'baseline.lines[1].emissionsKg', message: 'Stated 1500 kgCO2e, recomputed 1330 kgCO2e' },
+      { path: 'reductionT', message: 'Stated 10 tCO2e, recomputed 4.486 tCO2e' },
+    ]);
+  });
+
+  it('checks factors against the current table only', () => {
+    const calculation = calculateEmissions(BASELINE, PROJECT);
+    const line = calculation.project.lines[0];
+    line.kgCO2ePerUnit = 0.01;
+    line.emissionsKg = 100;
+    calculation.project.totalT = 0.184;
+    calculation.reductionT = 4.946;
+
+    expect(verifyCalculation(calculation)).toEqual([
+      { path: 'project.lines[0].kgCO2ePerUnit', message: `Factor does not match table ${EMISSION_FACTOR_TABLE_VERSION}` },
+    ]);
+    expect(verifyCalculation({ ...calculation, factorTableVersion: '2023.2' })).toEqual([]);
+  });
+
+  it('rejects malformed calculations', () => {
+    expect(verifyCalculation(null)).toEqual([{ path: '', message: 'Calculation must be an object' }]);
+    expect(verifyCalculation({ baseline: { lines: [{ category: 'water' }], totalT: 0 } })).toEqual([
+      { path: 'baseline.lines[0]', message: 'Unknown activity category' },
+      { path: 'project', message: 'Scenario lines are missing' },
+    ]);
+  });
+});
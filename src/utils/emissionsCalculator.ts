@@ -0,0 +1,168 @@
+import {
+  ActivityCategory,
+  ActivityLine,
+  CalculationLine,
+  EmissionsCalculation,
+  EmissionsScenario,
+  ManifestIssue,
+} from '../types';
+import {
+  EmissionFactor,
+  EMISSION_FACTOR_TABLE_VERSION,
+  GRID_ELECTRICITY_FACTORS,
+  FUEL_FACTORS,
+  FREIGHT_FACTORS,
+} from '../constants/emissionFactors';
+
+// Turns baseline and project activity data into tCO2e. Every line keeps its inputs, the factor
+// it used and a readable working, so an auditor can redo the arithmetic from the manifest alone.
+
+export const FACTOR_TABLES: Record<ActivityCategory, Record<string, EmissionFactor>> = {
+  electricity: GRID_ELECTRICITY_FACTORS,
+  fuel: FUEL_FACTORS,
+  freight: FREIGHT_FACTORS,
+};
+
+export const ACTIVITY_CATEGORIES: { value: ActivityCategory; label: string }[] = [
+  { value: 'electricity', label: 'Grid electricity' },
+  { value: 'fuel', label: 'Fuel combustion' },
+  { value: 'freight', label: 'Freight transport' },
+];
+
+// Rounding slack when comparing recomputed values with stored ones
+const KG_TOLERANCE = 0.001;
+const T_TOLERANCE = 0.001;
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+const roundTo = (value: number, digits: number) => {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+};
+
+const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+export const getEmissionFactor = (category: ActivityCategory, factorKey: string): EmissionFactor | undefined =>
+  FACTOR_TABLES[category]?.[factorKey];
+
+// Works out a single line with the given factor; used both for new lines and for recomputation
+const evaluateLine = (line: ActivityLine, factor: Pick<EmissionFactor, 'unit' | 'kgCO2ePerUnit' | 'source'>): CalculationLine => {
+  const isFreight = line.category === 'freight';
+  const activity = isFreight ? line.quantity * (line.distanceKm ?? 0) : line.quantity;
+  const emissionsKg = roundTo(activity * factor.kgCO2ePerUnit, 3);
+
+  const activityWorking = isFreight
+    ? `${formatNumber(line.quantity)} t × ${formatNumber(line.distanceKm ?? 0)} km = ${formatNumber(activity)} tkm`
+    : `${formatNumber(activity)} ${factor.unit}`;
+
+  return {
+    ...line,
+    activity,
+    unit: factor.unit,
+    kgCO2ePerUnit: factor.kgCO2ePerUnit,
+    factorSource: factor.source,
+    emissionsKg,
+    working: `${activityWorking} × ${formatNumber(factor.kgCO2ePerUnit)} kgCO2e/${factor.unit} = ${formatNumber(emissionsKg)} kgCO2e`,
+  };
+};
+
+export function calculateLine(line: ActivityLine): CalculationLine {
+  const factor = getEmissionFactor(line.category, line.factorKey);
+  if (!factor) {
+    throw new Error(`Unknown ${line.category} emission factor "${line.factorKey}"`);
+  }
+  if (!isNonNegative(line.quantity)) {
+    throw new Error(`Quantity for ${factor.label} must be a non-negative number`);
+  }
+  if (line.category === 'freight' && !isNonNegative(line.distanceKm)) {
+    throw new Error(`Distance for ${factor.label} must be a non-negative number`);
+  }
+  return evaluateLine(line, factor);
+}
+
+const sumScenario = (lines: CalculationLine[]): EmissionsScenario => ({
+  lines,
+  totalT: roundTo(lines.reduce((total, line) => total + line.emissionsKg, 0) / 1000, 3),
+});
+
+export function calculateEmissions(baseline: ActivityLine[], project: ActivityLine[]): EmissionsCalculation {
+  if (baseline.length === 0) {
+    throw new Error('Add at least one baseline activity line');
+  }
+  const baselineScenario = sumScenario(baseline.map(calculateLine));
+  const projectScenario = sumScenario(project.map(calculateLine));
+
+  return {
+    factorTableVersion: EMISSION_FACTOR_TABLE_VERSION,
+    baseline: baselineScenario,
+    project: projectScenario,
+    reductionT: roundTo(baselineScenario.totalT - projectScenario.totalT, 3),
+  };
+}
+
+// Recomputes a stored calculation from its own inputs and factors and reports every mismatch
+export function verifyCalculation(calculation: unknown): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (typeof calculation !== 'object' || calculation === null) {
+    return [{ path: '', message: 'Calculation must be an object' }];
+  }
+  const stored = calculation as Partial<EmissionsCalculation>;
+  const sameTable = stored.factorTableVersion === EMISSION_FACTOR_TABLE_VERSION;
+
+  const checkScenario = (name: 'baseline' | 'project') => {
+    const scenario = stored[name];
+    if (!scenario || !Array.isArray(scenario.lines)) {
+      issue(name, 'Scenario lines are missing');
+      return null;
+    }
+
+    let totalKg = 0;
+    scenario.lines.forEach((line, index) => {
+      const path = `${name}.lines[${index}]`;
+      if (!line || !FACTOR_TABLES[line.category]) {
+        issue(path, 'Unknown activity category');
+        return;
+      }
+      if (!isNonNegative(line.quantity) || (line.category === 'freight' && !isNonNegative(line.distanceKm))) {
+        issue(path, 'Activity quantities must be non-negative numbers');
+        return;
+      }
+      if (!isNonNegative(line.kgCO2ePerUnit)) {
+        issue(`${path}.kgCO2ePerUnit`, 'Emission factor is missing');
+        return;
+      }
+
+      // Factors from an older table are taken as stored; only the current table can be checked
+      const current = getEmissionFactor(line.category, line.factorKey);
+      if (sameTable && (!current || current.kgCO2ePerUnit !== line.kgCO2ePerUnit)) {
+        issue(`${path}.kgCO2ePerUnit`, `Factor does not match table ${EMISSION_FACTOR_TABLE_VERSION}`);
+      }
+
+      const expected = evaluateLine(line, { unit: line.unit, kgCO2ePerUnit: line.kgCO2ePerUnit, source: line.factorSource });
+      if (Math.abs(expected.emissionsKg - line.emissionsKg) > KG_TOLERANCE) {
+        issue(`${path}.emissionsKg`, `Stated ${line.emissionsKg} kgCO2e, recomputed ${expected.emissionsKg} kgCO2e`);
+      }
+      totalKg += expected.emissionsKg;
+    });
+
+    const totalT = roundTo(totalKg / 1000, 3);
+    if (typeof scenario.totalT !== 'number' || Math.abs(totalT - scenario.totalT) > T_TOLERANCE) {
+      issue(`${name}.totalT`, `Stated ${scenario.totalT} tCO2e, recomputed ${totalT} tCO2e`);
+    }
+    return totalT;
+  };
+
+  const baselineT = checkScenario('baseline');
+  const projectT = checkScenario('project');
+  if (baselineT !== null && projectT !== null) {
+    const reductionT = roundTo(baselineT - projectT, 3);
+    if (typeof stored.reductionT !== 'number' || Math.abs(reductionT - stored.reductionT) > T_TOLERANCE) {
+      issue('reductionT', `Stated ${stored.reductionT} tCO2e, recomputed ${reductionT} tCO2e`);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,69 @@
+import { ethers } from 'ethers';
+import { ENS_RESOLVER } from '../constants/networks';
+
+// Forward (name -> address) and reverse (address -> name) ENS lookups through the resolver configured
+// in ENS_RESOLVER, falling back to the wallet's provider. Answers are cached for a few minutes, since
+// the picker looks the same name up on every keystroke pause.
+
+const CACHE_TTL_MS = 5 * 60_000;
+
+const forwardCache = new Map<string, { address: string | null; expiresAt: number }>();
+const reverseCache = new Map<string, { name: string | null; expiresAt: number }>();
+
+let configuredProvider: ethers.JsonRpcProvider | null = null;
+
+function resolverProvider(fallback: ethers.Provider): ethers.Provider {
+  if (!ENS_RESOLVER.rpcUrl) return fallback;
+  if (!configuredProvider) {
+    // Known chains come with ethers' ENS plugin; a custom registry needs a network without one
+    const network = ENS_RESOLVER.registry
+      ? new ethers.Network('ens', ENS_RESOLVER.chainId).attachPlugin(new ethers.EnsPlugin(ENS_RESOLVER.registry, ENS_RESOLVER.chainId))
+      : ethers.Network.from(ENS_RESOLVER.chainId);
+    configuredProvider = new ethers.JsonRpcProvider(ENS_RESOLVER.rpcUrl, network, { staticNetwork: network });
+  }
+  return configuredProvider;
+}
+
+// "alice.eth", "pay.alice.eth"; anything with a dot that is not hex
+export const isEnsName = (value: string) => /^[^\s.]+(\.[^\s.]+)+$/.test(value.trim()) && !value.trim().startsWith('0x');
+
+// Resolves to the checksummed address, or null when the name has none. Throws when ENS cannot be
+// reached at all, so the caller can tell "no such name" from "cannot look names up here".
+export async function resolveEnsName(name: string, fallback: ethers.Provider): Promise<string | null> {
+  const key = ethers.ensNormalize(name.trim());
+  const cached = forwardCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.address;
+
+  let address: string | null;
+  try {
+    address = await resolverProvider(fallback).resolveName(key);
+  } catch (error) {
+    if (ethers.isError(error, 'UNSUPPORTED_OPERATION')) {
+      throw new Error('ENS names cannot be resolved on this network. Set VITE_ENS_RPC_URL to enable them');
+    }
+    throw error;
+  }
+  const checksummed = address ? ethers.getAddress(address) : null;
+  forwardCache.set(key, { address: checksummed, expiresAt: Date.now() + CACHE_TTL_MS });
+  return checksummed;
+}
+
+// The primary name of an address, only if it resolves back to the same address. Never throws: a
+// missing name is shown the same way as an unreachable resolver.
+export async function lookupEnsName(address: string, fallback: ethers.Provider): Promise<string | null> {
+  const key = address.toLowerCase();
+  const cached = reverseCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.name;
+
+  let name: string | null = null;
+  try {
+    // ethers checks the forward record before returning the name
+    name = await resolverProvider(fallback).lookupAddress(address);
+  } catch (error) {
+    if (!ethers.isError(error, 'UNSUPPORTED_OPERATION')) {
+      console.warn(`Reverse ENS lookup failed for ${address}:`, error);
+    }
+  }
+  reverseCache.set(key, { name, expiresAt: Date.now() + CACHE_TTL_MS });
+  return name;
+}
@@ -0,0 +1,142 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { EvidenceManifest } from '../types';
+import { calculateEmissions } from './emissionsCalculator';
+import { fileCid, fetchFromIpfs, PinningAdapter } from './ipfs';
+import { loadManifest, ManifestDraft, uploadManifestBundle, validateManifest, validateManifestDraft } from './evidenceManifest';
+
+// Gateway reads come from here instead of the network
+vi.mock('./ipfs', async importOriginal => ({
+  ...(await importOriginal<typeof import('./ipfs')>()),
+  fetchFromIpfs: vi.fn(),
+}));
+
+const DRAFT: ManifestDraft = {
+  description: 'Replaced the diesel generator with a grid connection',
+  methodology: 'GHG Protocol, location-based',
+  reportingPeriod: { start: '2024-01-01', end: '2024-12-31' },
+  emissionScope: 1,
+  baseline: 12.5,
+  measured: 4.25,
+  unit: 'tCO2e',
+  reductionAmount: 8.25,
+  location: { site: 'Plant 3', country: 'DE', latitude: 52.52, longitude: 13.4 },
+};
+
+const report = new File(['%PDF-1.4 audit report'], 'report.pdf', { type: 'application/pdf' });
+let manifest: EvidenceManifest;
+
+beforeAll(async () => {
+  manifest = {
+    schema: 'eco-evidence-manifest',
+    version: 1,
+    ...DRAFT,
+    files: [{ name: report.name, cid: await fileCid(report), size: report.size, mediaType: report.type }],
+    createdAt: '2025-01-15T09:30:00.000Z',
+  };
+});
+
+const paths = (value: unknown) => validateManifest(value).map(issue => issue.path);
+
+describe('evidenceManifest', () => {
+  it('accepts a complete manifest', () => {
+    expect(validateManifest(manifest)).toEqual([]);
+  });
+
+  it('does not report field by field on other documents', () => {
+    expect(validateManifest('report.pdf')).toEqual([{ path: '', message: 'Manifest must be a JSON object' }]);
+    expect(validateManifest({ ...manifest, schema: 'other' })).toEqual([
+      { path: 'schema', message: 'Not an eco-evidence-manifest document' },
+    ]);
+  });
+
+  it('names every missing or malformed field', () => {
+    expect(paths({
+      ...manifest,
+      version: 2,
+      description: ' ',
+      reportingPeriod: { start: '2024-12-31', end: '2024-01-01' },
+      emissionScope: 4,
+      unit: 'tons',
+      files: [{ name: 'report.pdf', cid: 'not-a-cid', size: -1 }],
+      location: { site: 'Plant 3', country: '', latitude: 91 },
+      createdAt: 'yesterday',
+    })).toEqual([
+      'version',
+      'description',
+      'reportingPeriod',
+      'emissionScope',
+      'unit',
+      'files[0].cid',
+      'files[0].size',
+      'files[0].mediaType',
+      'location.country',
+      'location.latitude',
+      'createdAt',
+    ]);
+    expect(paths({ ...manifest, files: [] })).toEqual(['files']);
+  });
+
+  it('requires the reduction to follow from baseline and measured emissions', () => {
+    expect(validateManifest({ ...manifest, reductionAmount: 9 })).toEqual([{
+      path: 'reductionAmount',
+      message: 'Reduction 9 tCO2e does not match baseline - measured (8.25 tCO2e)',
+    }]);
+    expect(validateManifest({ ...manifest, unit: 'kgCO2e', baseline: 12_500, measured: 4250 })).toEqual([]);
+    // Activity units cannot be converted, so any positive reduction is taken as stated
+    expect(validateManifest({ ...manifest, unit: 'MWh', baseline: 100, measured: 60 })).toEqual([]);
+  });
+
+  it('checks a stored calculation and ties it to the headline figures', () => {
+    const calculation = calculateEmissions(
+      [{ category: 'fuel', factorKey: 'fuel-diesel', quantity: 5000 }],
+      [{ category: 'electricity', factorKey: 'grid-de', quantity: 10_000 }]
+    );
+    const calculated = { ...manifest, calculation, baseline: 13.3, measured: 3.8, reductionAmount: 9.5 };
+
+    expect(validateManifest(calculated)).toEqual([]);
+    expect(validateManifest({ ...calculated, baseline: 14.3, reductionAmount: 10.5 })).toEqual([
+      { path: 'calculation', message: 'Baseline and measured values must be the calculated tCO2e totals' },
+    ]);
+    expect(paths({ ...calculated, calculation: { ...calculation, reductionT: 1 } })).toEqual(['calculation.reductionT']);
+  });
+
+  it('validates a draft before there are files', () => {
+    expect(validateManifestDraft(DRAFT)).toEqual([]);
+    expect(validateManifestDraft({ ...DRAFT, methodology: '' })).toEqual([
+      { path: 'methodology', message: 'Methodology is required' },
+    ]);
+  });
+
+  it('pins the files and manifest.json as one bundle', async () => {
+    const pinned: string[] = [];
+    const adapter: PinningAdapter = { name: 'test', pinCar: async (_car, rootCid) => void pinned.push(rootCid) };
+
+    const uploaded = await uploadManifestBundle(DRAFT, [report], adapter);
+
+    expect(pinned).toEqual([uploaded.bundleCid]);
+    expect(uploaded.manifest.files).toEqual(manifest.files);
+    const stored = new File([JSON.stringify(uploaded.manifest, null, 2)], 'manifest.json', { type: 'application/json' });
+    expect(uploaded.manifestCid).toBe(await fileCid(stored));
+  });
+
+  it('refuses to pin an invalid manifest', async () => {
+    const pinCar = vi.fn();
+
+    await expect(uploadManifestBundle({ ...DRAFT, reductionAmount: 0 }, [report], { name: 'test', pinCar }))
+      .rejects.toThrow('Invalid manifest: reductionAmount Reduction must be a positive number of tCO2e');
+    expect(pinCar).not.toHaveBeenCalled();
+  });
+
+  it('loads manifests by CID and retries after a gateway failure', async () => {
+    const fetch = vi.mocked(fetchFromIpfs);
+    const cid = manifest.files[0].cid;
+    fetch.mockRejectedValueOnce(new Error('Gateway timeout'));
+    fetch.mockResolvedValueOnce(new TextEncoder().encode(JSON.stringify(manifest)));
+
+    expect(await loadManifest('QmNotACid')).toEqual({ status: 'none' });
+    expect(await loadManifest(cid)).toEqual({ status: 'unavailable', error: 'Gateway timeout' });
+    expect(await loadManifest(cid)).toEqual({ status: 'valid', manifest });
+    expect(await loadManifest(cid)).toEqual({ status: 'valid', manifest });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,226 @@
+import { EmissionScope, EmissionsCalculation, EvidenceManifest, ManifestIssue, ManifestState } from '../types';
+import { verifyCalculation } from './emissionsCalculator';
+import {
+  PinningAdapter,
+  getPinningAdapter,
+  packEvidence,
+  fileCid,
+  uniqueFileNames,
+  validateEvidenceFiles,
+  fetchFromIpfs,
+  isCid,
+} from './ipfs';
+
+// Versioned evidence manifest for eco-actions. The manifest is stored as manifest.json next to the
+// evidence files in one pinned bundle, and the manifest's own CID is what goes on-chain as ipfsHash.
+
+export const MANIFEST_SCHEMA = 'eco-evidence-manifest';
+export const MANIFEST_VERSION = 1;
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+export const MANIFEST_UNITS = ['tCO2e', 'kgCO2e', 'MWh', 'kWh', 'GJ', 'L', 'm3', 'kg', 't', 'tkm'];
+export const EMISSION_SCOPES: { value: EmissionScope; label: string }[] = [
+  { value: 1, label: 'Scope 1 - direct emissions' },
+  { value: 2, label: 'Scope 2 - purchased energy' },
+  { value: 3, label: 'Scope 3 - value chain' },
+];
+
+// Reduction has to follow from baseline - measured when both are already emissions
+const CO2E_FACTORS: Record<string, number> = { tCO2e: 1, kgCO2e: 0.001 };
+const REDUCTION_TOLERANCE = 0.01;
+
+export type ManifestDraft = Omit<EvidenceManifest, 'schema' | 'version' | 'files' | 'createdAt'>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+export function validateManifest(value: unknown): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isRecord(value)) {
+    return [{ path: '', message: 'Manifest must be a JSON object' }];
+  }
+
+  // Anything else on IPFS (e.g. a bare evidence folder) is not worth a field-by-field report
+  if (value.schema !== MANIFEST_SCHEMA) {
+    return [{ path: 'schema', message: `Not an ${MANIFEST_SCHEMA} document` }];
+  }
+  if (value.version !== MANIFEST_VERSION) issue('version', `Unsupported version ${String(value.version)}`);
+  if (!isNonEmptyString(value.description)) issue('description', 'Description is required');
+  if (!isNonEmptyString(value.methodology)) issue('methodology', 'Methodology is required');
+
+  const period = value.reportingPeriod;
+  if (!isRecord(period)) {
+    issue('reportingPeriod', 'Reporting period is required');
+  } else {
+    if (!isIsoDate(period.start)) issue('reportingPeriod.start', 'Start must be a YYYY-MM-DD date');
+    if (!isIsoDate(period.end)) issue('reportingPeriod.end', 'End must be a YYYY-MM-DD date');
+    if (isIsoDate(period.start) && isIsoDate(period.end) && period.start > period.end) {
+      issue('reportingPeriod', 'Start must not be after end');
+    }
+  }
+
+  if (![1, 2, 3].includes(value.emissionScope as number)) issue('emissionScope', 'Scope must be 1, 2 or 3');
+
+  if (!isFiniteNumber(value.baseline) || value.baseline < 0) issue('baseline', 'Baseline must be a non-negative number');
+  if (!isFiniteNumber(value.measured) || value.measured < 0) issue('measured', 'Measured value must be a non-negative number');
+  if (!MANIFEST_UNITS.includes(value.unit as string)) issue('unit', `Unit must be one of ${MANIFEST_UNITS.join(', ')}`);
+
+  if (!isFiniteNumber(value.reductionAmount) || value.reductionAmount <= 0) {
+    issue('reductionAmount', 'Reduction must be a positive number of tCO2e');
+  } else if (isFiniteNumber(value.baseline) && isFiniteNumber(value.measured) && typeof value.unit === 'string') {
+    const factor = CO2E_FACTORS[value.unit];
+    const derived = factor !== undefined ? (value.baseline - value.measured) * factor : null;
+    if (derived !== null && Math.abs(derived - value.reductionAmount) > REDUCTION_TOLERANCE) {
+      issue('reductionAmount', `Reduction ${value.reductionAmount} tCO2e does not match baseline - measured (${derived.toFixed(2)} tCO2e)`);
+    }
+  }
+
+  if (!Array.isArray(value.files) || value.files.length === 0) {
+    issue('files', 'At least one evidence file is required');
+  } else {
+    value.files.forEach((file, index) => {
+      if (!isRecord(file)) {
+        issue(`files[${index}]`, 'File entry must be an object');
+        return;
+      }
+      if (!isNonEmptyString(file.name)) issue(`files[${index}].name`, 'File name is required');
+      if (!isNonEmptyString(file.cid) || !isCid(file.cid)) issue(`files[${index}].cid`, 'File CID is not a valid CID');
+      if (!isFiniteNumber(file.size) || file.size < 0) issue(`files[${index}].size`, 'File size must be a number');
+      if (typeof file.mediaType !== 'string') issue(`files[${index}].mediaType`, 'Media type must be a string');
+    });
+  }
+
+  const location = value.location;
+  if (!isRecord(location)) {
+    issue('location', 'Site location is required');
+  } else {
+    if (!isNonEmptyString(location.site)) issue('location.site', 'Site name is required');
+    if (!isNonEmptyString(location.country)) issue('location.country', 'Country is required');
+    if (location.latitude !== undefined && (!isFiniteNumber(location.latitude) || Math.abs(location.latitude) > 90)) {
+      issue('location.latitude', 'Latitude must be between -90 and 90');
+    }
+    if (location.longitude !== undefined && (!isFiniteNumber(location.longitude) || Math.abs(location.longitude) > 180)) {
+      issue('location.longitude', 'Longitude must be between -180 and 180');
+    }
+  }
+
+  // A stored calculation has to add up on its own and agree with the headline figures
+  if (value.calculation !== undefined) {
+    const calculationIssues = verifyCalculation(value.calculation);
+    calculationIssues.forEach(item => issue(item.path ? `calculation.${item.path}` : 'calculation', item.message));
+
+    const calculation = value.calculation as EmissionsCalculation;
+    if (calculationIssues.length === 0 && (
+      value.unit !== 'tCO2e'
+      || Math.abs(Number(value.baseline) - calculation.baseline.totalT) > REDUCTION_TOLERANCE
+      || Math.abs(Number(value.measured) - calculation.project.totalT) > REDUCTION_TOLERANCE
+    )) {
+      issue('calculation', 'Baseline and measured values must be the calculated tCO2e totals');
+    }
+  }
+
+  if (!isNonEmptyString(value.createdAt) || Number.isNaN(Date.parse(value.createdAt))) {
+    issue('createdAt', 'Creation time must be an ISO timestamp');
+  }
+
+  return issues;
+}
+
+// Checks the form fields before any file is hashed or uploaded; files are validated separately
+export function validateManifestDraft(draft: ManifestDraft): ManifestIssue[] {
+  return validateManifest({
+    schema: MANIFEST_SCHEMA,
+    version: MANIFEST_VERSION,
+    ...draft,
+    files: [],
+    createdAt: new Date().toISOString(),
+  }).filter(issue => issue.path !== 'files');
+}
+
+export interface UploadedManifest {
+  manifest: EvidenceManifest;
+  manifestCid: string;
+  bundleCid: string;
+}
+
+// Validates the draft, links every file by CID and pins files + manifest.json as one bundle
+export async function uploadManifestBundle(
+  draft: ManifestDraft,
+  files: File[],
+  adapter: PinningAdapter = getPinningAdapter()
+): Promise<UploadedManifest> {
+  const problem = validateEvidenceFiles(files);
+  if (problem) throw new Error(problem);
+
+  const named = uniqueFileNames(files, [MANIFEST_FILE_NAME]);
+  const manifest: EvidenceManifest = {
+    schema: MANIFEST_SCHEMA,
+    version: MANIFEST_VERSION,
+    ...draft,
+    files: await Promise.all(named.map(async (file) => ({
+      name: file.name,
+      cid: await fileCid(file),
+      size: file.size,
+      mediaType: file.type,
+    }))),
+    createdAt: new Date().toISOString(),
+  };
+
+  const issues = validateManifest(manifest);
+  if (issues.length > 0) {
+    throw new Error(`Invalid manifest: ${issues.map(item => `${item.path} ${item.message}`).join('; ')}`);
+  }
+
+  const manifestFile = new File([JSON.stringify(manifest, null, 2)], MANIFEST_FILE_NAME, { type: 'application/json' });
+  const [manifestCid, packed] = await Promise.all([
+    fileCid(manifestFile),
+    packEvidence([...named, manifestFile]),
+  ]);
+  await adapter.pinCar(packed.car, packed.cid);
+
+  return { manifest, manifestCid, bundleCid: packed.cid };
+}
+
+// Manifests are content-addressed, so a fetched result never goes stale
+const manifestCache = new Map<string, Promise<ManifestState>>();
+
+export function loadManifest(ipfsHash: string): Promise<ManifestState> {
+  if (!isCid(ipfsHash)) {
+    return Promise.resolve({ status: 'none' });
+  }
+
+  let state = manifestCache.get(ipfsHash);
+  if (!state) {
+    state = fetchFromIpfs(ipfsHash)
+      .then((bytes): ManifestState => {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(new TextDecoder().decode(bytes));
+        } catch {
+          return { status: 'invalid', issues: [{ path: '', message: 'Evidence is not a JSON manifest' }], raw: null };
+        }
+        const issues = validateManifest(parsed);
+        return issues.length > 0
+          ? { status: 'invalid', issues, raw: parsed }
+          : { status: 'valid', manifest: parsed as EvidenceManifest };
+      })
+      .catch((error): ManifestState => {
+        // Let a later render retry a gateway failure
+        manifestCache.delete(ipfsHash);
+        return { status: 'unavailable', error: error instanceof Error ? error.message : String(error) };
+      });
+    manifestCache.set(ipfsHash, state);
+  }
+  return state;
+}
@@ -1,4 +1,6 @@
 import { ethers } from 'ethers';
+import { DEFAULT_CHAIN_ID } from '../constants/networks';
+import { getMetaTransferAddress } from './networks';
 
 // Test the gasless transfer data structure
 export interface GaslessTransferData {
@@ -10,26 +12,6 @@ export interface GaslessTransferData {
   signature: string;
 }
 
-// EcoMetaTransfer contract address
-const ECO_META_CONTRACT = "0xB4E765140cefB7E14B97899Ab573C1e27b5E12b6";
-
-// EIP-712 Domain and Types
-const DOMAIN = {
-  name: "EcoMetaTransfer",
-  version: "1",
-  chainId: 11155111, // Sepolia
-  verifyingContract: ECO_META_CONTRACT,
-};
-
-const TYPES = {
-  Transfer: [
-    { name: "from", type: "address" },
-    { name: "to", type: "address" },
-    { name: "amount", type: "uint256" },
-    { name: "nonce", type: "uint256" },
-    { name: "deadline", type: "uint256" },
-  ],
-};
 
 export function validateGaslessTransferData(data: GaslessTransferData): {
   isValid: boolean;
@@ -141,7 +123,7 @@ export async function testGaslessTransfer() {
   console.log("\n📝 Environment Variables Check:");
   console.log("RPC_URL:", process.env.RPC_URL ? "✅ Set" : "❌ Not set");
   console.log("RELAYER_PRIVATE_KEY:", process.env.RELAYER_PRIVATE_KEY ? "✅ Set" : "❌ Not set");
-  console.log("ECO_META_CONTRACT:", ECO_META_CONTRACT);
+  console.log("ECO_META_CONTRACT:", getMetaTransferAddress(Number(process.env.RELAY_CHAIN_ID || DEFAULT_CHAIN_ID)));
 }
 
 // Example usage in browser console or Node.js
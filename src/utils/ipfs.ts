@@ -0,0 +1,173 @@
+import { createDirectoryEncoderStream, createFileEncoderStream, CAREncoderStream, Block } from 'ipfs-car';
+import { CID } from 'multiformats/cid';
+import * as raw from 'multiformats/codecs/raw';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { equals } from 'multiformats/bytes';
+import { IPFS_API_URL, IPFS_API_TOKEN, IPFS_GATEWAY_URL, EVIDENCE_MAX_FILE_SIZE } from '../constants/ipfs';
+
+// Evidence files are packed into a UnixFS directory in the browser, so the CID is known
+// before anything leaves the machine. The resulting CAR is then handed to a pinning adapter.
+
+export interface PackedEvidence {
+  cid: string;
+  car: Blob;
+  files: { name: string; size: number; type: string }[];
+}
+
+export interface PinningAdapter {
+  name: string;
+  pinCar: (car: Blob, rootCid: string) => Promise<void>;
+}
+
+const ALLOWED_TYPES = ['application/pdf', 'text/csv'];
+const ALLOWED_EXTENSIONS = ['.pdf', '.csv'];
+
+const isAllowedFile = (file: File) =>
+  file.type.startsWith('image/')
+  || ALLOWED_TYPES.includes(file.type)
+  || ALLOWED_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+
+// Returns a user-facing problem with the selection, or null when it can be uploaded
+export function validateEvidenceFiles(files: File[]): string | null {
+  if (files.length === 0) return 'Attach at least one evidence file';
+  const unsupported = files.find(file => !isAllowedFile(file));
+  if (unsupported) return `${unsupported.name} is not a PDF, image or CSV file`;
+  const tooLarge = files.find(file => file.size > EVIDENCE_MAX_FILE_SIZE);
+  if (tooLarge) return `${tooLarge.name} is larger than ${EVIDENCE_MAX_FILE_SIZE / (1024 * 1024)} MB`;
+  return null;
+}
+
+// Two files with the same name would overwrite each other inside the directory
+const uniqueName = (name: string, taken: Set<string>) => {
+  if (!taken.has(name)) return name;
+  const dot = name.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let counter = 2;
+  while (taken.has(`${base} (${counter})${extension}`)) counter++;
+  return `${base} (${counter})${extension}`;
+};
+
+// Gives every file a distinct name, keeping clear of names that are already reserved
+export function uniqueFileNames(files: File[], reserved: string[] = []): File[] {
+  const taken = new Set(reserved);
+  return files.map(file => {
+    const name = uniqueName(file.name, taken);
+    taken.add(name);
+    return name === file.name ? file : new File([file], name, { type: file.type });
+  });
+}
+
+const collectBlocks = async (stream: ReadableStream<Block>) => {
+  const blocks: Block[] = [];
+  await stream.pipeTo(new WritableStream<Block>({ write: (block) => { blocks.push(block); } }));
+  return blocks;
+};
+
+// CID of a single file, the same one it gets as a link inside a packed directory
+export async function fileCid(file: Blob): Promise<string> {
+  const blocks = await collectBlocks(createFileEncoderStream(file));
+  return blocks[blocks.length - 1].cid.toString();
+}
+
+export async function packEvidence(files: File[]): Promise<PackedEvidence> {
+  const entries = uniqueFileNames(files).map(file => ({ name: file.name, file }));
+  const blocks = await collectBlocks(
+    createDirectoryEncoderStream(entries.map(({ name, file }) => ({ name, stream: () => file.stream() })))
+  );
+
+  // The directory node is always written last
+  const root = blocks[blocks.length - 1].cid;
+  const carStream = new ReadableStream<Block>({
+    start: (controller) => {
+      blocks.forEach(block => controller.enqueue(block));
+      controller.close();
+    },
+  }).pipeThrough(new CAREncoderStream([root]));
+
+  return {
+    cid: root.toString(),
+    car: await new Response(carStream).blob(),
+    files: entries.map(({ name, file }) => ({ name, size: file.size, type: file.type })),
+  };
+}
+
+// Any node or service exposing the Kubo RPC API (a local node, a hosted gateway or the stand-in)
+export function createKuboPinningAdapter(apiUrl: string = IPFS_API_URL, token: string = IPFS_API_TOKEN): PinningAdapter {
+  return {
+    name: 'kubo',
+    pinCar: async (car, rootCid) => {
+      const body = new FormData();
+      body.append('file', car, `${rootCid}.car`);
+
+      const response = await fetch(`${apiUrl.replace(/\/$/, '')}/api/v0/dag/import?pin-roots=true`, {
+        method: 'POST',
+        body,
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+      if (!response.ok) {
+        throw new Error(`IPFS upload failed (${response.status}): ${await response.text()}`);
+      }
+
+      // dag/import answers with one JSON object per line, one of them per pinned root
+      const results = (await response.text())
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+      const root = results.find(result => result.Root?.Cid?.['/'] === rootCid)?.Root;
+      if (!root) {
+        throw new Error(`IPFS node did not confirm root ${rootCid}`);
+      }
+      if (root.PinErrorMsg) {
+        throw new Error(`IPFS node could not pin ${rootCid}: ${root.PinErrorMsg}`);
+      }
+    },
+  };
+}
+
+let pinningAdapter: PinningAdapter = createKuboPinningAdapter();
+
+export const getPinningAdapter = () => pinningAdapter;
+
+export const setPinningAdapter = (adapter: PinningAdapter) => {
+  pinningAdapter = adapter;
+};
+
+export async function uploadEvidence(files: File[], adapter: PinningAdapter = pinningAdapter): Promise<PackedEvidence> {
+  const problem = validateEvidenceFiles(files);
+  if (problem) throw new Error(problem);
+
+  const packed = await packEvidence(files);
+  await adapter.pinCar(packed.car, packed.cid);
+  return packed;
+}
+
+// Older submissions stored a keccak hash here, which no gateway can resolve
+export function isCid(value: string): boolean {
+  try {
+    CID.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const ipfsGatewayUrl = (cid: string, path?: string) =>
+  `${IPFS_GATEWAY_URL.replace(/\/$/, '')}/ipfs/${cid}${path ? `/${encodeURIComponent(path)}` : ''}`;
+
+export async function fetchFromIpfs(cid: string): Promise<Uint8Array> {
+  const response = await fetch(ipfsGatewayUrl(cid));
+  if (!response.ok) {
+    throw new Error(`Gateway returned ${response.status} for ${cid}`);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  // Small files are a single raw block, so the gateway's answer can be checked against the CID itself
+  const parsed = CID.parse(cid);
+  if (parsed.code === raw.code && parsed.multihash.code === sha256.code) {
+    const digest = await sha256.digest(bytes);
+    if (!equals(digest.bytes, parsed.multihash.bytes)) {
+      throw new Error(`Gateway returned content that does not match ${cid}`);
+    }
+  }
+  return bytes;
+}
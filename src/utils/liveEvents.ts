@@ -0,0 +1,73 @@
+import { ethers } from 'ethers';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { getNetwork } from './networks';
+
+// Watches the token contract for the events that change what the panels show. Uses the network's
+// WebSocket endpoint when one is configured, otherwise the wallet provider polls with
+// eth_getFilterChanges. Events arriving close together are handed over as one batch.
+
+export type LiveEventName = 'Transfer' | 'RoleGranted' | 'RoleRevoked' | 'EcoActionSubmitted' | 'EcoActionVerified';
+
+export interface LiveEvent {
+  name: LiveEventName;
+  args: ethers.Result;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+const LIVE_EVENT_NAMES: LiveEventName[] = ['Transfer', 'RoleGranted', 'RoleRevoked', 'EcoActionSubmitted', 'EcoActionVerified'];
+const BATCH_DELAY_MS = 300;
+// Enough to drop the repeats a WebSocket reconnect or an overlapping poll can deliver
+const SEEN_LIMIT = 500;
+
+export function subscribeContractEvents(
+  provider: ethers.Provider,
+  contractAddress: string,
+  chainId: number,
+  onEvents: (events: LiveEvent[]) => void
+): () => void {
+  const wsUrl = getNetwork(chainId)?.wsUrl;
+  const socket = wsUrl ? new ethers.WebSocketProvider(wsUrl, chainId) : null;
+  const contract = connectEcoToken(contractAddress, socket ?? provider);
+
+  let pending: LiveEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const seen = new Set<string>();
+  let stopped = false;
+
+  const flush = () => {
+    timer = null;
+    const events = pending.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    pending = [];
+    if (!stopped && events.length > 0) onEvents(events);
+  };
+
+  const listeners = LIVE_EVENT_NAMES.map(name => {
+    const listener = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ethers.ContractEventPayload;
+      const log = payload.log;
+      const id = `${log.transactionHash}:${log.index}`;
+      if (seen.has(id)) return;
+      seen.add(id);
+      if (seen.size > SEEN_LIMIT) seen.delete(seen.values().next().value as string);
+
+      pending.push({ name, args: payload.args, blockNumber: log.blockNumber, txHash: log.transactionHash, logIndex: log.index });
+      if (!timer) timer = setTimeout(flush, BATCH_DELAY_MS);
+    };
+    return { name, listener };
+  });
+
+  listeners.forEach(({ name, listener }) => {
+    contract.on(name, listener).catch((error) => console.error(`Error subscribing to ${name}:`, error));
+  });
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    listeners.forEach(({ name, listener }) => {
+      contract.off(name, listener).catch(() => undefined);
+    });
+    socket?.destroy();
+  };
+}
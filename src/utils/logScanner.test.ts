@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { connectEcoToken, ecoTokenInterface } from '../contracts/EcoToken';
+import { openChainCache } from './chainCache';
+import { getDeploymentBlock, scanLogs } from './logScanner';
+
+// A chain id outside the network registry, so the deployment block is always searched for
+const CHAIN_ID = 990_001;
+const HOLDER = '0x00000000000000000000000000000000000000aa';
+
+let contracts = 0;
+
+interface FakeChain {
+  latest: number;
+  deployedAt: number;
+  // Widest range getLogs accepts before answering like a provider with a result limit
+  maxRange?: number;
+  logBlocks?: number[];
+  failNetwork?: number;
+}
+
+// Just enough of a provider for scanning: code from deployedAt on, and Transfer logs at logBlocks
+function fakeChain({ latest, deployedAt, maxRange = Infinity, logBlocks = [], failNetwork = 0 }: FakeChain) {
+  const address = ethers.zeroPadValue(ethers.toBeHex(++contracts), 20);
+  const fragment = ecoTokenInterface.getEvent('Transfer')!;
+  const requested: [number, number][] = [];
+  let networkFailures = failNetwork;
+
+  const provider = {
+    getNetwork: async () => {
+      if (networkFailures-- > 0) throw new Error('network unreachable');
+      return { chainId: BigInt(CHAIN_ID) };
+    },
+    getBlockNumber: async () => latest,
+    getCode: async (_address: string, block: number) => (block >= deployedAt ? '0x6080' : '0x'),
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+      if (toBlock - fromBlock + 1 > maxRange) {
+        throw Object.assign(new Error('query returned more than 10000 results'), { code: -32005 });
+      }
+      requested.push([fromBlock, toBlock]);
+      return logBlocks
+        .filter(block => block >= fromBlock && block <= toBlock)
+        .map(block => new ethers.Log({
+          ...ecoTokenInterface.encodeEventLog(fragment, [HOLDER, HOLDER, block]),
+          address,
+          blockNumber: block,
+          blockHash: ethers.id(`block ${block}`),
+          transactionHash: ethers.id(`tx ${block}`),
+          transactionIndex: 0,
+          index: 0,
+          removed: false,
+        }, provider as unknown as ethers.Provider));
+    },
+  };
+
+  return {
+    address,
+    requested,
+    provider: provider as unknown as ethers.Provider,
+    contract: connectEcoToken(address),
+    cache: () => openChainCache(CHAIN_ID, address),
+  };
+}
+
+const scan = async (chain: ReturnType<typeof fakeChain>, toBlock: number, onLogs: (logs: ethers.EventLog[], toBlock: number) => Promise<void>) =>
+  scanLogs({
+    provider: chain.provider,
+    cache: await chain.cache(),
+    contract: chain.contract,
+    eventNames: ['Transfer'],
+    cursor: 'transfers',
+    toBlock,
+    onLogs,
+  });
+
+// The accepted ranges, checked to cover from..to once and in order
+const coverage = (requested: [number, number][]) => {
+  const sorted = [...requested].sort((a, b) => a[0] - b[0]);
+  sorted.slice(1).forEach(([from], index) => expect(from).toBe(sorted[index][1] + 1));
+  return [sorted[0][0], sorted[sorted.length - 1][1]];
+};
+
+describe('logScanner', () => {
+  it('finds the deployment block by bisection and starts scanning there', async () => {
+    const chain = fakeChain({ latest: 5000, deployedAt: 1234, logBlocks: [1300, 4999] });
+    const delivered: number[] = [];
+
+    await scan(chain, 5000, async logs => {
+      delivered.push(...logs.map(log => log.blockNumber));
+    });
+
+    expect(coverage(chain.requested)).toEqual([1234, 5000]);
+    expect(delivered).toEqual([1300, 4999]);
+    expect((await (await chain.cache()).getValue(`deploymentBlock:${chain.address.toLowerCase()}`))?.value).toBe(1234);
+  });
+
+  it('splits refused ranges until the provider accepts them', async () => {
+    const chain = fakeChain({ latest: 20_000, deployedAt: 0, maxRange: 600, logBlocks: [10, 599, 600, 15_000] });
+    const delivered: number[] = [];
+
+    await scan(chain, 20_000, async logs => {
+      delivered.push(...logs.map(log => log.blockNumber));
+    });
+
+    expect(coverage(chain.requested)).toEqual([0, 20_000]);
+    expect(delivered).toEqual([10, 599, 600, 15_000]);
+    const sizes = chain.requested.map(([from, to]) => to - from + 1);
+    expect(Math.max(...sizes)).toBeLessThanOrEqual(600);
+    // 2000 is refused, then 1000, so the first window runs in halves of that
+    expect(sizes[0]).toBe(500);
+  });
+
+  it('doubles the chunk after every clean window', async () => {
+    const chain = fakeChain({ latest: 30_000, deployedAt: 0 });
+    const windows: number[] = [];
+
+    await scan(chain, 30_000, async (_logs, toBlock) => {
+      windows.push(toBlock);
+    });
+
+    // Three chunks run side by side: 3 x 2000, then 3 x 4000, then 3 x 8000
+    expect(windows.slice(0, 3)).toEqual([5999, 17_999, 30_000]);
+  });
+
+  it('resumes from the cursor after a failed window', async () => {
+    const chain = fakeChain({ latest: 10_000, deployedAt: 0, logBlocks: [100, 7000, 9000] });
+    const delivered: number[] = [];
+    let failures = 1;
+    const onLogs = async (logs: ethers.EventLog[]) => {
+      if (logs.some(log => log.blockNumber === 7000) && failures-- > 0) throw new Error('storage full');
+      delivered.push(...logs.map(log => log.blockNumber));
+    };
+
+    await expect(scan(chain, 10_000, onLogs)).rejects.toThrow('storage full');
+    expect(await (await chain.cache()).getCursor('transfers')).toBe(5999);
+
+    chain.requested.length = 0;
+    await scan(chain, 10_000, onLogs);
+    expect(chain.requested[0][0]).toBe(6000);
+    expect(delivered).toEqual([100, 7000, 9000]);
+  });
+
+  it('scans from block 0 when the deployment block cannot be searched for', async () => {
+    const chain = fakeChain({ latest: 100, deployedAt: 0 });
+    chain.provider.getCode = async () => {
+      throw new Error('missing trie node');
+    };
+
+    expect(await getDeploymentBlock(chain.provider, await chain.cache(), chain.address)).toBe(0);
+  });
+
+  it('asks again after the deployment lookup itself failed', async () => {
+    const chain = fakeChain({ latest: 100, deployedAt: 42, failNetwork: 1 });
+    const cache = await chain.cache();
+
+    await expect(getDeploymentBlock(chain.provider, cache, chain.address)).rejects.toThrow('network unreachable');
+    expect(await getDeploymentBlock(chain.provider, cache, chain.address)).toBe(42);
+  });
+});
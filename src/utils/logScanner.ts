@@ -0,0 +1,168 @@
+import { ethers } from 'ethers';
+import { ChainCache } from './chainCache';
+import { getNetwork } from './networks';
+
+// Scans a contract's event history in block chunks instead of one getLogs call from block 0.
+// Chunks shrink when the RPC refuses a range and grow back after clean windows, a few run side by
+// side, and the cursor moves after every window so an interrupted scan resumes where it stopped.
+
+const INITIAL_CHUNK_SIZE = 2000;
+const MAX_CHUNK_SIZE = 50_000;
+const SCAN_CONCURRENCY = 3;
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 500;
+const DEPLOYMENT_BLOCK_ID = 'deploymentBlock';
+
+// Wording differs per provider: "block range is too wide", "query returned more than 10000 results",
+// "Log response size exceeded", "exceed maximum block range", ...
+const RANGE_ERROR = /range|too many|more than \d+ results|response size|limit exceeded|-32005/i;
+
+export interface LogScanOptions {
+  provider: ethers.Provider;
+  cache: ChainCache;
+  contract: ethers.BaseContract;
+  eventNames: string[];
+  // Narrows the events by their indexed arguments, the topics after topic0. Each entry is requested
+  // on its own and the results merged, since one getLogs filter cannot OR across topic positions
+  topicFilters?: (string | null)[][];
+  // Cursor holding the last block whose logs have been handed to onLogs
+  cursor: string;
+  toBlock: number;
+  // Gets each window's logs in block order; the cursor only moves past them once this resolves
+  onLogs: (logs: ethers.EventLog[], toBlock: number) => Promise<void>;
+  // Checked before every request and window; the scan throws its reason and resumes from the cursor next time
+  signal?: AbortSignal;
+}
+
+// Learned per chain and contract, so the next sync starts with a range the RPC accepted
+const chunkSizes = new Map<string, number>();
+const deploymentBlocks = new Map<string, Promise<number>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const errorText = (error: unknown) => {
+  const { code, message, error: inner } = error as { code?: unknown; message?: string; error?: { code?: unknown; message?: string } };
+  return `${code ?? ''} ${message ?? ''} ${inner?.code ?? ''} ${inner?.message ?? ''}`;
+};
+
+const isRangeError = (error: unknown) => RANGE_ERROR.test(errorText(error));
+
+// Lowest block with code at the address, by bisecting eth_getCode. Needs historical state, so on a
+// pruned node the lookup fails and scanning falls back to block 0.
+async function searchDeploymentBlock(provider: ethers.Provider, address: string): Promise<number> {
+  const latest = await provider.getBlockNumber();
+  if ((await provider.getCode(address, latest)) === '0x') return 0;
+
+  let low = 0;
+  let high = latest;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === '0x') {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+export function getDeploymentBlock(provider: ethers.Provider, cache: ChainCache, address: string): Promise<number> {
+  const key = `${cache.scope}:${address.toLowerCase()}`;
+  let pending = deploymentBlocks.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const chainId = Number((await provider.getNetwork()).chainId);
+      const network = getNetwork(chainId);
+      if (network?.deploymentBlock != null && network.contracts.ecoToken.toLowerCase() === address.toLowerCase()) {
+        return network.deploymentBlock;
+      }
+
+      const cached = await cache.getValue<number>(`${DEPLOYMENT_BLOCK_ID}:${address.toLowerCase()}`);
+      if (cached) return cached.value;
+      try {
+        const deploymentBlock = await searchDeploymentBlock(provider, address);
+        // Filed at block 0: a reorg cannot move a deployment that the cursors have already scanned past
+        await cache.putValue(`${DEPLOYMENT_BLOCK_ID}:${address.toLowerCase()}`, deploymentBlock, 0);
+        return deploymentBlock;
+      } catch (error) {
+        console.warn(`Could not find the deployment block of ${address}, scanning from block 0:`, error);
+        return 0;
+      }
+    })().catch((error) => {
+      // A failed network or cache read is not remembered; the next scan asks again
+      deploymentBlocks.delete(key);
+      throw error;
+    });
+    deploymentBlocks.set(key, pending);
+  }
+  return pending;
+}
+
+export async function scanLogs({
+  provider,
+  cache,
+  contract,
+  eventNames,
+  topicFilters,
+  cursor,
+  toBlock,
+  onLogs,
+  signal,
+}: LogScanOptions): Promise<void> {
+  const address = await contract.getAddress();
+  const sizeKey = `${cache.scope}:${address.toLowerCase()}`;
+  const fragments = eventNames.map(name => contract.interface.getEvent(name)!);
+  // One request per range and filter covers every event: topic0 matches any of them
+  const eventTopics = fragments.map(fragment => fragment.topicHash);
+  const topicSets = topicFilters ? topicFilters.map(filter => [eventTopics, ...filter]) : [[eventTopics]];
+
+  const fetchRange = async (topics: (string | string[] | null)[], from: number, to: number, attempt = 0): Promise<ethers.EventLog[]> => {
+    signal?.throwIfAborted();
+    try {
+      const logs = await provider.getLogs({ address, topics, fromBlock: from, toBlock: to });
+      return logs.map(log => {
+        const fragment = fragments.find(candidate => candidate.topicHash === log.topics[0])!;
+        return new ethers.EventLog(log, contract.interface, fragment);
+      });
+    } catch (error) {
+      if (isRangeError(error) && from < to) {
+        // Split the refused range and remember the smaller size for the rest of the scan
+        const middle = Math.floor((from + to) / 2);
+        chunkSizes.set(sizeKey, Math.max(1, Math.min(chunkSizes.get(sizeKey) ?? INITIAL_CHUNK_SIZE, middle - from + 1)));
+        return [...await fetchRange(topics, from, middle), ...await fetchRange(topics, middle + 1, to)];
+      }
+      if (attempt >= MAX_RETRIES || signal?.aborted) throw error;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+      return fetchRange(topics, from, to, attempt + 1);
+    }
+  };
+
+  const deploymentBlock = await getDeploymentBlock(provider, cache, address);
+  let fromBlock = Math.max(deploymentBlock, ((await cache.getCursor(cursor)) ?? -1) + 1);
+
+  while (fromBlock <= toBlock) {
+    signal?.throwIfAborted();
+    const chunkSize = chunkSizes.get(sizeKey) ?? INITIAL_CHUNK_SIZE;
+    const ranges: [number, number][] = [];
+    for (let start = fromBlock; start <= toBlock && ranges.length < SCAN_CONCURRENCY; start += chunkSize) {
+      ranges.push([start, Math.min(start + chunkSize - 1, toBlock)]);
+    }
+
+    const results = await Promise.all(ranges.flatMap(([from, to]) => topicSets.map(topics => fetchRange(topics, from, to))));
+    const windowEnd = ranges[ranges.length - 1][1];
+    // A log can match more than one filter, e.g. a transfer to oneself
+    const unique = new Map(results.flat().map(log => [`${log.transactionHash}:${log.index}`, log]));
+    const logs = Array.from(unique.values())
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    signal?.throwIfAborted();
+    await onLogs(logs, windowEnd);
+    await cache.setCursor(cursor, windowEnd);
+    fromBlock = windowEnd + 1;
+
+    // A window without a refused range earns a larger chunk next time
+    if ((chunkSizes.get(sizeKey) ?? INITIAL_CHUNK_SIZE) === chunkSize) {
+      chunkSizes.set(sizeKey, Math.min(chunkSize * 2, MAX_CHUNK_SIZE));
+    }
+  }
+}
@@ -0,0 +1,988 @@
+import { ethers } from 'ethers';
+import { LOCAL_CHAIN_ID, TRANSFER_TYPES } from '../constants/networks';
+import { ecoMetaTransferInterface } from '../contracts/EcoMetaTransfer';
+import { ecoTokenInterface } from '../contracts/EcoToken';
+
+// In-process mock of a local chain with EcoToken and EcoMetaTransfer, exposed as an EIP-1193 wallet
+// provider. The contract bytecode is not part of this repo, so both contracts are modelled here from
+// their ABIs: calldata is decoded with the real interfaces, and results, custom errors and event logs
+// are encoded with them, so ethers, wagmi and the app's hooks cannot tell the difference from a wallet
+// on a devnet. No EVM runs: reverts, role checks and signature checks are only as faithful as this
+// model, so it exercises the dApp, never the contracts. Every transaction is mined into its own block
+// immediately.
+
+// The well-known development mnemonic, so account 0 deploys to the usual devnet addresses
+export const MOCK_CHAIN_MNEMONIC = 'test test test test test test test test test test test junk';
+
+const MANUFACTURER_ROLE = ethers.id('MANUFACTURER_ROLE');
+const AUDITOR_ROLE = ethers.id('AUDITOR_ROLE');
+const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+
+const BASE_FEE = ethers.parseUnits('1', 'gwei');
+const PRIORITY_FEE = ethers.parseUnits('1', 'gwei');
+const BLOCK_GAS_LIMIT = 30_000_000n;
+
+// Interface ids reported by supportsInterface: IAccessControl and ERC165
+const SUPPORTED_INTERFACES = ['0x7965db0b', '0x01ffc9a7'];
+
+type AccountRef = number | string;
+type RoleName = 'admin' | 'manufacturer' | 'auditor';
+
+export interface MockChainOptions {
+  accounts?: number;
+  // Accounts are referenced by index into the mnemonic accounts or by address
+  manufacturers?: AccountRef[];
+  auditors?: AccountRef[];
+  // Initial ECO balances in whole tokens
+  tokenBalances?: Record<string, string>;
+  ethBalance?: string;
+  // Approve EcoMetaTransfer for every account up front, as the gasless flow expects
+  approveMetaTransfer?: boolean;
+  activeAccount?: AccountRef;
+}
+
+interface StoredAction {
+  description: string;
+  reductionAmount: bigint;
+  ipfsHash: string;
+  verified: boolean;
+}
+
+// Everything a revert has to roll back lives in here, so it can be snapshotted with structuredClone
+interface ChainState {
+  ethBalances: Map<string, bigint>;
+  nonces: Map<string, number>;
+  tokenBalances: Map<string, bigint>;
+  allowances: Map<string, bigint>;
+  totalSupply: bigint;
+  roles: Map<string, Set<string>>;
+  actions: Map<string, StoredAction[]>;
+  metaNonces: Map<string, bigint>;
+  metaOwner: string;
+}
+
+interface DevLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface MinedLog extends DevLog {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+interface MinedTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  nonce: number;
+  value: bigint;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  data: string;
+  signature: { r: string; s: string; yParity: number };
+  blockNumber: number;
+  blockHash: string;
+  status: 0 | 1;
+  gasUsed: bigint;
+  contractAddress: string | null;
+  logs: MinedLog[];
+}
+
+interface Block {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  gasUsed: bigint;
+  transactions: string[];
+}
+
+interface CallContext {
+  sender: string;
+  value: bigint;
+  timestamp: number;
+  logs: DevLog[];
+}
+
+// Raised by the contract models; data is the ABI-encoded revert reason
+interface RevertError extends Error {
+  revertData: string;
+}
+
+type RpcError = Error & { code: number; data?: unknown };
+
+const rpcError = (code: number, message: string, data?: unknown): RpcError =>
+  Object.assign(new Error(message), { code, data });
+
+const revertWith = (data: string): RevertError =>
+  Object.assign(new Error('execution reverted'), { revertData: data });
+
+const customError = (iface: ethers.Interface, name: string, args: unknown[] = []) =>
+  revertWith(iface.encodeErrorResult(name, args));
+
+// Plain require(..., "reason") reverts use the built-in Error(string)
+const requireError = (reason: string) =>
+  revertWith(ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]));
+
+const isRevert = (error: unknown): error is RevertError =>
+  typeof error === 'object' && error !== null && 'revertData' in error;
+
+const key = (address: string) => address.toLowerCase();
+const pairKey = (owner: string, spender: string) => `${key(owner)}:${key(spender)}`;
+const quantity = (value: bigint | number) => ethers.toQuantity(value);
+
+export type MockChainProvider = ethers.Eip1193Provider & {
+  on(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener(event: string, listener: (...args: unknown[]) => void): void;
+};
+
+export function createMockChain(options: MockChainOptions = {}) {
+  const accountCount = options.accounts ?? 10;
+  const mnemonic = ethers.Mnemonic.fromPhrase(MOCK_CHAIN_MNEMONIC);
+  const wallets = Array.from({ length: accountCount }, (_, index) =>
+    ethers.HDNodeWallet.fromMnemonic(mnemonic, `m/44'/60'/0'/0/${index}`)
+  );
+  const deployer = wallets[0];
+  // The last account plays the gasless relayer, so scripted users never share its nonce
+  const relayer = wallets[wallets.length - 1];
+  const tokenAddress = ethers.getCreateAddress({ from: deployer.address, nonce: 0 });
+  const metaTransferAddress = ethers.getCreateAddress({ from: deployer.address, nonce: 1 });
+  const metaDomain = {
+    name: 'EcoMetaTransfer',
+    version: '1',
+    chainId: LOCAL_CHAIN_ID,
+    verifyingContract: metaTransferAddress,
+  };
+
+  let state: ChainState = {
+    ethBalances: new Map(wallets.map(wallet => [key(wallet.address), ethers.parseEther(options.ethBalance ?? '10000')])),
+    nonces: new Map(),
+    tokenBalances: new Map(),
+    allowances: new Map(),
+    totalSupply: 0n,
+    roles: new Map([[DEFAULT_ADMIN_ROLE, new Set([key(deployer.address)])]]),
+    actions: new Map(),
+    metaNonces: new Map(),
+    metaOwner: key(deployer.address),
+  };
+
+  const blocks: Block[] = [];
+  const transactions = new Map<string, MinedTransaction>();
+  const logs: MinedLog[] = [];
+  const snapshots = new Map<number, { state: ChainState; height: number; logCount: number; txHashes: string[] }>();
+  const listeners = new Map<string, Set<(...args: unknown[]) => void>>();
+  const rejections = new Set<string>();
+  let timeOffset = 0;
+  let activeAccount = deployer.address;
+  // Like a wallet extension, accounts are only exposed to the page once it has asked to connect
+  let authorized = false;
+
+  const emitEvent = (event: string, ...args: unknown[]) => {
+    listeners.get(event)?.forEach(listener => listener(...args));
+  };
+
+  const resolveWallet = (ref: AccountRef) => {
+    const wallet = typeof ref === 'number'
+      ? wallets[ref]
+      : wallets.find(item => key(item.address) === key(ref));
+    if (!wallet) throw new Error(`Unknown mock chain account ${ref}`);
+    return wallet;
+  };
+
+  const nextTimestamp = () => {
+    const previous = blocks.length > 0 ? blocks[blocks.length - 1].timestamp : 0;
+    return Math.max(previous + 1, Math.floor(Date.now() / 1000) + timeOffset);
+  };
+
+  const latestBlock = () => blocks[blocks.length - 1];
+
+  // ---- EcoToken model ----
+
+  const hasRole = (role: string, account: string) => Boolean(state.roles.get(role)?.has(key(account)));
+
+  const checkRole = (ctx: CallContext, role: string) => {
+    if (!hasRole(role, ctx.sender)) {
+      throw customError(ecoTokenInterface, 'AccessControlUnauthorizedAccount', [ctx.sender, role]);
+    }
+  };
+
+  const tokenLog = (ctx: CallContext, name: string, args: unknown[]) => {
+    const { topics, data } = ecoTokenInterface.encodeEventLog(name, args);
+    ctx.logs.push({ address: tokenAddress, topics, data });
+  };
+
+  const grantRole = (ctx: CallContext, role: string, account: string) => {
+    if (hasRole(role, account)) return;
+    if (!state.roles.has(role)) state.roles.set(role, new Set());
+    state.roles.get(role)!.add(key(account));
+    tokenLog(ctx, 'RoleGranted', [role, account, ctx.sender]);
+  };
+
+  const revokeRole = (ctx: CallContext, role: string, account: string) => {
+    if (!hasRole(role, account)) return;
+    state.roles.get(role)!.delete(key(account));
+    tokenLog(ctx, 'RoleRevoked', [role, account, ctx.sender]);
+  };
+
+  const moveTokens = (ctx: CallContext, from: string, to: string, value: bigint) => {
+    if (from === ethers.ZeroAddress) {
+      state.totalSupply += value;
+    } else {
+      const balance = state.tokenBalances.get(key(from)) ?? 0n;
+      if (balance < value) {
+        throw customError(ecoTokenInterface, 'ERC20InsufficientBalance', [from, balance, value]);
+      }
+      state.tokenBalances.set(key(from), balance - value);
+    }
+    if (to === ethers.ZeroAddress) {
+      state.totalSupply -= value;
+    } else {
+      state.tokenBalances.set(key(to), (state.tokenBalances.get(key(to)) ?? 0n) + value);
+    }
+    tokenLog(ctx, 'Transfer', [from, to, value]);
+  };
+
+  const transferChecked = (ctx: CallContext, from: string, to: string, value: bigint) => {
+    if (from === ethers.ZeroAddress) throw customError(ecoTokenInterface, 'ERC20InvalidSender', [from]);
+    if (to === ethers.ZeroAddress) throw customError(ecoTokenInterface, 'ERC20InvalidReceiver', [to]);
+    moveTokens(ctx, from, to, value);
+  };
+
+  const spendAllowance = (owner: string, spender: string, value: bigint) => {
+    const allowance = state.allowances.get(pairKey(owner, spender)) ?? 0n;
+    if (allowance === ethers.MaxUint256) return;
+    if (allowance < value) {
+      throw customError(ecoTokenInterface, 'ERC20InsufficientAllowance', [spender, allowance, value]);
+    }
+    state.allowances.set(pairKey(owner, spender), allowance - value);
+  };
+
+  const tokenFunctions: Record<string, (ctx: CallContext, args: ethers.Result) => unknown[]> = {
+    name: () => ['EcoToken'],
+    symbol: () => ['ECO'],
+    decimals: () => [18],
+    totalSupply: () => [state.totalSupply],
+    balanceOf: (_, [account]) => [state.tokenBalances.get(key(account)) ?? 0n],
+    allowance: (_, [owner, spender]) => [state.allowances.get(pairKey(owner, spender)) ?? 0n],
+    approve: (ctx, [spender, value]) => {
+      if (spender === ethers.ZeroAddress) throw customError(ecoTokenInterface, 'ERC20InvalidSpender', [spender]);
+      state.allowances.set(pairKey(ctx.sender, spender), value);
+      tokenLog(ctx, 'Approval', [ctx.sender, spender, value]);
+      return [true];
+    },
+    transfer: (ctx, [to, value]) => {
+      transferChecked(ctx, ctx.sender, to, value);
+      return [true];
+    },
+    transferFrom: (ctx, [from, to, value]) => {
+      spendAllowance(from, ctx.sender, value);
+      transferChecked(ctx, from, to, value);
+      return [true];
+    },
+    MANUFACTURER_ROLE: () => [MANUFACTURER_ROLE],
+    AUDITOR_ROLE: () => [AUDITOR_ROLE],
+    DEFAULT_ADMIN_ROLE: () => [DEFAULT_ADMIN_ROLE],
+    getRoleAdmin: () => [DEFAULT_ADMIN_ROLE],
+    hasRole: (_, [role, account]) => [hasRole(role, account)],
+    supportsInterface: (_, [interfaceId]) => [SUPPORTED_INTERFACES.includes(interfaceId)],
+    grantRole: (ctx, [role, account]) => {
+      checkRole(ctx, DEFAULT_ADMIN_ROLE);
+      grantRole(ctx, role, account);
+      return [];
+    },
+    revokeRole: (ctx, [role, account]) => {
+      checkRole(ctx, DEFAULT_ADMIN_ROLE);
+      revokeRole(ctx, role, account);
+      return [];
+    },
+    renounceRole: (ctx, [role, callerConfirmation]) => {
+      if (key(callerConfirmation) !== key(ctx.sender)) {
+        throw customError(ecoTokenInterface, 'AccessControlBadConfirmation');
+      }
+      revokeRole(ctx, role, callerConfirmation);
+      return [];
+    },
+    addManufacturer: (ctx, [user]) => {
+      checkRole(ctx, DEFAULT_ADMIN_ROLE);
+      grantRole(ctx, MANUFACTURER_ROLE, user);
+      return [];
+    },
+    addAuditor: (ctx, [user]) => {
+      checkRole(ctx, DEFAULT_ADMIN_ROLE);
+      grantRole(ctx, AUDITOR_ROLE, user);
+      return [];
+    },
+    submitEcoAction: (ctx, [description, reductionAmount, ipfsHash]) => {
+      checkRole(ctx, MANUFACTURER_ROLE);
+      if (reductionAmount === 0n) throw requireError('Reduction amount must be greater than 0');
+      const actions = state.actions.get(key(ctx.sender)) ?? [];
+      actions.push({ description, reductionAmount, ipfsHash, verified: false });
+      state.actions.set(key(ctx.sender), actions);
+      tokenLog(ctx, 'EcoActionSubmitted', [ctx.sender, actions.length - 1, ipfsHash]);
+      return [];
+    },
+    // Credits are minted one token per tonne of CO2e reduced
+    verifyAction: (ctx, [manufacturer, actionId]) => {
+      checkRole(ctx, AUDITOR_ROLE);
+      const action = state.actions.get(key(manufacturer))?.[Number(actionId)];
+      if (!action) throw requireError('Invalid action ID');
+      if (action.verified) throw requireError('Action already verified');
+      action.verified = true;
+      moveTokens(ctx, ethers.ZeroAddress, manufacturer, action.reductionAmount);
+      tokenLog(ctx, 'EcoActionVerified', [manufacturer, actionId, action.reductionAmount]);
+      return [];
+    },
+    manufacturerActions: (_, [manufacturer, index]) => {
+      const action = state.actions.get(key(manufacturer))?.[Number(index)];
+      if (!action) throw revertWith('0x');
+      return [action.description, action.reductionAmount, action.ipfsHash, action.verified];
+    },
+  };
+
+  // ---- EcoMetaTransfer model ----
+
+  const metaLog = (ctx: CallContext, name: string, args: unknown[]) => {
+    const { topics, data } = ecoMetaTransferInterface.encodeEventLog(name, args);
+    ctx.logs.push({ address: metaTransferAddress, topics, data });
+  };
+
+  const transferWithSig = (
+    ctx: CallContext,
+    from: string,
+    to: string,
+    amount: bigint,
+    nonce: bigint,
+    deadline: bigint,
+    signature: string
+  ) => {
+    if (BigInt(ctx.timestamp) > deadline) throw requireError('Signature expired');
+    const expectedNonce = state.metaNonces.get(key(from)) ?? 0n;
+    if (nonce !== expectedNonce) throw requireError('Invalid nonce');
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyTypedData(metaDomain, TRANSFER_TYPES, { from, to, amount, nonce, deadline }, signature);
+    } catch {
+      throw requireError('Invalid signature');
+    }
+    if (key(recovered) !== key(from)) throw requireError('Invalid signature');
+
+    state.metaNonces.set(key(from), expectedNonce + 1n);
+    // The token sees EcoMetaTransfer as the spender
+    const tokenCtx = { ...ctx, sender: metaTransferAddress };
+    spendAllowance(from, metaTransferAddress, amount);
+    transferChecked(tokenCtx, from, to, amount);
+    metaLog(ctx, 'TransferWithSig', [from, to, amount, nonce]);
+  };
+
+  const metaFunctions: Record<string, (ctx: CallContext, args: ethers.Result, fragment: ethers.FunctionFragment) => unknown[]> = {
+    nonces: (_, [owner]) => [state.metaNonces.get(key(owner)) ?? 0n],
+    owner: () => [ethers.getAddress(state.metaOwner)],
+    transferOwnership: (ctx, [newOwner]) => {
+      if (key(ctx.sender) !== state.metaOwner) throw requireError('Ownable: caller is not the owner');
+      metaLog(ctx, 'OwnershipTransferred', [state.metaOwner, newOwner]);
+      state.metaOwner = key(newOwner);
+      return [];
+    },
+    transferWithSig: (ctx, args, fragment) => {
+      // The overload taking a token address only accepts the EcoToken deployment
+      if (fragment.inputs.length === 7) {
+        const [token, from, to, amount, nonce, deadline, signature] = args;
+        if (key(token) !== key(tokenAddress)) throw requireError('Unsupported token');
+        transferWithSig(ctx, from, to, amount, nonce, deadline, signature);
+      } else {
+        const [from, to, amount, nonce, deadline, signature] = args;
+        transferWithSig(ctx, from, to, amount, nonce, deadline, signature);
+      }
+      return [];
+    },
+  };
+
+  // ---- Execution ----
+
+  // Runs a call against the models; the caller decides whether the state changes are kept
+  const runCall = (ctx: CallContext, to: string | null, data: string): string => {
+    if (to && key(to) === key(tokenAddress)) {
+      const parsed = ecoTokenInterface.parseTransaction({ data, value: ctx.value });
+      if (!parsed || !tokenFunctions[parsed.name]) throw revertWith('0x');
+      return ecoTokenInterface.encodeFunctionResult(parsed.fragment, tokenFunctions[parsed.name](ctx, parsed.args));
+    }
+    if (to && key(to) === key(metaTransferAddress)) {
+      const parsed = ecoMetaTransferInterface.parseTransaction({ data, value: ctx.value });
+      if (!parsed || !metaFunctions[parsed.name]) throw revertWith('0x');
+      return ecoMetaTransferInterface.encodeFunctionResult(parsed.fragment, metaFunctions[parsed.name](ctx, parsed.args, parsed.fragment));
+    }
+    // Anything else is a plain account: value transfers succeed, calls return nothing
+    return '0x';
+  };
+
+  const moveEth = (from: string, to: string | null, value: bigint) => {
+    if (value === 0n) return;
+    const balance = state.ethBalances.get(key(from)) ?? 0n;
+    if (balance < value) throw rpcError(-32000, 'insufficient funds for transfer');
+    state.ethBalances.set(key(from), balance - value);
+    if (to) state.ethBalances.set(key(to), (state.ethBalances.get(key(to)) ?? 0n) + value);
+  };
+
+  const estimateGasUsed = (data: string) => 21_000n + (ethers.dataLength(data) > 0 ? 60_000n : 0n);
+
+  const callReadOnly = (from: string, to: string | null, data: string, value: bigint) => {
+    const saved = structuredClone(state);
+    try {
+      const ctx: CallContext = { sender: from, value, timestamp: nextTimestamp(), logs: [] };
+      moveEth(from, to, value);
+      return runCall(ctx, to, data);
+    } catch (error) {
+      if (isRevert(error)) throw rpcError(3, 'execution reverted', error.revertData);
+      throw error;
+    } finally {
+      state = saved;
+    }
+  };
+
+  const mineBlock = (txs: MinedTransaction[]) => {
+    const parent = latestBlock();
+    const number = blocks.length;
+    const timestamp = nextTimestamp();
+    const hash = ethers.keccak256(ethers.toUtf8Bytes(`mock-chain:${number}:${timestamp}:${txs.map(tx => tx.hash).join(',')}`));
+    let logIndex = 0;
+    txs.forEach((tx, transactionIndex) => {
+      tx.blockNumber = number;
+      tx.blockHash = hash;
+      tx.logs.forEach(log => {
+        Object.assign(log, { blockNumber: number, blockHash: hash, transactionIndex, logIndex: logIndex++ });
+        logs.push(log);
+      });
+      transactions.set(tx.hash, tx);
+    });
+    blocks.push({
+      number,
+      hash,
+      parentHash: parent ? parent.hash : ethers.ZeroHash,
+      timestamp,
+      gasUsed: txs.reduce((total, tx) => total + tx.gasUsed, 0n),
+      transactions: txs.map(tx => tx.hash),
+    });
+    emitEvent('block', number);
+    return hash;
+  };
+
+  // Applies a signed transaction: a revert still mines it, with status 0 and no logs
+  const executeTransaction = (tx: ethers.Transaction): string => {
+    const from = tx.from!;
+    const expectedNonce = state.nonces.get(key(from)) ?? 0;
+    if (tx.nonce < expectedNonce) throw rpcError(-32000, `nonce too low: next nonce ${expectedNonce}, tx nonce ${tx.nonce}`);
+    if (tx.nonce > expectedNonce) throw rpcError(-32000, `nonce too high: next nonce ${expectedNonce}, tx nonce ${tx.nonce}`);
+    if (tx.chainId !== BigInt(LOCAL_CHAIN_ID)) throw rpcError(-32000, `invalid chain id ${tx.chainId}`);
+    if (transactions.has(tx.hash!)) throw rpcError(-32000, 'already known');
+
+    const maxFeePerGas = tx.maxFeePerGas ?? tx.gasPrice ?? BASE_FEE + PRIORITY_FEE;
+    const effectiveGasPrice = maxFeePerGas < BASE_FEE + PRIORITY_FEE ? maxFeePerGas : BASE_FEE + PRIORITY_FEE;
+    const gasUsed = estimateGasUsed(tx.data) > tx.gasLimit ? tx.gasLimit : estimateGasUsed(tx.data);
+    const fee = gasUsed * effectiveGasPrice;
+    if ((state.ethBalances.get(key(from)) ?? 0n) < fee + tx.value) {
+      throw rpcError(-32000, 'insufficient funds for gas * price + value');
+    }
+
+    state.nonces.set(key(from), expectedNonce + 1);
+    state.ethBalances.set(key(from), (state.ethBalances.get(key(from)) ?? 0n) - fee);
+
+    const saved = structuredClone(state);
+    const ctx: CallContext = { sender: from, value: tx.value, timestamp: nextTimestamp(), logs: [] };
+    let status: 0 | 1 = 1;
+    try {
+      moveEth(from, tx.to, tx.value);
+      runCall(ctx, tx.to, tx.data);
+    } catch (error) {
+      if (!isRevert(error)) throw error;
+      state = saved;
+      status = 0;
+      ctx.logs = [];
+    }
+
+    const hash = tx.hash!;
+    mineBlock([{
+      hash,
+      from,
+      to: tx.to,
+      nonce: tx.nonce,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? PRIORITY_FEE,
+      data: tx.data,
+      signature: { r: tx.signature!.r, s: tx.signature!.s, yParity: tx.signature!.yParity },
+      blockNumber: 0,
+      blockHash: ethers.ZeroHash,
+      status,
+      gasUsed,
+      contractAddress: null,
+      logs: ctx.logs.map(log => ({ ...log, blockNumber: 0, blockHash: ethers.ZeroHash, transactionHash: hash, transactionIndex: 0, logIndex: 0 })),
+    }]);
+    return hash;
+  };
+
+  // Fills in nonce, gas and fees the way a wallet would, then signs with the account's key
+  const signAndSend = async (wallet: ethers.HDNodeWallet, request: ethers.TransactionRequest) => {
+    const data = ethers.hexlify(request.data ?? '0x');
+    const tx = ethers.Transaction.from({
+      type: 2,
+      chainId: LOCAL_CHAIN_ID,
+      nonce: request.nonce ?? state.nonces.get(key(wallet.address)) ?? 0,
+      to: request.to ? ethers.getAddress(request.to as string) : null,
+      value: request.value ?? 0n,
+      data,
+      gasLimit: request.gasLimit ?? estimateGasUsed(data) * 2n,
+      maxFeePerGas: request.maxFeePerGas ?? BASE_FEE * 2n + PRIORITY_FEE,
+      maxPriorityFeePerGas: request.maxPriorityFeePerGas ?? PRIORITY_FEE,
+    });
+    return executeTransaction(ethers.Transaction.from(await wallet.signTransaction(tx)));
+  };
+
+  // Deployments have no bytecode to run, so they are recorded as mined transactions with a contract address
+  const recordDeployment = (contractAddress: string, constructorLogs: DevLog[]) => {
+    const nonce = state.nonces.get(key(deployer.address)) ?? 0;
+    state.nonces.set(key(deployer.address), nonce + 1);
+    const hash = ethers.keccak256(ethers.toUtf8Bytes(`mock-chain-deploy:${contractAddress}`));
+    mineBlock([{
+      hash,
+      from: deployer.address,
+      to: null,
+      nonce,
+      value: 0n,
+      gasLimit: 3_000_000n,
+      maxFeePerGas: BASE_FEE + PRIORITY_FEE,
+      maxPriorityFeePerGas: PRIORITY_FEE,
+      data: '0x',
+      signature: { r: ethers.toBeHex(1, 32), s: ethers.toBeHex(1, 32), yParity: 0 },
+      blockNumber: 0,
+      blockHash: ethers.ZeroHash,
+      status: 1,
+      gasUsed: 1_000_000n,
+      contractAddress,
+      logs: constructorLogs.map(log => ({ ...log, blockNumber: 0, blockHash: ethers.ZeroHash, transactionHash: hash, transactionIndex: 0, logIndex: 0 })),
+    }]);
+  };
+
+  // ---- JSON-RPC formatting ----
+
+  const formatLog = (log: MinedLog) => ({
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: quantity(log.blockNumber),
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: quantity(log.transactionIndex),
+    logIndex: quantity(log.logIndex),
+    removed: false,
+  });
+
+  const formatTransaction = (tx: MinedTransaction) => ({
+    hash: tx.hash,
+    type: '0x2',
+    chainId: quantity(LOCAL_CHAIN_ID),
+    nonce: quantity(tx.nonce),
+    blockHash: tx.blockHash,
+    blockNumber: quantity(tx.blockNumber),
+    transactionIndex: quantity(blocks[tx.blockNumber].transactions.indexOf(tx.hash)),
+    from: tx.from,
+    to: tx.to,
+    value: quantity(tx.value),
+    gas: quantity(tx.gasLimit),
+    gasPrice: quantity(BASE_FEE + PRIORITY_FEE),
+    maxFeePerGas: quantity(tx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+    input: tx.data,
+    accessList: [],
+    r: tx.signature.r,
+    s: tx.signature.s,
+    yParity: quantity(tx.signature.yParity),
+    v: quantity(tx.signature.yParity),
+  });
+
+  const formatReceipt = (tx: MinedTransaction) => ({
+    transactionHash: tx.hash,
+    transactionIndex: quantity(blocks[tx.blockNumber].transactions.indexOf(tx.hash)),
+    blockHash: tx.blockHash,
+    blockNumber: quantity(tx.blockNumber),
+    from: tx.from,
+    to: tx.to,
+    contractAddress: tx.contractAddress,
+    cumulativeGasUsed: quantity(tx.gasUsed),
+    gasUsed: quantity(tx.gasUsed),
+    effectiveGasPrice: quantity(BASE_FEE + PRIORITY_FEE),
+    logs: tx.logs.map(formatLog),
+    logsBloom: ethers.zeroPadValue('0x', 256),
+    status: quantity(tx.status),
+    type: '0x2',
+  });
+
+  const formatBlock = (block: Block, fullTransactions: boolean) => ({
+    number: quantity(block.number),
+    hash: block.hash,
+    parentHash: block.parentHash,
+    timestamp: quantity(block.timestamp),
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    gasLimit: quantity(BLOCK_GAS_LIMIT),
+    gasUsed: quantity(block.gasUsed),
+    baseFeePerGas: quantity(BASE_FEE),
+    miner: ethers.ZeroAddress,
+    extraData: '0x',
+    stateRoot: ethers.ZeroHash,
+    transactionsRoot: ethers.ZeroHash,
+    receiptsRoot: ethers.ZeroHash,
+    logsBloom: ethers.zeroPadValue('0x', 256),
+    sha3Uncles: ethers.ZeroHash,
+    size: '0x0',
+    uncles: [],
+    transactions: fullTransactions
+      ? block.transactions.map(hash => formatTransaction(transactions.get(hash)!))
+      : block.transactions,
+  });
+
+  const blockNumberFromTag = (tag: unknown): number => {
+    if (tag === undefined || tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+      return blocks.length - 1;
+    }
+    if (tag === 'earliest') return 0;
+    return Number(tag);
+  };
+
+  const matchesTopics = (log: DevLog, topics: (string | string[] | null)[] = []) =>
+    topics.every((wanted, index) => {
+      if (wanted === null || wanted === undefined) return true;
+      const topic = log.topics[index]?.toLowerCase();
+      return Array.isArray(wanted)
+        ? wanted.some(item => item.toLowerCase() === topic)
+        : wanted.toLowerCase() === topic;
+    });
+
+  const getLogs = (filter: { address?: string | string[]; topics?: (string | string[] | null)[]; fromBlock?: string; toBlock?: string; blockHash?: string }) => {
+    const addresses = filter.address === undefined
+      ? null
+      : (Array.isArray(filter.address) ? filter.address : [filter.address]).map(key);
+    const fromBlock = filter.blockHash ? -1 : blockNumberFromTag(filter.fromBlock ?? 'latest');
+    const toBlock = filter.blockHash ? -1 : blockNumberFromTag(filter.toBlock ?? 'latest');
+
+    return logs
+      .filter(log => filter.blockHash
+        ? log.blockHash === filter.blockHash
+        : log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      .filter(log => !addresses || addresses.includes(key(log.address)))
+      .filter(log => matchesTopics(log, filter.topics))
+      .map(formatLog);
+  };
+
+  // Installed filters, so ethers can watch events by polling eth_getFilterChanges
+  type LogFilter = Parameters<typeof getLogs>[0];
+  const filters = new Map<string, { filter: LogFilter | null; lastBlock: number }>();
+  let nextFilterId = 1;
+
+  const installFilter = (filter: LogFilter | null) => {
+    const id = quantity(nextFilterId++);
+    filters.set(id, { filter, lastBlock: blocks.length - 1 });
+    return id;
+  };
+
+  const getFilterChanges = (id: string) => {
+    const entry = filters.get(id);
+    if (!entry) throw rpcError(-32000, 'filter not found');
+    const from = entry.lastBlock + 1;
+    const latest = blocks.length - 1;
+    entry.lastBlock = latest;
+    if (from > latest) return [];
+    return entry.filter
+      ? getLogs({ ...entry.filter, blockHash: undefined, fromBlock: quantity(from), toBlock: quantity(latest) })
+      : blocks.slice(from).map(block => block.hash);
+  };
+
+  const activeWallet = () => resolveWallet(activeAccount);
+
+  // One-shot user rejections (EIP-1193 code 4001) for scripting "user clicked Reject"
+  const consumeRejection = (method: string) => {
+    if (rejections.delete(method)) throw rpcError(4001, 'User rejected the request.');
+  };
+
+  const handlers: Record<string, (params: unknown[]) => unknown | Promise<unknown>> = {
+    eth_chainId: () => quantity(LOCAL_CHAIN_ID),
+    net_version: () => String(LOCAL_CHAIN_ID),
+    web3_clientVersion: () => 'EcoToken-MockChain/1.0.0',
+    eth_accounts: () => (authorized ? [activeAccount] : []),
+    eth_requestAccounts: () => {
+      consumeRejection('eth_requestAccounts');
+      authorized = true;
+      return [activeAccount];
+    },
+    wallet_requestPermissions: () => {
+      consumeRejection('wallet_requestPermissions');
+      authorized = true;
+      return [{ parentCapability: 'eth_accounts' }];
+    },
+    wallet_getPermissions: () => (authorized ? [{ parentCapability: 'eth_accounts' }] : []),
+    wallet_revokePermissions: () => {
+      authorized = false;
+      return null;
+    },
+    wallet_switchEthereumChain: ([request]) => {
+      const { chainId } = request as { chainId: string };
+      if (Number(chainId) !== LOCAL_CHAIN_ID) {
+        throw rpcError(4902, `Unrecognized chain ID "${chainId}". Try adding the chain using wallet_addEthereumChain first.`);
+      }
+      return null;
+    },
+    wallet_addEthereumChain: () => {
+      throw rpcError(4200, 'The mock chain wallet only supports the local chain');
+    },
+    eth_blockNumber: () => quantity(blocks.length - 1),
+    eth_gasPrice: () => quantity(BASE_FEE + PRIORITY_FEE),
+    eth_maxPriorityFeePerGas: () => quantity(PRIORITY_FEE),
+    eth_feeHistory: ([count]) => {
+      const blockCount = Math.min(Number(count), blocks.length);
+      return {
+        oldestBlock: quantity(blocks.length - blockCount),
+        baseFeePerGas: Array.from({ length: blockCount + 1 }, () => quantity(BASE_FEE)),
+        gasUsedRatio: Array.from({ length: blockCount }, () => 0.1),
+        reward: Array.from({ length: blockCount }, () => [quantity(PRIORITY_FEE)]),
+      };
+    },
+    eth_getBalance: ([address]) => quantity(state.ethBalances.get(key(address as string)) ?? 0n),
+    eth_getTransactionCount: ([address]) => quantity(state.nonces.get(key(address as string)) ?? 0),
+    // Multicall3 and other contracts are deliberately absent, so callers exercise their fallbacks
+    eth_getCode: ([address]) =>
+      key(address as string) === key(tokenAddress) || key(address as string) === key(metaTransferAddress) ? '0xfe' : '0x',
+    eth_getStorageAt: () => ethers.ZeroHash,
+    eth_call: ([request]) => {
+      const { from, to, data, input, value } = request as Record<string, string | undefined>;
+      return callReadOnly(from ?? ethers.ZeroAddress, to ?? null, data ?? input ?? '0x', BigInt(value ?? 0));
+    },
+    eth_estimateGas: ([request]) => {
+      const { from, to, data, input, value } = request as Record<string, string | undefined>;
+      const callData = data ?? input ?? '0x';
+      callReadOnly(from ?? activeAccount, to ?? null, callData, BigInt(value ?? 0));
+      return quantity(estimateGasUsed(callData));
+    },
+    eth_sendTransaction: async ([request]) => {
+      consumeRejection('eth_sendTransaction');
+      const { from, to, data, input, value, gas, nonce, maxFeePerGas, maxPriorityFeePerGas } = request as Record<string, string | undefined>;
+      if (from && key(from) !== key(activeAccount)) {
+        throw rpcError(4100, 'The requested account has not been authorized by the user.');
+      }
+      return signAndSend(activeWallet(), {
+        to,
+        data: data ?? input,
+        value: value === undefined ? undefined : BigInt(value),
+        gasLimit: gas === undefined ? undefined : BigInt(gas),
+        nonce: nonce === undefined ? undefined : Number(nonce),
+        maxFeePerGas: maxFeePerGas === undefined ? undefined : BigInt(maxFeePerGas),
+        maxPriorityFeePerGas: maxPriorityFeePerGas === undefined ? undefined : BigInt(maxPriorityFeePerGas),
+      });
+    },
+    eth_sendRawTransaction: ([raw]) => executeTransaction(ethers.Transaction.from(raw as string)),
+    eth_getTransactionByHash: ([hash]) => {
+      const tx = transactions.get(hash as string);
+      return tx ? formatTransaction(tx) : null;
+    },
+    eth_getTransactionReceipt: ([hash]) => {
+      const tx = transactions.get(hash as string);
+      return tx ? formatReceipt(tx) : null;
+    },
+    eth_getBlockByNumber: ([tag, full]) => {
+      const block = blocks[blockNumberFromTag(tag)];
+      return block ? formatBlock(block, Boolean(full)) : null;
+    },
+    eth_getBlockByHash: ([hash, full]) => {
+      const block = blocks.find(item => item.hash === hash);
+      return block ? formatBlock(block, Boolean(full)) : null;
+    },
+    eth_getLogs: ([filter]) => getLogs(filter as LogFilter),
+    eth_newFilter: ([filter]) => installFilter(filter as LogFilter),
+    eth_newBlockFilter: () => installFilter(null),
+    eth_getFilterChanges: ([id]) => getFilterChanges(id as string),
+    eth_uninstallFilter: ([id]) => filters.delete(id as string),
+    personal_sign: async ([message, address]) => {
+      consumeRejection('personal_sign');
+      if (key(address as string) !== key(activeAccount)) throw rpcError(4100, 'Unauthorized account');
+      return activeWallet().signMessage(ethers.getBytes(message as string));
+    },
+    eth_signTypedData_v4: async ([address, json]) => {
+      consumeRejection('eth_signTypedData_v4');
+      if (key(address as string) !== key(activeAccount)) throw rpcError(4100, 'Unauthorized account');
+      const { domain, types, message } = typeof json === 'string' ? JSON.parse(json) : json;
+      const { EIP712Domain: _domainType, ...messageTypes } = types;
+      void _domainType;
+      return activeWallet().signTypedData(domain, messageTypes, message);
+    },
+  };
+
+  const provider: MockChainProvider = {
+    request: async ({ method, params }) => {
+      const handler = handlers[method];
+      if (!handler) throw rpcError(4200, `The mock chain does not support ${method}`);
+      return handler(Array.isArray(params) ? params : params === undefined ? [] : [params]);
+    },
+    on: (event, listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    },
+    removeListener: (event, listener) => {
+      listeners.get(event)?.delete(listener);
+    },
+  };
+
+  // ---- Genesis: deploy both contracts, then apply the scripted accounts and roles ----
+
+  mineBlock([]);
+  {
+    const ctx: CallContext = { sender: deployer.address, value: 0n, timestamp: nextTimestamp(), logs: [] };
+    tokenLog(ctx, 'RoleGranted', [DEFAULT_ADMIN_ROLE, deployer.address, deployer.address]);
+    recordDeployment(tokenAddress, ctx.logs);
+  }
+  {
+    const ctx: CallContext = { sender: deployer.address, value: 0n, timestamp: nextTimestamp(), logs: [] };
+    metaLog(ctx, 'OwnershipTransferred', [ethers.ZeroAddress, deployer.address]);
+    recordDeployment(metaTransferAddress, ctx.logs);
+  }
+
+  // Balances are minted straight into state, then recorded as one block of Transfer logs
+  const mint = (account: AccountRef, amount: string) => {
+    const to = typeof account === 'number' ? resolveWallet(account).address : ethers.getAddress(account);
+    const ctx: CallContext = { sender: deployer.address, value: 0n, timestamp: nextTimestamp(), logs: [] };
+    moveTokens(ctx, ethers.ZeroAddress, to, ethers.parseEther(amount));
+    const hash = ethers.keccak256(ethers.toUtf8Bytes(`mock-chain-mint:${blocks.length}:${to}:${amount}`));
+    mineBlock([{
+      hash,
+      from: deployer.address,
+      to: tokenAddress,
+      nonce: 0,
+      value: 0n,
+      gasLimit: 0n,
+      maxFeePerGas: 0n,
+      maxPriorityFeePerGas: 0n,
+      data: '0x',
+      signature: { r: ethers.toBeHex(1, 32), s: ethers.toBeHex(1, 32), yParity: 0 },
+      blockNumber: 0,
+      blockHash: ethers.ZeroHash,
+      status: 1,
+      gasUsed: 0n,
+      contractAddress: null,
+      logs: ctx.logs.map(log => ({ ...log, blockNumber: 0, blockHash: ethers.ZeroHash, transactionHash: hash, transactionIndex: 0, logIndex: 0 })),
+    }]);
+  };
+
+  const sendAs = (account: AccountRef, iface: ethers.Interface, to: string, name: string, args: unknown[]) =>
+    signAndSend(resolveWallet(account), { to, data: iface.encodeFunctionData(name, args) });
+
+  const receiptStatus = (hash: string) => {
+    const tx = transactions.get(hash)!;
+    if (tx.status === 0) throw new Error(`Mock chain transaction ${hash} reverted`);
+    return hash;
+  };
+
+  const ROLE_HASHES: Record<RoleName, string> = {
+    admin: DEFAULT_ADMIN_ROLE,
+    manufacturer: MANUFACTURER_ROLE,
+    auditor: AUDITOR_ROLE,
+  };
+
+  const mockChain = {
+    chainId: LOCAL_CHAIN_ID,
+    provider,
+    accounts: wallets.map(wallet => wallet.address),
+    deployer: deployer.address,
+    relayer: relayer.address,
+    tokenAddress,
+    metaTransferAddress,
+    roles: ROLE_HASHES,
+    wallet: resolveWallet,
+    get activeAccount() {
+      return activeAccount;
+    },
+    // Switching accounts notifies a connected page exactly like a wallet extension does
+    setActiveAccount: (account: AccountRef) => {
+      activeAccount = resolveWallet(account).address;
+      if (authorized) emitEvent('accountsChanged', [activeAccount]);
+    },
+    // Role changes go through real admin transactions, so the role event history stays consistent
+    grantRole: async (role: RoleName, account: AccountRef) =>
+      receiptStatus(await sendAs(0, ecoTokenInterface, tokenAddress, 'grantRole', [ROLE_HASHES[role], resolveWallet(account).address])),
+    revokeRole: async (role: RoleName, account: AccountRef) =>
+      receiptStatus(await sendAs(0, ecoTokenInterface, tokenAddress, 'revokeRole', [ROLE_HASHES[role], resolveWallet(account).address])),
+    approveMetaTransfer: async (account: AccountRef, amount: bigint = ethers.MaxUint256) =>
+      receiptStatus(await sendAs(account, ecoTokenInterface, tokenAddress, 'approve', [metaTransferAddress, amount])),
+    sendAs: async (account: AccountRef, contract: 'token' | 'meta', name: string, args: unknown[]) =>
+      receiptStatus(await sendAs(
+        account,
+        contract === 'token' ? ecoTokenInterface : ecoMetaTransferInterface,
+        contract === 'token' ? tokenAddress : metaTransferAddress,
+        name,
+        args
+      )),
+    sendRawTransaction: (raw: string) => executeTransaction(ethers.Transaction.from(raw)),
+    mint,
+    setEthBalance: (account: AccountRef, amount: string) => {
+      state.ethBalances.set(key(resolveWallet(account).address), ethers.parseEther(amount));
+    },
+    mine: (count = 1) => {
+      for (let i = 0; i < count; i++) mineBlock([]);
+      return blocks.length - 1;
+    },
+    increaseTime: (seconds: number) => {
+      timeOffset += seconds;
+    },
+    // The next request of this method fails as if the user clicked Reject
+    rejectNext: (method: string) => {
+      rejections.add(method);
+    },
+    snapshot: () => {
+      const id = snapshots.size + 1;
+      snapshots.set(id, { state: structuredClone(state), height: blocks.length, logCount: logs.length, txHashes: [...transactions.keys()] });
+      return id;
+    },
+    // Reverting drops the later blocks as a reorg would, then notifies block listeners
+    revert: (id: number) => {
+      const snapshot = snapshots.get(id);
+      if (!snapshot) throw new Error(`Unknown mock chain snapshot ${id}`);
+      state = structuredClone(snapshot.state);
+      blocks.length = snapshot.height;
+      logs.length = snapshot.logCount;
+      const kept = new Set(snapshot.txHashes);
+      [...transactions.keys()].forEach(hash => {
+        if (!kept.has(hash)) transactions.delete(hash);
+      });
+      emitEvent('block', blocks.length - 1);
+    },
+  };
+
+  const setup = async () => {
+    for (const [account, amount] of Object.entries(options.tokenBalances ?? {})) {
+      mint(/^\d+$/.test(account) ? Number(account) : account, amount);
+    }
+    for (const account of options.manufacturers ?? []) {
+      await mockChain.grantRole('manufacturer', account);
+    }
+    for (const account of options.auditors ?? []) {
+      await mockChain.grantRole('auditor', account);
+    }
+    if (options.approveMetaTransfer ?? true) {
+      for (const wallet of wallets.slice(0, -1)) {
+        await mockChain.approveMetaTransfer(wallet.address);
+      }
+    }
+    if (options.activeAccount !== undefined) {
+      activeAccount = resolveWallet(options.activeAccount).address;
+    }
+    return mockChain;
+  };
+
+  return setup();
+}
+
+export type MockChain = Awaited<ReturnType<typeof createMockChain>>;
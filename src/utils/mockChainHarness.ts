@@ -0,0 +1,162 @@
+import { ethers } from 'ethers';
+import { CarReader } from '@ipld/car';
+import { CID } from 'multiformats/cid';
+import { exporter } from 'ipfs-unixfs-exporter';
+import { NETWORKS, LOCAL_CHAIN_ID } from '../constants/networks';
+import { IPFS_GATEWAY_URL } from '../constants/ipfs';
+import { connectEcoMetaTransfer } from '../contracts/EcoMetaTransfer';
+import { setPinningAdapter } from './ipfs';
+import { createMockChain, MockChain, MockChainOptions } from './mockChain';
+import { decodeTxError } from './txErrors';
+
+// Wires the mock chain into the running dApp: the local network entry points at its contracts, the
+// wallet is announced over EIP-6963 so it shows up in the wallet picker, and the relayer and IPFS
+// endpoints the app calls over HTTP are answered in-process. Must run before App is imported,
+// because the wallet config reads the supported chains when it loads.
+
+declare global {
+  interface Window {
+    ecoMockChain?: MockChain;
+    ecoMockChainScenario?: () => Promise<unknown>;
+  }
+}
+
+const WALLET_INFO = {
+  uuid: '4b7e6c1e-5f0a-4d8e-9a57-0c1d2e3f4a5b',
+  name: 'EcoToken Test Wallet',
+  rdns: 'org.ecotoken.mockchain',
+  icon: 'data:image/svg+xml;base64,' + btoa(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><rect width="32" height="32" rx="8" fill="#059669"/>'
+    + '<path d="M9 22c0-8 6-13 14-13-1 8-6 14-14 13z" fill="#fff"/></svg>'
+  ),
+};
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+interface TransferFields {
+  from: string;
+  to: string;
+  amount: string;
+  nonce: number;
+  deadline: number;
+}
+
+type RelayBody = Partial<TransferFields> & {
+  transferRequest?: TransferFields;
+  signature: string | ethers.SignatureLike;
+  chainId?: number;
+};
+
+// Accepts both request shapes the app sends: the flat one and { transferRequest, signature: { v, r, s } }
+function parseRelayBody(body: RelayBody) {
+  const request = (body.transferRequest ?? body) as TransferFields;
+  const signature = typeof body.signature === 'string'
+    ? body.signature
+    : ethers.Signature.from(body.signature).serialized;
+  return { ...request, signature };
+}
+
+// Stands in for /api/relay-transfer, submitting transferWithSig from the mock chain relayer account
+export function createMockChainRelay(mockChain: MockChain) {
+  const provider = new ethers.BrowserProvider(mockChain.provider, LOCAL_CHAIN_ID);
+  const relayer = new ethers.Wallet(mockChain.wallet(mockChain.relayer).privateKey, provider);
+  const contract = connectEcoMetaTransfer(mockChain.metaTransferAddress, relayer);
+
+  return async (body: RelayBody) => {
+    if (body.chainId !== undefined && Number(body.chainId) !== LOCAL_CHAIN_ID) {
+      return jsonResponse(400, { error: `Unsupported network (chain id ${body.chainId})` });
+    }
+    try {
+      const { from, to, amount, nonce, deadline, signature } = parseRelayBody(body);
+      const tx = await contract['transferWithSig(address,address,uint256,uint256,uint256,bytes)'](from, to, amount, nonce, deadline, signature);
+      const receipt = await tx.wait();
+      return jsonResponse(200, { success: true, txHash: tx.hash, blockNumber: receipt?.blockNumber });
+    } catch (error) {
+      // Same body as the real relayer's failures
+      const { kind, reason, message } = decodeTxError(error, { fallback: 'Relay failed' });
+      return jsonResponse(400, { error: message, kind, reason });
+    }
+  };
+}
+
+// Evidence bundles are kept in memory and served back through the configured gateway URL
+function createIpfsStore() {
+  const blocks = new Map<string, Uint8Array>();
+  const blockstore = {
+    get: async (cid: CID) => {
+      const bytes = blocks.get(cid.toV1().toString());
+      if (!bytes) throw new Error(`Block ${cid} not found`);
+      return bytes;
+    },
+  };
+
+  const pinCar = async (car: Blob) => {
+    const reader = await CarReader.fromBytes(new Uint8Array(await car.arrayBuffer()));
+    for await (const block of reader.blocks()) {
+      blocks.set(block.cid.toV1().toString(), block.bytes);
+    }
+  };
+
+  const serve = async (path: string) => {
+    try {
+      const entry = await exporter(path.split('/').map(decodeURIComponent).join('/'), blockstore);
+      if (entry.type !== 'file' && entry.type !== 'raw') {
+        return new Response(`cannot serve ${entry.type} nodes`, { status: 415 });
+      }
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of entry.content()) {
+        chunks.push(chunk);
+      }
+      return new Response(new Blob(chunks));
+    } catch (error) {
+      return new Response((error as Error).message, { status: 404 });
+    }
+  };
+
+  return { pinCar, serve };
+}
+
+// Points the local network entry at the mock chain deployment, which also makes the chain supported
+export function registerMockChainNetwork(mockChain: MockChain) {
+  NETWORKS[LOCAL_CHAIN_ID].contracts = {
+    ecoToken: mockChain.tokenAddress,
+    ecoMetaTransfer: mockChain.metaTransferAddress,
+  };
+  NETWORKS[LOCAL_CHAIN_ID].deploymentBlock = 0;
+}
+
+export async function installMockChain(options: MockChainOptions = {}): Promise<MockChain> {
+  const mockChain = await createMockChain(options);
+  registerMockChainNetwork(mockChain);
+
+  const relay = createMockChainRelay(mockChain);
+  const ipfs = createIpfsStore();
+  setPinningAdapter({ name: 'mock-chain', pinCar: ipfs.pinCar });
+
+  const gatewayPrefix = `${IPFS_GATEWAY_URL.replace(/\/$/, '')}/ipfs/`;
+  const networkFetch = window.fetch.bind(window);
+  window.fetch = async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+
+    if (method === 'POST' && new URL(url, window.location.href).pathname === '/api/relay-transfer') {
+      return relay(JSON.parse(String(init?.body ?? '{}')));
+    }
+    if (method === 'GET' && url.startsWith(gatewayPrefix)) {
+      return ipfs.serve(url.slice(gatewayPrefix.length).split('?')[0]);
+    }
+    return networkFetch(input, init);
+  };
+
+  const announce = () => {
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', {
+      detail: Object.freeze({ info: WALLET_INFO, provider: mockChain.provider }),
+    }));
+  };
+  window.addEventListener('eip6963:requestProvider', announce);
+  announce();
+
+  window.ecoMockChain = mockChain;
+  return mockChain;
+}
@@ -0,0 +1,98 @@
+import { ethers } from 'ethers';
+import { TRANSFER_TYPES } from '../constants/networks';
+import { connectEcoMetaTransfer } from '../contracts/EcoMetaTransfer';
+import { connectEcoToken, parseEcoTokenEvent } from '../contracts/EcoToken';
+import { getMetaTransferDomain } from './networks';
+import { MockChain } from './mockChain';
+import { createMockChainRelay, registerMockChainNetwork } from './mockChainHarness';
+
+// End-to-end run of every wallet flow against the mock chain, the same calls the app's hooks make:
+// connect, add a manufacturer, submit an action, verify it, transfer, and a relayed gasless transfer.
+// Account 0 is the admin, 1 becomes the manufacturer, 2 the auditor and 3 receives tokens.
+// Runs in node or from the browser console via window.ecoMockChainScenario().
+
+export interface ScenarioResult {
+  manufacturerBalance: string;
+  recipientBalance: string;
+  steps: string[];
+}
+
+export async function runMockChainScenario(mockChain: MockChain): Promise<ScenarioResult> {
+  registerMockChainNetwork(mockChain);
+  const provider = new ethers.BrowserProvider(mockChain.provider, mockChain.chainId);
+  const [admin, manufacturer, auditor, recipient] = mockChain.accounts;
+  const steps: string[] = [];
+
+  const step = (message: string) => {
+    steps.push(message);
+  };
+
+  // Each step connects as a different account, as a user switching accounts in their wallet would
+  const connectAs = async (account: string) => {
+    mockChain.setActiveAccount(account);
+    const [connected] = await provider.send('eth_requestAccounts', []);
+    const signer = await provider.getSigner(connected);
+    return {
+      signer,
+      token: connectEcoToken(mockChain.tokenAddress, signer),
+    };
+  };
+
+  const asAdmin = await connectAs(admin);
+  step('Connected as admin');
+
+  await (await asAdmin.token.addManufacturer(manufacturer)).wait();
+  await (await asAdmin.token.addAuditor(auditor)).wait();
+  const manufacturerRole = await asAdmin.token.MANUFACTURER_ROLE();
+  if (!(await asAdmin.token.hasRole(manufacturerRole, manufacturer))) {
+    throw new Error('Manufacturer role was not granted');
+  }
+  step('Granted manufacturer and auditor roles');
+
+  const asManufacturer = await connectAs(manufacturer);
+  const reduction = ethers.parseEther('25');
+  const submitReceipt = await (await asManufacturer.token.submitEcoAction('Switched to solar', reduction, 'bafkreimockchain')).wait();
+  const submitted = submitReceipt?.logs
+    .map(log => parseEcoTokenEvent(log))
+    .find(event => event?.name === 'EcoActionSubmitted');
+  if (submitted?.name !== 'EcoActionSubmitted') throw new Error('EcoActionSubmitted was not emitted');
+  const actionId = submitted.args.actionId;
+  step('Submitted eco action');
+
+  const asAuditor = await connectAs(auditor);
+  await (await asAuditor.token.verifyAction(manufacturer, actionId)).wait();
+  const [, , , verified] = await asAuditor.token.manufacturerActions(manufacturer, actionId);
+  if (!verified) throw new Error('Action was not marked as verified');
+  step('Verified eco action');
+
+  const asHolder = await connectAs(manufacturer);
+  const transferAmount = ethers.parseEther('5');
+  await (await asHolder.token.transfer(recipient, transferAmount)).wait();
+  step('Transferred tokens');
+
+  // Gasless: the manufacturer only signs, the relayer account pays for the transaction
+  const metaTransfer = connectEcoMetaTransfer(mockChain.metaTransferAddress, provider);
+  const message = {
+    from: manufacturer,
+    to: recipient,
+    amount: ethers.parseEther('2').toString(),
+    nonce: Number(await metaTransfer.nonces(manufacturer)),
+    deadline: Math.floor(Date.now() / 1000) + 3600,
+  };
+  const signature = await asHolder.signer.signTypedData(getMetaTransferDomain(mockChain.chainId), TRANSFER_TYPES, message);
+  const relayResponse = await createMockChainRelay(mockChain)({ ...message, signature, chainId: mockChain.chainId });
+  const relayed = await relayResponse.json();
+  if (!relayResponse.ok) throw new Error(`Relay failed: ${relayed.error}`);
+  step('Relayed gasless transfer');
+
+  const token = connectEcoToken(mockChain.tokenAddress, provider);
+  const result = {
+    manufacturerBalance: ethers.formatEther(await token.balanceOf(manufacturer)),
+    recipientBalance: ethers.formatEther(await token.balanceOf(recipient)),
+    steps,
+  };
+  if (result.manufacturerBalance !== '18.0' || result.recipientBalance !== '7.0') {
+    throw new Error(`Unexpected balances: ${JSON.stringify(result)}`);
+  }
+  return result;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { connectEcoToken, ecoTokenInterface } from '../contracts/EcoToken';
+import { multicall3Interface } from '../contracts/Multicall3';
+import { createBatchingRunner, MULTICALL3_ADDRESS } from './multicall';
+
+const TOKEN = '0x00000000000000000000000000000000000000e1';
+// balanceOf reverts for this account
+const BROKEN = '0x000000000000000000000000000000000000dead';
+const account = (index: number) => ethers.zeroPadValue(ethers.toBeHex(index + 1), 20);
+
+interface FakeOptions {
+  multicall?: boolean;
+  failAggregate?: boolean;
+}
+
+// A provider whose token answers balanceOf(account n) with n, behind an optional Multicall3
+function fakeProvider({ multicall = true, failAggregate = false }: FakeOptions = {}) {
+  const calls = { plain: 0, aggregate: [] as number[] };
+
+  const tokenCall = (data: string): { success: boolean; returnData: string } => {
+    const [holder] = ecoTokenInterface.decodeFunctionData('balanceOf', data);
+    if (ethers.getAddress(holder) === ethers.getAddress(BROKEN)) {
+      return { success: false, returnData: '0x' };
+    }
+    return { success: true, returnData: ecoTokenInterface.encodeFunctionResult('balanceOf', [BigInt(holder)]) };
+  };
+
+  const provider = {
+    getCode: async (address: string) => (multicall && address === MULTICALL3_ADDRESS ? '0x6080' : '0x'),
+    call: async (tx: ethers.TransactionRequest) => {
+      if (tx.to === MULTICALL3_ADDRESS) {
+        const [inner] = multicall3Interface.decodeFunctionData('aggregate3', tx.data!);
+        calls.aggregate.push(inner.length);
+        if (failAggregate) throw new Error('out of gas');
+        return multicall3Interface.encodeFunctionResult('aggregate3', [
+          inner.map((call: { callData: string }) => tokenCall(call.callData)),
+        ]);
+      }
+      calls.plain += 1;
+      const result = tokenCall(tx.data!);
+      if (!result.success) throw new Error('execution reverted');
+      return result.returnData;
+    },
+  };
+  return { provider: provider as unknown as ethers.Provider, calls };
+}
+
+const balances = (provider: ethers.Provider, holders: string[]) => {
+  const token = connectEcoToken(TOKEN, createBatchingRunner(provider));
+  return Promise.allSettled(holders.map(holder => token.balanceOf(holder)));
+};
+
+describe('multicall', () => {
+  it('folds reads from the same tick into one aggregate3 call', async () => {
+    const { provider, calls } = fakeProvider();
+    const results = await balances(provider, [account(0), account(1), account(2)]);
+
+    expect(results).toEqual([1n, 2n, 3n].map(value => ({ status: 'fulfilled', value })));
+    expect(calls).toEqual({ plain: 0, aggregate: [3] });
+  });
+
+  it('fails a reverted call on its own while the rest of the batch succeeds', async () => {
+    const { provider } = fakeProvider();
+    const [first, broken, last] = await balances(provider, [account(0), BROKEN, account(2)]);
+
+    expect(first).toEqual({ status: 'fulfilled', value: 1n });
+    expect(last).toEqual({ status: 'fulfilled', value: 3n });
+    expect(broken.status).toBe('rejected');
+    expect(ethers.isError((broken as PromiseRejectedResult).reason, 'CALL_EXCEPTION')).toBe(true);
+  });
+
+  it('splits large batches into chunks of 100 calls', async () => {
+    const { provider, calls } = fakeProvider();
+    const results = await balances(provider, Array.from({ length: 250 }, (_, index) => account(index)));
+
+    expect(results.every(result => result.status === 'fulfilled')).toBe(true);
+    expect(calls.aggregate).toEqual([100, 100, 50]);
+  });
+
+  it('sends plain calls where Multicall3 is not deployed', async () => {
+    const { provider, calls } = fakeProvider({ multicall: false });
+    const results = await balances(provider, [account(0), account(1)]);
+
+    expect(results).toEqual([1n, 2n].map(value => ({ status: 'fulfilled', value })));
+    expect(calls).toEqual({ plain: 2, aggregate: [] });
+  });
+
+  it('retries every call on its own when the whole batch fails', async () => {
+    const { provider, calls } = fakeProvider({ failAggregate: true });
+    const results = await balances(provider, [account(0), BROKEN]);
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 1n });
+    expect(results[1].status).toBe('rejected');
+    expect(calls).toEqual({ plain: 2, aggregate: [2] });
+  });
+
+  it('keeps calls pinned to a block out of the batch', async () => {
+    const { provider, calls } = fakeProvider();
+    const token = connectEcoToken(TOKEN, createBatchingRunner(provider));
+
+    await Promise.all([token.balanceOf(account(0), { blockTag: 5 }), token.balanceOf(account(1), { blockTag: 5 })]);
+    expect(calls).toEqual({ plain: 2, aggregate: [] });
+  });
+});
@@ -0,0 +1,116 @@
+import { ethers } from 'ethers';
+import { multicall3Interface } from '../contracts/Multicall3';
+
+// A contract runner that folds the eth_calls issued in the same tick into one Multicall3 aggregate3
+// call. Contracts built on it are read exactly like before; a reverted call fails on its own with the
+// usual CALL_EXCEPTION while the rest of the batch succeeds. Where Multicall3 is not deployed the
+// queued calls go out as parallel plain calls.
+
+// Same address on every chain that has Multicall3 (https://www.multicall3.com)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const MAX_BATCH_SIZE = 100;
+
+interface QueuedCall {
+  tx: ethers.TransactionRequest;
+  resolve: (data: string) => void;
+  reject: (error: unknown) => void;
+}
+
+const revertError = (tx: ethers.TransactionRequest, data: string) =>
+  ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data,
+    reason: null,
+    transaction: { to: tx.to as string, from: tx.from as string | undefined, data: tx.data ?? '0x' },
+    invocation: null,
+    revert: null,
+  });
+
+export function createBatchingRunner(provider: ethers.Provider): ethers.ContractRunner {
+  let queue: QueuedCall[] = [];
+  let flushScheduled = false;
+  let hasMulticall: Promise<boolean> | null = null;
+
+  const multicallAvailable = () => {
+    if (!hasMulticall) {
+      hasMulticall = provider.getCode(MULTICALL3_ADDRESS)
+        .then(code => code !== '0x')
+        .catch(() => false);
+    }
+    return hasMulticall;
+  };
+
+  const callEach = (calls: QueuedCall[]) =>
+    calls.forEach(call => provider.call(call.tx).then(call.resolve, call.reject));
+
+  const aggregate = async (calls: QueuedCall[]) => {
+    let results: ethers.Result;
+    try {
+      const data = await provider.call({
+        to: MULTICALL3_ADDRESS,
+        data: multicall3Interface.encodeFunctionData('aggregate3', [
+          calls.map(call => ({ target: call.tx.to, allowFailure: true, callData: call.tx.data ?? '0x' })),
+        ]),
+      });
+      [results] = multicall3Interface.decodeFunctionResult('aggregate3', data);
+    } catch (error) {
+      // The batch as a whole failed (out of gas, RPC limits, ...), so give every call its own chance
+      console.warn('Multicall3 batch failed, retrying the calls one by one:', error);
+      callEach(calls);
+      return;
+    }
+
+    calls.forEach((call, index) => {
+      const { success, returnData } = results[index];
+      if (success) {
+        call.resolve(returnData);
+      } else {
+        call.reject(revertError(call.tx, returnData));
+      }
+    });
+  };
+
+  const flush = async () => {
+    flushScheduled = false;
+    const calls = queue;
+    queue = [];
+
+    if (calls.length === 1 || !(await multicallAvailable())) {
+      callEach(calls);
+      return;
+    }
+    for (let start = 0; start < calls.length; start += MAX_BATCH_SIZE) {
+      aggregate(calls.slice(start, start + MAX_BATCH_SIZE));
+    }
+  };
+
+  const call = async (tx: ethers.TransactionRequest): Promise<string> => {
+    // Calls with a sender, value or block tag keep their exact semantics
+    if (!tx.to || tx.from || tx.value || tx.blockTag !== undefined) {
+      return provider.call(tx);
+    }
+
+    const resolvedTx = { ...tx, to: await ethers.resolveAddress(tx.to, provider) };
+    return new Promise((resolve, reject) => {
+      queue.push({ tx: resolvedTx, resolve, reject });
+      if (!flushScheduled) {
+        flushScheduled = true;
+        setTimeout(flush, 0);
+      }
+    });
+  };
+
+  return { provider, call };
+}
+
+// One runner per provider, so every read through it shares the batches
+const runners = new WeakMap<ethers.Provider, ethers.ContractRunner>();
+
+export function getBatchingRunner(provider: ethers.Provider): ethers.ContractRunner {
+  let runner = runners.get(provider);
+  if (!runner) {
+    runner = createBatchingRunner(provider);
+    runners.set(provider, runner);
+  }
+  return runner;
+}
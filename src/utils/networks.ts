@@ -0,0 +1,62 @@
+import { ethers } from 'ethers';
+import { NETWORKS, NetworkConfig } from '../constants/networks';
+
+// Lookups into the network registry. Everything that needs a contract address, an explorer link
+// or an EIP-712 domain resolves it here from the chain it is talking to.
+
+export const getNetwork = (chainId: number | null | undefined): NetworkConfig | undefined =>
+  chainId === null || chainId === undefined ? undefined : NETWORKS[chainId];
+
+// A registered chain only becomes usable once the token contract is configured for it
+export const isSupportedChain = (chainId: number | null | undefined): boolean =>
+  Boolean(getNetwork(chainId)?.contracts.ecoToken);
+
+export const getSupportedNetworks = (): NetworkConfig[] =>
+  Object.values(NETWORKS).filter(network => isSupportedChain(network.chainId));
+
+export function requireNetwork(chainId: number | null | undefined): NetworkConfig {
+  const network = getNetwork(chainId);
+  if (!network || !isSupportedChain(chainId)) {
+    throw new Error(`Unsupported network (chain id ${chainId ?? 'unknown'})`);
+  }
+  return network;
+}
+
+export const getTokenAddress = (chainId: number | null | undefined): string =>
+  requireNetwork(chainId).contracts.ecoToken;
+
+// For UI code that simply shows nothing while the wallet is on an unsupported chain
+export const findTokenAddress = (chainId: number | null | undefined): string | null =>
+  isSupportedChain(chainId) ? getTokenAddress(chainId) : null;
+
+export function getMetaTransferAddress(chainId: number | null | undefined): string {
+  const network = requireNetwork(chainId);
+  if (!network.contracts.ecoMetaTransfer) {
+    throw new Error(`Gasless transfers are not available on ${network.name}`);
+  }
+  return network.contracts.ecoMetaTransfer;
+}
+
+export function getMetaTransferDomain(chainId: number | null | undefined) {
+  const network = requireNetwork(chainId);
+  return {
+    name: network.eip712.name,
+    version: network.eip712.version,
+    chainId: network.chainId,
+    verifyingContract: getMetaTransferAddress(chainId),
+  };
+}
+
+export function explorerLink(
+  chainId: number | null | undefined,
+  kind: 'address' | 'tx' | 'block',
+  value: string | number
+): string | null {
+  const base = getNetwork(chainId)?.explorerUrl;
+  return base ? `${base}/${kind}/${value}` : null;
+}
+
+export async function getProviderNetwork(provider: ethers.Provider): Promise<NetworkConfig> {
+  const { chainId } = await provider.getNetwork();
+  return requireNetwork(Number(chainId));
+}
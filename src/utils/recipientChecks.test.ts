@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { checkRecipient, checksumState } from './recipientChecks';
+
+const SELF = ethers.getAddress('0x00000000000000000000000000000000000000aa');
+const SUPPLIER = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+// Same first and last four hex characters as SUPPLIER, different in between
+const POISONED = ethers.getAddress('0x5aaeffffffffffffffffffffffffffffffffeaed');
+// Checksummed, yet every letter comes out upper case
+const ALL_CAPS = '0x52908400098527886E0F7030069857D2E4169EE7';
+
+const kinds = (warnings: { kind: string }[]) => warnings.map(warning => warning.kind);
+
+describe('recipientChecks', () => {
+  it('tells a valid, missing and broken EIP-55 checksum apart', () => {
+    expect(checksumState(SUPPLIER)).toBe('valid');
+    expect(checksumState(` ${SUPPLIER} `)).toBe('valid');
+    expect(checksumState(SUPPLIER.toLowerCase())).toBe('missing');
+    expect(checksumState(`0x${SUPPLIER.slice(2).toUpperCase()}`)).toBe('missing');
+    expect(checksumState(SUPPLIER.replace('F', 'f'))).toBe('invalid');
+
+    expect(checksumState(ALL_CAPS)).toBe('valid');
+    expect(checksumState(ALL_CAPS.toLowerCase())).toBe('missing');
+  });
+
+  it('raises nothing for a known, checksummed recipient', () => {
+    expect(checkRecipient({ address: SUPPLIER, typed: SUPPLIER, self: SELF, known: [{ address: SUPPLIER }] })).toEqual([]);
+  });
+
+  it('warns about a typed address without a checksum', () => {
+    const warnings = checkRecipient({ address: SUPPLIER, typed: SUPPLIER.toLowerCase(), self: SELF, known: [{ address: SUPPLIER }] });
+    expect(kinds(warnings)).toEqual(['noChecksum']);
+    // A picked contact or a resolved name has nothing typed to check
+    expect(checkRecipient({ address: SUPPLIER, self: SELF, known: [{ address: SUPPLIER }] })).toEqual([]);
+  });
+
+  it('flags a lookalike of a known address as poisoning', () => {
+    const warnings = checkRecipient({ address: POISONED, self: SELF, known: [{ address: SUPPLIER, label: 'Steel supplier' }] });
+
+    expect(kinds(warnings)).toEqual(['lookalike', 'firstTime']);
+    expect(warnings[0]).toMatchObject({
+      resembles: SUPPLIER,
+      message: expect.stringMatching(/^Looks like Steel supplier \(0x5aAe\.\.\.eAed\) but is a different address/),
+    });
+  });
+
+  it('compares the ends without regard to case', () => {
+    const warnings = checkRecipient({ address: POISONED, self: SELF, known: [{ address: SUPPLIER.toLowerCase() }] });
+    expect(warnings[0]).toMatchObject({ kind: 'lookalike', message: expect.stringMatching(/^Looks like 0x5aae\.\.\.eaed \(0x5aae\.\.\.eaed\)/) });
+  });
+
+  it('warns about sending to yourself or to a new address', () => {
+    expect(kinds(checkRecipient({ address: SELF, self: SELF.toLowerCase(), known: [{ address: SELF }] }))).toEqual(['self']);
+    expect(kinds(checkRecipient({ address: SUPPLIER, self: null, known: [] }))).toEqual(['firstTime']);
+  });
+});
@@ -0,0 +1,68 @@
+import { ethers } from 'ethers';
+import { RecipientWarning } from '../types';
+
+// Checks run on a recipient before anything is signed. Address poisoning relies on a lookalike:
+// an attacker grinds an address with the same first and last characters as one the victim uses and
+// sends a dust transfer from it, hoping the victim copies it out of their history next time.
+
+// Hex characters compared at each end; wallets and explorers usually show four on either side
+const LOOKALIKE_CHARS = 4;
+
+export type ChecksumState = 'valid' | 'missing' | 'invalid';
+
+// EIP-55: mixed case carries a checksum that must match; single-case input carries none, unless the
+// checksum itself happens to leave every letter in one case
+export function checksumState(input: string): ChecksumState {
+  const trimmed = input.trim();
+  if (ethers.isAddress(trimmed) && ethers.getAddress(trimmed) === trimmed) return 'valid';
+  const hex = trimmed.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return 'missing';
+  return 'invalid';
+}
+
+const ends = (address: string) => {
+  const hex = address.slice(2).toLowerCase();
+  return `${hex.slice(0, LOOKALIKE_CHARS)}:${hex.slice(-LOOKALIKE_CHARS)}`;
+};
+
+const short = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export interface RecipientCheckInput {
+  // Checksummed recipient
+  address: string;
+  // The raw text for typed addresses; omitted for ENS names and picked contacts
+  typed?: string;
+  self: string | null;
+  // Addresses the account trusts: saved contacts and recipients of its own outgoing transfers.
+  // Senders of incoming transfers are left out on purpose, as that is where poisoned entries come from.
+  known: { address: string; label?: string }[];
+}
+
+export function checkRecipient({ address, typed, self, known }: RecipientCheckInput): RecipientWarning[] {
+  const warnings: RecipientWarning[] = [];
+  const lower = address.toLowerCase();
+
+  if (self && lower === self.toLowerCase()) {
+    warnings.push({ kind: 'self', message: 'This is your own address' });
+  }
+  if (typed && checksumState(typed) === 'missing') {
+    warnings.push({
+      kind: 'noChecksum',
+      message: 'The address has no EIP-55 checksum, so a typo would not be caught. Paste it in mixed case if you can',
+    });
+  }
+
+  const exact = known.some(entry => entry.address.toLowerCase() === lower);
+  const lookalike = known.find(entry => entry.address.toLowerCase() !== lower && ends(entry.address) === ends(address));
+  if (lookalike) {
+    warnings.push({
+      kind: 'lookalike',
+      resembles: lookalike.address,
+      message: `Looks like ${lookalike.label || short(lookalike.address)} (${short(lookalike.address)}) but is a different address. This is a common address poisoning trick; compare every character`,
+    });
+  }
+  if (!exact) {
+    warnings.push({ kind: 'firstTime', message: 'You have not sent to this address before' });
+  }
+  return warnings;
+}
@@ -0,0 +1,72 @@
+import { ethers } from 'ethers';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { RoleEventLog } from '../types';
+import { CachedBlock, openProviderCache, reconcileReorg } from './chainCache';
+import { scanLogs } from './logScanner';
+import { shareTask } from './sharedTask';
+
+// Keeps the RoleGranted / RoleRevoked history in the chain cache and only
+// fetches the blocks that arrived since the last sync.
+
+const CURSOR_NAME = 'roles';
+const syncs = new Map<string, { provider: ethers.Provider; sync: (signal?: AbortSignal) => Promise<RoleEventLog[]> }>();
+
+const sortLogs = (logs: RoleEventLog[]) =>
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+async function runRoleSync(provider: ethers.Provider, contractAddress: string, signal: AbortSignal): Promise<RoleEventLog[]> {
+  const cache = await openProviderCache(provider, contractAddress);
+  await reconcileReorg(cache, provider);
+
+  const latest = await provider.getBlock('latest');
+
+  if (latest && latest.hash) {
+    await scanLogs({
+      provider,
+      cache,
+      contract: connectEcoToken(contractAddress, provider),
+      eventNames: ['RoleGranted', 'RoleRevoked'],
+      cursor: CURSOR_NAME,
+      toBlock: latest.number,
+      signal,
+      onLogs: async (events) => {
+        const logs: RoleEventLog[] = events.map(event => ({
+          role: event.args.role,
+          account: ethers.getAddress(event.args.account),
+          sender: ethers.getAddress(event.args.sender),
+          granted: event.eventName === 'RoleGranted',
+          blockNumber: event.blockNumber,
+          txHash: event.transactionHash,
+          logIndex: event.index,
+        }));
+        const seenBlocks: CachedBlock[] = events.map(event => ({ number: event.blockNumber, hash: event.blockHash }));
+
+        await cache.put('roles', logs.map(log => ({
+          id: `${log.txHash}:${log.logIndex}`,
+          blockNumber: log.blockNumber,
+          record: log,
+        })));
+        await cache.recordBlocks(seenBlocks);
+      },
+    });
+    await cache.recordBlocks([{ number: latest.number, hash: latest.hash, timestamp: latest.timestamp }]);
+  }
+
+  return sortLogs(await cache.getAll('roles'));
+}
+
+// Concurrent callers share a sync, which stops between scan windows once all of their signals have aborted
+export function syncRoleEvents(
+  provider: ethers.Provider,
+  contractAddress: string,
+  signal?: AbortSignal
+): Promise<RoleEventLog[]> {
+  // Only callers on the same provider share a sync; another chain may reuse the contract address
+  const key = contractAddress.toLowerCase();
+  let entry = syncs.get(key);
+  if (!entry || entry.provider !== provider) {
+    entry = { provider, sync: shareTask(runSignal => runRoleSync(provider, contractAddress, runSignal)) };
+    syncs.set(key, entry);
+  }
+  return entry.sync(signal);
+}
@@ -0,0 +1,164 @@
+import { ethers } from 'ethers';
+import { COMMON_ROLE_NAMES, ROLE_LABELS_URL } from '../constants/roles';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { RoleHashes } from '../types';
+import { CachedBlock, openProviderCache, reconcileReorg } from './chainCache';
+import { scanLogs } from './logScanner';
+import { getBatchingRunner } from './multicall';
+
+// Names AccessControl roles. The three role constants are read from the contract once and kept in the
+// chain cache; any other role is discovered through RoleAdminChanged events and named from the label
+// file or a list of common role names.
+
+const CONSTANTS_ID = 'roleConstants';
+const ADMINS_ID = 'roleAdmins';
+
+export interface RoleRegistry {
+  getRoleHashes: () => Promise<RoleHashes>;
+  // Loads the role constants, the label file and new RoleAdminChanged events; getRoleName only reads what is loaded
+  sync: (signal?: AbortSignal) => Promise<void>;
+  getRoleName: (roleHash: string) => string;
+}
+
+// "UPGRADER_ROLE" -> "Upgrader"
+const displayName = (constantName: string) =>
+  constantName
+    .replace(/_ROLE$/, '')
+    .split('_')
+    .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ');
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-4)}`;
+
+const commonNames = new Map(COMMON_ROLE_NAMES.map(name => [ethers.id(name), displayName(name)]));
+
+let labelsPromise: Promise<Map<string, string>> | null = null;
+
+// The label file is shared by every registry and fetched at most once; a broken file only costs the labels
+function loadRoleLabels(): Promise<Map<string, string>> {
+  if (!labelsPromise) {
+    labelsPromise = (async () => {
+      const labels = new Map<string, string>();
+      if (!ROLE_LABELS_URL) return labels;
+      try {
+        const response = await fetch(ROLE_LABELS_URL);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const entries = (await response.json()) as Record<string, unknown>;
+        Object.entries(entries).forEach(([key, label]) => {
+          if (typeof label !== 'string') return;
+          labels.set(ethers.isHexString(key, 32) ? key.toLowerCase() : ethers.id(key), label);
+        });
+      } catch (error) {
+        console.error(`Error loading role labels from ${ROLE_LABELS_URL}:`, error);
+      }
+      return labels;
+    })();
+  }
+  return labelsPromise;
+}
+
+export function createRoleRegistry(provider: ethers.Provider, contractAddress: string): RoleRegistry {
+  const contract = connectEcoToken(contractAddress, getBatchingRunner(provider));
+  let hashesPromise: Promise<RoleHashes> | null = null;
+  let builtInNames = new Map<string, string>();
+  let labels = new Map<string, string>();
+  // role -> its admin role, from the latest RoleAdminChanged of each role
+  let admins: Record<string, string> = {};
+
+  const readRoleHashes = async (): Promise<RoleHashes> => {
+    const cache = await openProviderCache(provider, contractAddress);
+    const cached = await cache.getValue<RoleHashes>(CONSTANTS_ID);
+    if (cached) return cached.value;
+
+    const [manufacturer, auditor, admin] = await Promise.all([
+      contract.MANUFACTURER_ROLE(),
+      contract.AUDITOR_ROLE(),
+      contract.DEFAULT_ADMIN_ROLE(),
+    ]);
+    const hashes: RoleHashes = { manufacturer, auditor, admin };
+    // The constants are compiled into the contract, so they are filed at block 0 where no reorg reaches them
+    await cache.putValue(CONSTANTS_ID, hashes, 0);
+    return hashes;
+  };
+
+  const getRoleHashes = () => {
+    if (!hashesPromise) {
+      hashesPromise = readRoleHashes().catch((error) => {
+        hashesPromise = null;
+        throw error;
+      });
+    }
+    return hashesPromise;
+  };
+
+  const syncAdmins = async (signal?: AbortSignal) => {
+    const cache = await openProviderCache(provider, contractAddress);
+    await reconcileReorg(cache, provider);
+
+    // The map is filed at the last scanned block, so a reorg past it drops the map and the scan starts over
+    const stored = await cache.getValue<Record<string, string>>(ADMINS_ID);
+    admins = { ...(stored?.value ?? {}) };
+    if (!stored) await cache.setCursor(ADMINS_ID, -1);
+    const latest = await provider.getBlock('latest');
+    if (!latest || !latest.hash) return;
+
+    await scanLogs({
+      provider,
+      cache,
+      contract,
+      eventNames: ['RoleAdminChanged'],
+      cursor: ADMINS_ID,
+      toBlock: latest.number,
+      signal,
+      onLogs: async (events, toBlock) => {
+        const seenBlocks: CachedBlock[] = [];
+        events.forEach(event => {
+          admins[event.args.role.toLowerCase()] = event.args.newAdminRole.toLowerCase();
+          seenBlocks.push({ number: event.blockNumber, hash: event.blockHash });
+        });
+        await cache.recordBlocks(seenBlocks);
+        await cache.putValue(ADMINS_ID, admins, toBlock);
+      },
+    });
+    await cache.recordBlocks([{ number: latest.number, hash: latest.hash, timestamp: latest.timestamp }]);
+  };
+
+  const sync = async (signal?: AbortSignal) => {
+    const [hashes, loadedLabels] = await Promise.all([getRoleHashes(), loadRoleLabels(), syncAdmins(signal)]);
+    builtInNames = new Map([
+      [hashes.admin.toLowerCase(), 'Admin'],
+      [hashes.manufacturer.toLowerCase(), 'Manufacturer'],
+      [hashes.auditor.toLowerCase(), 'Auditor'],
+    ]);
+    labels = loadedLabels;
+  };
+
+  const knownName = (roleHash: string) =>
+    labels.get(roleHash) ?? builtInNames.get(roleHash) ?? commonNames.get(roleHash);
+
+  const getRoleName = (roleHash: string) => {
+    const key = roleHash.toLowerCase();
+    const name = knownName(key);
+    if (name) return name;
+
+    // An unnamed role is still told apart by the role that administers it
+    const adminName = admins[key] && admins[key] !== ethers.ZeroHash ? knownName(admins[key]) : undefined;
+    return adminName ? `${shortHash(key)} (under ${adminName})` : shortHash(key);
+  };
+
+  return { getRoleHashes, sync, getRoleName };
+}
+
+// One registry per contract and provider, like the action indexer
+const registries = new Map<string, { provider: ethers.Provider; registry: RoleRegistry }>();
+
+export function getRoleRegistry(provider: ethers.Provider, contractAddress: string): RoleRegistry {
+  const key = contractAddress.toLowerCase();
+  const cached = registries.get(key);
+  if (cached && cached.provider === provider) {
+    return cached.registry;
+  }
+  const registry = createRoleRegistry(provider, contractAddress);
+  registries.set(key, { provider, registry });
+  return registry;
+}
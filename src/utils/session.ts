@@ -0,0 +1,10 @@
+import { WalletSession } from '../types';
+
+// A session is one (chainId, address) pair. Switching either one ends the session: everything loaded
+// for it is discarded and requests still running for it are aborted instead of landing in the new one.
+
+export const sessionKey = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+export const createSession = (chainId: number | null, address: string | null): WalletSession | null =>
+  chainId === null || !address ? null : { key: sessionKey(chainId, address), chainId, address };
+
@@ -0,0 +1,44 @@
+// One run of a task for every caller that asks while it is in flight, e.g. a log sync that several
+// panels start at once. Each caller stops waiting as soon as its own signal aborts; the run itself is
+// only aborted once every caller that joined it has, so a session that ends does not cancel the sync
+// another one still needs. Callers without a signal keep the run alive.
+
+interface Run<T> {
+  pending: Promise<T>;
+  controller: AbortController;
+  callers: number;
+}
+
+export function shareTask<T>(task: (signal: AbortSignal) => Promise<T>): (signal?: AbortSignal) => Promise<T> {
+  let current: Run<T> | null = null;
+
+  return (signal) => {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    // An aborting run is left to wind down; new callers get a fresh one
+    if (!current || current.controller.signal.aborted) {
+      const controller = new AbortController();
+      const run: Run<T> = {
+        controller,
+        callers: 0,
+        pending: task(controller.signal).finally(() => {
+          if (current === run) current = null;
+        }),
+      };
+      current = run;
+    }
+    const run = current;
+    run.callers += 1;
+    if (!signal) return run.pending;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal.reason);
+        run.callers -= 1;
+        if (run.callers === 0) run.controller.abort(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      run.pending.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  };
+}
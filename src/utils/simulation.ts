@@ -0,0 +1,64 @@
+import { ethers } from 'ethers';
+import { TypedContractMethod } from '../contracts/common';
+import { asError, decodeTxError, TxError, TxErrorOptions } from './txErrors';
+
+// Dry-runs a write with eth_call and estimateGas on exactly the calldata the wallet will be asked to
+// sign, so a call that would revert is explained before anything is signed or paid for.
+
+export interface SimulationPreview {
+  gasLimit: bigint;
+  // Upper bound in wei: the gas estimate at the current max fee per gas
+  gasCost: bigint;
+  // What the transaction is expected to change, in the words shown to the user
+  changes: string[];
+}
+
+export type SimulationResult =
+  | ({ ok: true } & SimulationPreview)
+  | { ok: false; error: TxError };
+
+export interface SimulationOptions extends TxErrorOptions {
+  from: string;
+  changes?: string[];
+}
+
+export async function simulateWrite<Args extends unknown[]>(
+  provider: ethers.Provider,
+  method: TypedContractMethod<Args, unknown, 'nonpayable' | 'payable'>,
+  args: Args,
+  { from, changes = [], ...errorOptions }: SimulationOptions
+): Promise<SimulationResult> {
+  try {
+    const tx = { ...(await method.populateTransaction(...args)), from };
+    // The call surfaces the revert data; the estimate also catches failures that only show with gas accounting
+    const [, gasLimit, feeData] = await Promise.all([
+      provider.call(tx),
+      provider.estimateGas(tx),
+      provider.getFeeData(),
+    ]);
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    return { ok: true, gasLimit, gasCost: gasLimit * gasPrice, changes };
+  } catch (error) {
+    return { ok: false, error: decodeTxError(error, errorOptions) };
+  }
+}
+
+// "Grants the Auditor role to 0x12…ab · max fee 0.00021 ETH"
+export function describePreview({ changes, gasCost }: SimulationPreview): string {
+  const fee = `max fee ${Number(ethers.formatEther(gasCost)).toPrecision(2)} ETH`;
+  return [...changes, fee].join(' · ');
+}
+
+// Simulates and returns the preview, or throws the decoded failure so the caller never reaches the wallet
+export async function preflight<Args extends unknown[]>(
+  provider: ethers.Provider,
+  method: TypedContractMethod<Args, unknown, 'nonpayable' | 'payable'>,
+  args: Args,
+  options: SimulationOptions
+): Promise<SimulationPreview> {
+  const result = await simulateWrite(provider, method, args, options);
+  if (!result.ok) {
+    throw asError(result.error);
+  }
+  return result;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { SiweMessageFields } from '../types';
+import { buildSiweMessage, parseSiweMessage } from './siwe';
+
+const FIELDS: SiweMessageFields = {
+  domain: 'app.example.com',
+  address: '0x1234567890AbcdEF1234567890aBcdef12345678',
+  statement: 'Sign in to EcoToken',
+  uri: 'https://app.example.com',
+  version: '1',
+  chainId: 11155111,
+  nonce: 'a1b2c3d4e5f6a7b8',
+  issuedAt: '2024-05-01T10:00:00.000Z',
+  expirationTime: '2024-05-01T10:10:00.000Z',
+};
+
+const replaceLine = (message: string, prefix: string, line: string) =>
+  message.split('\n').map(current => (current.startsWith(prefix) ? line : current)).join('\n');
+
+describe('siwe', () => {
+  it('parses back exactly what it builds', () => {
+    expect(parseSiweMessage(buildSiweMessage(FIELDS))).toEqual(FIELDS);
+    const minimal = { ...FIELDS, statement: undefined, expirationTime: undefined };
+    expect(parseSiweMessage(buildSiweMessage(minimal))).toEqual(minimal);
+  });
+
+  it('lays the message out as EIP-4361 specifies', () => {
+    expect(buildSiweMessage(FIELDS).split('\n').slice(0, 6)).toEqual([
+      'app.example.com wants you to sign in with your Ethereum account:',
+      '0x1234567890AbcdEF1234567890aBcdef12345678',
+      '',
+      'Sign in to EcoToken',
+      '',
+      'URI: https://app.example.com',
+    ]);
+  });
+
+  it('rejects anything that is not a sign-in message', () => {
+    expect(() => parseSiweMessage('Please sign this')).toThrow('Not a Sign-In with Ethereum message');
+  });
+
+  it('requires a checksummed address', () => {
+    const message = buildSiweMessage(FIELDS).replace(FIELDS.address, FIELDS.address.toLowerCase());
+    expect(() => parseSiweMessage(message)).toThrow('Address must be EIP-55 checksummed');
+  });
+
+  it('rejects missing and malformed fields', () => {
+    const message = buildSiweMessage(FIELDS);
+    expect(() => parseSiweMessage(replaceLine(message, 'Nonce:', 'Nonce: short'))).toThrow('Invalid nonce');
+    expect(() => parseSiweMessage(replaceLine(message, 'Version:', 'Version: 2'))).toThrow('Unsupported version 2');
+    expect(() => parseSiweMessage(replaceLine(message, 'Chain ID:', 'Chain ID: mainnet'))).toThrow('Invalid chain id');
+    expect(() => parseSiweMessage(replaceLine(message, 'URI:', 'URI: not a uri'))).toThrow('Invalid URI');
+    expect(() => parseSiweMessage(replaceLine(message, 'Issued At:', 'Issued At: yesterday'))).toThrow('Invalid "Issued At"');
+    expect(() => parseSiweMessage(replaceLine(message, 'Expiration Time:', 'Expiration Time: never')))
+      .toThrow('Invalid "Expiration Time"');
+    expect(() => parseSiweMessage(replaceLine(message, 'Nonce:', 'Nonce'))).toThrow('Malformed field "Nonce"');
+    expect(() => parseSiweMessage(replaceLine(message, 'Nonce:', ''))).toThrow();
+  });
+});
@@ -0,0 +1,104 @@
+import { ethers } from 'ethers';
+import { SiweMessageFields } from '../types';
+
+// Builds and parses EIP-4361 messages. The browser builds the message it asks the wallet to sign and
+// the auth endpoint parses the same text back, so both sides must agree on this exact layout.
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const OPTIONAL_FIELDS: [keyof SiweMessageFields, string][] = [
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+];
+
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain}${HEADER_SUFFIX}`,
+    ethers.getAddress(fields.address),
+    '',
+    ...(fields.statement ? [fields.statement, ''] : ['']),
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  ];
+  OPTIONAL_FIELDS.forEach(([key, label]) => {
+    if (fields[key] !== undefined) lines.push(`${label}: ${fields[key]}`);
+  });
+  return lines.join('\n');
+}
+
+// Throws on anything that is not a well-formed message, so a signature over it is never accepted
+export function parseSiweMessage(message: string): SiweMessageFields {
+  const lines = message.split('\n');
+  if (!lines[0]?.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Not a Sign-In with Ethereum message');
+  }
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length);
+  const address = lines[1];
+  if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    throw new Error('Address must be EIP-55 checksummed');
+  }
+  if (lines[2] !== '') {
+    throw new Error('Malformed message header');
+  }
+
+  // Either a blank line or a statement followed by a blank line precedes the fields
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index];
+    index++;
+    if (lines[index] !== '') throw new Error('Malformed statement');
+  }
+  index++;
+
+  const values = new Map<string, string>();
+  for (const line of lines.slice(index)) {
+    const separator = line.indexOf(': ');
+    if (separator === -1) throw new Error(`Malformed field "${line}"`);
+    values.set(line.slice(0, separator), line.slice(separator + 2));
+  }
+
+  const required = (label: string) => {
+    const value = values.get(label);
+    if (!value) throw new Error(`Missing "${label}"`);
+    return value;
+  };
+  const timestamp = (label: string, value: string) => {
+    if (Number.isNaN(Date.parse(value))) throw new Error(`Invalid "${label}"`);
+    return value;
+  };
+
+  const version = required('Version');
+  if (version !== '1') throw new Error(`Unsupported version ${version}`);
+  const chainId = Number(required('Chain ID'));
+  if (!Number.isInteger(chainId) || chainId <= 0) throw new Error('Invalid chain id');
+  const nonce = required('Nonce');
+  if (!/^[a-zA-Z0-9]{8,}$/.test(nonce)) throw new Error('Invalid nonce');
+  const uri = required('URI');
+  try {
+    new URL(uri);
+  } catch {
+    throw new Error('Invalid URI');
+  }
+
+  const fields: SiweMessageFields = {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt: timestamp('Issued At', required('Issued At')),
+  };
+  OPTIONAL_FIELDS.forEach(([key, label]) => {
+    const value = values.get(label);
+    if (value === undefined) return;
+    Object.assign(fields, { [key]: key === 'requestId' ? value : timestamp(label, value) });
+  });
+  return fields;
+}
@@ -0,0 +1,238 @@
+import { ethers } from 'ethers';
+import { connectEcoMetaTransfer } from '../contracts/EcoMetaTransfer';
+import { connectEcoToken } from '../contracts/EcoToken';
+import { TransferHistoryFilter, TransferHistoryPage, TransferLog, TransferRecord } from '../types';
+import { CachedBlock, ChainCache, openProviderCache, reconcileReorg } from './chainCache';
+import { scanLogs } from './logScanner';
+import { getNetwork } from './networks';
+import { sessionKey } from './session';
+import { shareTask } from './sharedTask';
+
+// An account's ECO history built from the token's Transfer events, so it covers transfers made in
+// any tab, wallet or dApp and survives a reload. Only events sent or received by the account are
+// fetched, under cursors of its own, and kept in the token's chain cache; EcoMetaTransfer's
+// TransferWithSig logs go in its own cache and mark the token transfer in the same transaction as gasless.
+
+type Listener = () => void;
+
+export interface TransferHistory {
+  // Reads what an earlier session indexed, without scanning for new events
+  load: () => Promise<void>;
+  // Callers share one sync, which stops between scan windows once all of their signals have aborted
+  sync: (signal?: AbortSignal) => Promise<void>;
+  // Newest first
+  getTransfers: (filter?: TransferHistoryFilter) => TransferRecord[];
+  getPage: (filter: TransferHistoryFilter, page: number, pageSize: number) => TransferHistoryPage;
+  subscribe: (listener: Listener) => () => void;
+}
+
+const TRANSFERS_CURSOR = 'transfers';
+const GASLESS_CURSOR = 'transfersWithSig';
+
+// A relayed transfer moves the signer's tokens, so its Transfer and TransferWithSig share all three
+const relayKey = (log: { txHash: string; from: string; to: string }) =>
+  `${log.txHash}:${log.from.toLowerCase()}:${log.to.toLowerCase()}`;
+
+const matchesFilter = (record: TransferRecord, { counterparty, direction, since, until }: TransferHistoryFilter) => {
+  if (counterparty && !record.counterparty.toLowerCase().includes(counterparty.trim().toLowerCase())) return false;
+  if (direction && record.direction !== direction) return false;
+  // A transfer whose block time is still unknown cannot be placed in a date range
+  if (since !== undefined && (record.timestamp === undefined || record.timestamp < since)) return false;
+  if (until !== undefined && (record.timestamp === undefined || record.timestamp >= until)) return false;
+  return true;
+};
+
+// Stores one scan window of Transfer or TransferWithSig events in the given cache
+const storeTransferLogs = (cache: ChainCache) => async (events: ethers.EventLog[]) => {
+  const logs: TransferLog[] = events.map(event => ({
+    from: ethers.getAddress(event.args.from),
+    to: ethers.getAddress(event.args.to),
+    value: (event.eventName === 'TransferWithSig' ? event.args.amount : event.args.value).toString(),
+    blockNumber: event.blockNumber,
+    txHash: event.transactionHash,
+    logIndex: event.index,
+  }));
+  const seenBlocks: CachedBlock[] = events.map(event => ({ number: event.blockNumber, hash: event.blockHash }));
+
+  await cache.put('transfers', logs.map(log => ({
+    id: `${log.txHash}:${log.logIndex}`,
+    blockNumber: log.blockNumber,
+    record: log,
+  })));
+  await cache.recordBlocks(seenBlocks);
+};
+
+export function createTransferHistory(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  // Null where gasless transfers are not deployed; every transfer then counts as direct
+  metaTransferAddress: string | null,
+  account: string
+): TransferHistory {
+  const me = account.toLowerCase();
+  // Transfer and TransferWithSig both index from and to: the account as sender, then as recipient
+  const accountTopic = ethers.zeroPadValue(account, 32);
+  const accountFilters = [[accountTopic], [null, accountTopic]];
+  const listeners = new Set<Listener>();
+  let records: TransferRecord[] = [];
+  let cachesPromise: Promise<[ChainCache, ChainCache | null]> | null = null;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const rebuild = async (tokenCache: ChainCache, metaCache: ChainCache | null) => {
+    const [tokenLogs, relayedLogs] = await Promise.all([
+      tokenCache.getAll('transfers'),
+      metaCache ? metaCache.getAll('transfers') : Promise.resolve([]),
+    ]);
+    const relayed = new Set(relayedLogs.map(relayKey));
+    const mine = tokenLogs.filter(log => log.from.toLowerCase() === me || log.to.toLowerCase() === me);
+    const timestamps = await tokenCache.getBlockTimestamps(provider, mine.map(log => log.blockNumber));
+
+    records = mine
+      .map((log): TransferRecord => {
+        const outgoing = log.from.toLowerCase() === me;
+        const incoming = log.to.toLowerCase() === me;
+        return {
+          id: `${log.txHash}:${log.logIndex}`,
+          direction: outgoing && incoming ? 'self' : outgoing ? 'out' : 'in',
+          counterparty: outgoing ? log.to : log.from,
+          from: log.from,
+          to: log.to,
+          value: log.value,
+          gasless: relayed.has(relayKey(log)),
+          blockNumber: log.blockNumber,
+          txHash: log.txHash,
+          logIndex: log.logIndex,
+          timestamp: timestamps.get(log.blockNumber),
+        };
+      })
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+  };
+
+  const openCaches = () => {
+    if (!cachesPromise) {
+      cachesPromise = Promise.all([
+        openProviderCache(provider, tokenAddress),
+        metaTransferAddress ? openProviderCache(provider, metaTransferAddress) : Promise.resolve(null),
+      ]);
+    }
+    return cachesPromise;
+  };
+
+  const load = async () => {
+    const [tokenCache, metaCache] = await openCaches();
+    await rebuild(tokenCache, metaCache);
+    notify();
+  };
+
+  const runSync = async (signal: AbortSignal) => {
+    const [tokenCache, metaCache] = await openCaches();
+    await reconcileReorg(tokenCache, provider);
+    if (metaCache) await reconcileReorg(metaCache, provider);
+
+    const latest = await provider.getBlock('latest');
+    if (!latest || !latest.hash) return;
+    const latestBlock: CachedBlock = { number: latest.number, hash: latest.hash, timestamp: latest.timestamp };
+
+    await scanLogs({
+      provider,
+      cache: tokenCache,
+      contract: connectEcoToken(tokenAddress, provider),
+      eventNames: ['Transfer'],
+      topicFilters: accountFilters,
+      cursor: `${TRANSFERS_CURSOR}:${me}`,
+      toBlock: latest.number,
+      signal,
+      onLogs: storeTransferLogs(tokenCache),
+    });
+    await tokenCache.recordBlocks([latestBlock]);
+
+    if (metaCache && metaTransferAddress) {
+      await scanLogs({
+        provider,
+        cache: metaCache,
+        contract: connectEcoMetaTransfer(metaTransferAddress, provider),
+        eventNames: ['TransferWithSig'],
+        topicFilters: accountFilters,
+        cursor: `${GASLESS_CURSOR}:${me}`,
+        toBlock: latest.number,
+        signal,
+        onLogs: storeTransferLogs(metaCache),
+      });
+      await metaCache.recordBlocks([latestBlock]);
+    }
+
+    await rebuild(tokenCache, metaCache);
+    notify();
+  };
+
+  const sync = shareTask(runSync);
+
+  const getTransfers = (filter: TransferHistoryFilter = {}) =>
+    records.filter(record => matchesFilter(record, filter));
+
+  return {
+    load,
+    sync,
+    getTransfers,
+    getPage: (filter, page, pageSize) => {
+      const transfers = getTransfers(filter);
+      const pageCount = Math.max(1, Math.ceil(transfers.length / pageSize));
+      const current = Math.min(Math.max(page, 0), pageCount - 1);
+      return {
+        transfers: transfers.slice(current * pageSize, (current + 1) * pageSize),
+        total: transfers.length,
+        page: current,
+        pageCount,
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// One history per account and provider, so the forms and the live event handler share one sync
+const histories = new Map<string, { provider: ethers.Provider; history: TransferHistory }>();
+
+export function getTransferHistory(
+  provider: ethers.Provider,
+  chainId: number,
+  account: string
+): TransferHistory | null {
+  const network = getNetwork(chainId);
+  if (!network?.contracts.ecoToken) return null;
+
+  const key = sessionKey(chainId, account);
+  const cached = histories.get(key);
+  if (cached && cached.provider === provider) {
+    return cached.history;
+  }
+  const history = createTransferHistory(provider, network.contracts.ecoToken, network.contracts.ecoMetaTransfer || null, account);
+  histories.set(key, { provider, history });
+  return history;
+}
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function transfersToCsv(transfers: TransferRecord[]): string {
+  const header = ['date', 'direction', 'counterparty', 'from', 'to', 'amount_eco', 'type', 'block', 'tx_hash'];
+  const rows = transfers.map(record => [
+    record.timestamp !== undefined ? new Date(record.timestamp * 1000).toISOString() : '',
+    record.direction,
+    record.counterparty,
+    record.from,
+    record.to,
+    ethers.formatEther(record.value),
+    record.gasless ? 'gasless' : 'direct',
+    record.blockNumber,
+    record.txHash,
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { ecoTokenInterface } from '../contracts/EcoToken';
+import { asError, decodeTxError } from './txErrors';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const MANUFACTURER_ROLE = ethers.id('MANUFACTURER_ROLE');
+
+// The shape ethers gives a reverted estimateGas or call, wrapping the node's JSON-RPC error
+const callException = (data: string) => ({
+  code: 'CALL_EXCEPTION',
+  message: 'execution reverted',
+  info: { error: { code: 3, message: 'execution reverted', data } },
+});
+
+const errorString = (reason: string) =>
+  ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+
+describe('decodeTxError', () => {
+  it('recognises a wallet rejection however deeply it is nested', () => {
+    const wagmiError = { name: 'ConnectorError', cause: { shortMessage: 'User rejected the request.', cause: { code: 4001 } } };
+    expect(decodeTxError(wagmiError)).toMatchObject({ kind: 'rejected', code: 4001 });
+    expect(decodeTxError({ code: 'ACTION_REJECTED' }).kind).toBe('rejected');
+  });
+
+  it('decodes EcoToken custom errors and names the missing role', () => {
+    const data = ecoTokenInterface.encodeErrorResult('AccessControlUnauthorizedAccount', [ACCOUNT, MANUFACTURER_ROLE]);
+    const decoded = decodeTxError(callException(data), {
+      roleName: role => (role === MANUFACTURER_ROLE ? 'Manufacturer' : role),
+    });
+
+    expect(decoded).toMatchObject({ kind: 'contract', reason: 'AccessControlUnauthorizedAccount' });
+    expect(decoded.message).toBe('Account 0x1234…7890 does not have the Manufacturer role');
+  });
+
+  it('formats balances in insufficient balance errors', () => {
+    const data = ecoTokenInterface.encodeErrorResult('ERC20InsufficientBalance', [ACCOUNT, ethers.parseEther('1.5'), ethers.parseEther('4')]);
+    expect(decodeTxError(callException(data)).message)
+      .toBe('Insufficient balance: 1.5 ECO available, 4.0 ECO needed');
+  });
+
+  it('reads require reasons and panics', () => {
+    expect(decodeTxError(callException(errorString('Signature expired')))).toMatchObject({
+      kind: 'reverted',
+      reason: 'Signature expired',
+      message: 'Transaction reverted: Signature expired',
+    });
+    const panic = ethers.concat(['0x4e487b71', ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11])]);
+    expect(decodeTxError(callException(panic)).reason).toBe('panic 0x11');
+  });
+
+  it('tells a mined revert from a simulated one', () => {
+    expect(decodeTxError({ code: 'CALL_EXCEPTION' }).message).toBe('Transaction would revert');
+    expect(decodeTxError({ code: 'CALL_EXCEPTION', receipt: { status: 0 } }).message).toBe('Transaction reverted on-chain');
+  });
+
+  it('separates cancelled from replaced transactions', () => {
+    expect(decodeTxError({ code: 'TRANSACTION_REPLACED', reason: 'cancelled' }).kind).toBe('cancelled');
+    expect(decodeTxError({ code: 'TRANSACTION_REPLACED', reason: 'replaced' }).kind).toBe('replaced');
+  });
+
+  it('classifies gas, nonce and network failures from codes or node wording', () => {
+    expect(decodeTxError({ message: 'insufficient funds for gas * price + value' }).kind).toBe('insufficientFunds');
+    expect(decodeTxError({ error: { message: 'replacement transaction underpriced' } }).code).toBe('REPLACEMENT_UNDERPRICED');
+    expect(decodeTxError({ error: { message: 'nonce too low' } }).code).toBe('NONCE_EXPIRED');
+    expect(decodeTxError({ code: 'TIMEOUT' }).kind).toBe('network');
+  });
+
+  it('explains JSON-RPC error codes', () => {
+    expect(decodeTxError({ error: { code: -32005, message: 'limit exceeded' } }).message)
+      .toBe('The RPC node is rate limiting requests. Try again shortly');
+    expect(decodeTxError({ error: { code: -32000, message: 'header not found' } }).message)
+      .toBe('RPC error -32000: header not found');
+  });
+
+  it('passes an already decoded error through', () => {
+    const relayed = asError({ kind: 'relay', message: 'Relayer is out of funds' });
+    expect(decodeTxError(relayed)).toMatchObject({ kind: 'relay', message: 'Relayer is out of funds' });
+  });
+
+  it('falls back to the error text, then to the caller\'s fallback', () => {
+    expect(decodeTxError(new Error('socket hang up')).message).toBe('socket hang up');
+    expect(decodeTxError({}, { fallback: 'Failed to verify action' })).toEqual({ kind: 'unknown', message: 'Failed to verify action' });
+  });
+});
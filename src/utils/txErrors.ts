@@ -0,0 +1,208 @@
+import { ethers } from 'ethers';
+import { revertData } from '../contracts/common';
+import { decodeEcoTokenError, EcoTokenError } from '../contracts/EcoToken';
+
+// Turns whatever a wallet, RPC node or contract threw into one structured error with a message that
+// can go straight into a toast. Revert data is decoded against the EcoToken ABI; EcoMetaTransfer only
+// reverts with require strings, and token errors bubble up through it unchanged. Wallet (EIP-1193) and
+// JSON-RPC codes are found wherever ethers, wagmi or the wallet nested the original error.
+
+export type TxErrorKind =
+  | 'rejected'          // 4001: the user declined in the wallet
+  | 'unauthorized'      // 4100: the wallet has not authorised the account
+  | 'unknownChain'      // 4902: the wallet does not know the chain
+  | 'contract'          // a custom error from the contract ABI
+  | 'reverted'          // require(...) reason, panic or a revert without data
+  | 'insufficientFunds' // not enough ETH for value plus gas
+  | 'nonce'             // nonce already used or replacement underpriced
+  | 'network'           // RPC unreachable or timing out
+  | 'rpc'               // any other JSON-RPC error
+  | 'relay'             // the relay service failed or could not be reached
+  | 'replaced'          // another transaction took the nonce
+  | 'cancelled'         // a cancellation took the nonce
+  | 'dropped'           // the transaction left the mempool without being mined
+  | 'unknown';
+
+export interface TxError {
+  kind: TxErrorKind;
+  message: string;
+  // Custom error name or require reason
+  reason?: string;
+  contractError?: EcoTokenError;
+  code?: string | number;
+}
+
+export interface TxErrorOptions {
+  // Names the role in AccessControlUnauthorizedAccount, e.g. the role registry's getRoleName
+  roleName?: (roleHash: string) => string;
+  // Shown for errors that carry no text of their own
+  fallback?: string;
+}
+
+const TX_ERROR_KINDS: TxErrorKind[] = [
+  'rejected', 'unauthorized', 'unknownChain', 'contract', 'reverted', 'insufficientFunds',
+  'nonce', 'network', 'rpc', 'relay', 'replaced', 'cancelled', 'dropped', 'unknown',
+];
+
+interface NestedError {
+  code?: unknown;
+  message?: unknown;
+  shortMessage?: unknown;
+  reason?: unknown;
+  receipt?: unknown;
+  kind?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+  cause?: unknown;
+}
+
+// The error and everything it wraps, outermost first
+function errorChain(error: unknown): NestedError[] {
+  const chain: NestedError[] = [];
+  let current = error;
+  while (current && typeof current === 'object' && chain.length < 6 && !chain.includes(current as NestedError)) {
+    chain.push(current as NestedError);
+    const { error: inner, info, cause } = current as NestedError;
+    current = inner ?? info?.error ?? cause;
+  }
+  return chain;
+}
+
+const textOf = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+const shortHex = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`;
+
+const formatEco = (amount: bigint) => `${ethers.formatEther(amount)} ECO`;
+
+function contractErrorMessage(error: EcoTokenError, options: TxErrorOptions): string {
+  switch (error.name) {
+    case 'AccessControlUnauthorizedAccount': {
+      const role = options.roleName?.(error.args.neededRole) ?? shortHex(error.args.neededRole);
+      return `Account ${shortHex(error.args.account)} does not have the ${role} role`;
+    }
+    case 'AccessControlBadConfirmation':
+      return 'Roles can only be renounced by the account that holds them';
+    case 'ERC20InsufficientBalance':
+      return `Insufficient balance: ${formatEco(error.args.balance)} available, ${formatEco(error.args.needed)} needed`;
+    case 'ERC20InsufficientAllowance':
+      return `Insufficient allowance: ${shortHex(error.args.spender)} may spend ${formatEco(error.args.allowance)}, ${formatEco(error.args.needed)} needed`;
+    case 'ERC20InvalidReceiver':
+      return 'Tokens cannot be sent to this recipient address';
+    case 'ERC20InvalidSender':
+      return 'Tokens cannot be sent from this address';
+    case 'ERC20InvalidSpender':
+      return 'This address cannot be approved as a spender';
+    case 'ERC20InvalidApprover':
+      return 'This address cannot approve spenders';
+  }
+}
+
+// Error(string) and Panic(uint256), the two reverts every contract can produce
+function builtInRevertReason(data: string): string | undefined {
+  try {
+    if (data.startsWith('0x08c379a0')) {
+      return ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(data, 4))[0];
+    }
+    if (data.startsWith('0x4e487b71')) {
+      const [code] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], ethers.dataSlice(data, 4));
+      return `panic 0x${code.toString(16)}`;
+    }
+  } catch {
+    // Malformed payload: treated as a revert without a reason
+  }
+  return undefined;
+}
+
+const isTxErrorKind = (value: unknown): value is TxErrorKind =>
+  typeof value === 'string' && TX_ERROR_KINDS.includes(value as TxErrorKind);
+
+export function decodeTxError(error: unknown, options: TxErrorOptions = {}): TxError {
+  const chain = errorChain(error);
+  const codes = chain.map(entry => entry.code);
+  const messages = chain.map(entry => textOf(entry.shortMessage) ?? textOf(entry.message)).filter(Boolean) as string[];
+  const allText = messages.join(' ');
+
+  // Already decoded, e.g. rebuilt from a relay response by asError
+  const [outer] = chain;
+  if (outer && isTxErrorKind(outer.kind) && textOf(outer.message)) {
+    // An Error's message is not enumerable, so the spread alone would drop it
+    return { ...(outer as TxError), message: outer.message as string };
+  }
+
+  if (codes.includes(4001) || codes.includes('ACTION_REJECTED')) {
+    return { kind: 'rejected', code: 4001, message: 'Request was rejected in your wallet' };
+  }
+  if (codes.includes(4100)) {
+    return { kind: 'unauthorized', code: 4100, message: 'The wallet has not authorised this account. Reconnect it and try again' };
+  }
+  if (codes.includes(4902)) {
+    return { kind: 'unknownChain', code: 4902, message: 'This network has not been added to your wallet yet' };
+  }
+
+  const contractError = decodeEcoTokenError(error);
+  if (contractError) {
+    return {
+      kind: 'contract',
+      code: 'CALL_EXCEPTION',
+      reason: contractError.name,
+      contractError,
+      message: contractErrorMessage(contractError, options),
+    };
+  }
+
+  const data = revertData(error);
+  const revertReason = (data ? builtInRevertReason(data) : undefined)
+    ?? chain.map(entry => textOf(entry.reason)).find(Boolean);
+  if (data || codes.includes('CALL_EXCEPTION')) {
+    const mined = chain.some(entry => entry.receipt);
+    return {
+      kind: 'reverted',
+      code: 'CALL_EXCEPTION',
+      reason: revertReason,
+      message: revertReason
+        ? `Transaction reverted: ${revertReason}`
+        : mined ? 'Transaction reverted on-chain' : 'Transaction would revert',
+    };
+  }
+
+  if (codes.includes('TRANSACTION_REPLACED')) {
+    const cancelled = chain.some(entry => entry.reason === 'cancelled');
+    return cancelled
+      ? { kind: 'cancelled', code: 'TRANSACTION_REPLACED', message: 'The transaction was cancelled' }
+      : { kind: 'replaced', code: 'TRANSACTION_REPLACED', message: 'The transaction was replaced by another one with the same nonce' };
+  }
+  if (codes.includes('INSUFFICIENT_FUNDS') || /insufficient funds/i.test(allText)) {
+    return { kind: 'insufficientFunds', code: 'INSUFFICIENT_FUNDS', message: 'Not enough ETH to pay for gas' };
+  }
+  if (codes.includes('REPLACEMENT_UNDERPRICED') || /replacement (transaction )?underpriced/i.test(allText)) {
+    return { kind: 'nonce', code: 'REPLACEMENT_UNDERPRICED', message: 'A pending transaction uses this nonce; raise the gas price to replace it' };
+  }
+  if (codes.includes('NONCE_EXPIRED') || /nonce (too low|has already been used)/i.test(allText)) {
+    return { kind: 'nonce', code: 'NONCE_EXPIRED', message: 'This nonce was already used. Reset the account in your wallet if this repeats' };
+  }
+
+  const networkCode = codes.find(code => code === 'NETWORK_ERROR' || code === 'TIMEOUT' || code === 'SERVER_ERROR');
+  if (networkCode) {
+    return { kind: 'network', code: networkCode as string, message: 'Could not reach the network. Check your connection or RPC endpoint' };
+  }
+
+  // JSON-RPC 2.0 codes (-32700 .. -32000) and the EIP-1474 extensions
+  const rpcIndex = codes.findIndex(code => typeof code === 'number' && code <= -32000 && code >= -32700);
+  if (rpcIndex !== -1) {
+    const code = codes[rpcIndex] as number;
+    const rpcMessage = textOf(chain[rpcIndex].message) ?? 'request failed';
+    if (code === -32005) {
+      return { kind: 'rpc', code, message: 'The RPC node is rate limiting requests. Try again shortly' };
+    }
+    if (code === -32601) {
+      return { kind: 'rpc', code, message: 'The wallet or RPC node does not support this request' };
+    }
+    return { kind: 'rpc', code, message: `RPC error ${code}: ${rpcMessage}` };
+  }
+
+  return { kind: 'unknown', message: messages[0] ?? options.fallback ?? 'Transaction failed' };
+}
+
+// An Error carrying a decoded TxError, for errors that crossed an API boundary as JSON
+export const asError = (txError: TxError): Error & TxError =>
+  Object.assign(new Error(txError.message), txError);
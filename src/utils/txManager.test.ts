@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { createTransactionManager } from './txManager';
+
+const CHAIN_ID = 11155111;
+const SENDER = '0x00000000000000000000000000000000000000aa';
+const TOKEN = '0x00000000000000000000000000000000000000e1';
+const NONCE = 7;
+
+interface MinedTx {
+  hash: string;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: bigint;
+}
+
+// A provider that knows what the test puts in its mempool and blocks, and a wallet that sends through it
+function fakeProvider() {
+  let latest = 100;
+  let sent = 0;
+  let minedNonce = NONCE;
+  const mempool = new Set<string>();
+  const receipts = new Map<string, { hash: string; blockNumber: number; status: number }>();
+  const blocks = new Map<number, MinedTx[]>();
+
+  const mine = (tx: MinedTx) => {
+    latest += 1;
+    blocks.set(latest, [tx]);
+    mempool.delete(tx.hash);
+    minedNonce = Math.max(minedNonce, tx.nonce + 1);
+    receipts.set(tx.hash, { hash: tx.hash, blockNumber: latest, status: 1 });
+  };
+
+  const signer = {
+    sendTransaction: async (request: ethers.TransactionRequest) => {
+      const hash = ethers.id(`sent ${++sent}`);
+      mempool.add(hash);
+      return { hash, maxFeePerGas: request.maxFeePerGas, maxPriorityFeePerGas: request.maxPriorityFeePerGas };
+    },
+  };
+
+  const provider = {
+    getBlockNumber: async () => latest,
+    getBlock: async (number: number) => {
+      const txs = blocks.get(number);
+      return txs ? { prefetchedTransactions: txs.map(tx => ({ ...tx, blockNumber: number })) } : null;
+    },
+    getTransactionReceipt: async (hash: string) => receipts.get(hash) ?? null,
+    getTransaction: async (hash: string) => (mempool.has(hash) ? { hash } : null),
+    getTransactionCount: async () => minedNonce,
+    getFeeData: async () => ({ maxFeePerGas: 10n, maxPriorityFeePerGas: 1n, gasPrice: null }),
+    getSigner: async () => signer,
+    call: async () => '0x',
+  };
+
+  const submit = () => {
+    const hash = ethers.id(`submitted ${NONCE}`);
+    mempool.add(hash);
+    return {
+      hash,
+      from: SENDER,
+      nonce: NONCE,
+      to: TOKEN,
+      data: '0xa9059cbb',
+      value: 0n,
+      gasLimit: 100_000n,
+      maxFeePerGas: 10n,
+      maxPriorityFeePerGas: 1n,
+      gasPrice: 10n,
+    } as unknown as ethers.TransactionResponse;
+  };
+
+  return { provider: provider as unknown as ethers.BrowserProvider, mempool, mine, submit };
+}
+
+// Lets the manager's polls run until the transaction settles
+const settle = <T>(promise: Promise<T>) => vi.advanceTimersByTimeAsync(10_000).then(() => promise);
+
+describe('txManager', () => {
+  let chain: ReturnType<typeof fakeProvider>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    chain = fakeProvider();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves with the receipt once the transaction is mined', async () => {
+    const manager = createTransactionManager(chain.provider, CHAIN_ID, SENDER);
+    const response = chain.submit();
+    const receipt = manager.track(response, 'Transfer');
+
+    await vi.advanceTimersByTimeAsync(4000);
+    chain.mine({ hash: response.hash, from: SENDER, nonce: NONCE, to: TOKEN, data: response.data, value: 0n });
+
+    expect(await settle(receipt)).toMatchObject({ hash: response.hash, status: 1 });
+    expect(manager.getTransactions()[0]).toMatchObject({ status: 'confirmed', blockNumber: 101 });
+  });
+
+  it('rejects as replaced when another call took the nonce', async () => {
+    const manager = createTransactionManager(chain.provider, CHAIN_ID, SENDER);
+    const receipt = manager.track(chain.submit(), 'Transfer');
+    const outcome = expect(receipt).rejects.toMatchObject({ kind: 'replaced' });
+
+    chain.mine({ hash: ethers.id('other'), from: SENDER, nonce: NONCE, to: TOKEN, data: '0x095ea7b3', value: 0n });
+    await settle(outcome);
+
+    expect(manager.getTransactions()[0]).toMatchObject({ status: 'replaced', hash: ethers.id('other') });
+  });
+
+  it('rejects as cancelled when the wallet sent nothing to itself with the nonce', async () => {
+    const manager = createTransactionManager(chain.provider, CHAIN_ID, SENDER);
+    const outcome = expect(manager.track(chain.submit(), 'Transfer')).rejects.toMatchObject({ kind: 'cancelled' });
+
+    chain.mine({ hash: ethers.id('wallet cancel'), from: SENDER, nonce: NONCE, to: SENDER, data: '0x', value: 0n });
+    await settle(outcome);
+  });
+
+  it('counts its own speed-up as the same transaction', async () => {
+    const manager = createTransactionManager(chain.provider, CHAIN_ID, SENDER);
+    const response = chain.submit();
+    const receipt = manager.track(response, 'Transfer');
+    await vi.advanceTimersByTimeAsync(0);
+
+    await manager.speedUp(response.hash);
+    const [, faster] = manager.getTransactions()[0].hashes;
+    expect(manager.getTransactions()[0]).toMatchObject({ hash: faster, maxFeePerGas: '12', maxPriorityFeePerGas: '1' });
+
+    chain.mine({ hash: faster, from: SENDER, nonce: NONCE, to: TOKEN, data: response.data, value: 0n });
+    expect(await settle(receipt)).toMatchObject({ hash: faster });
+  });
+
+  it('rejects as cancelled once its own cancellation is mined', async () => {
+    const manager = createTransactionManager(chain.provider, CHAIN_ID, SENDER);
+    const response = chain.submit();
+    const outcome = expect(manager.track(response, 'Transfer')).rejects.toMatchObject({ kind: 'cancelled' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await manager.cancel(response.hash);
+    const { cancelHash } = manager.getTransactions()[0];
+    chain.mine({ hash: cancelHash!, from: SENDER, nonce: NONCE, to: SENDER, data: '0x', value: 0n });
+    await settle(outcome);
+  });
+
+  it('rejects as dropped once no node has known it for two minutes', async () => {
+    const manager = createTransactionManager(chain.provider, CHAIN_ID, SENDER);
+    const response = chain.submit();
+    const outcome = expect(manager.track(response, 'Transfer')).rejects.toMatchObject({ kind: 'dropped' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    chain.mempool.delete(response.hash);
+    await vi.advanceTimersByTimeAsync(100_000);
+    expect(manager.getTransactions()[0].status).toBe('pending');
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await outcome;
+    expect(manager.getTransactions()[0].status).toBe('dropped');
+  });
+
+  it('rejects whoever still waits when it is disposed, and stops polling', async () => {
+    const manager = createTransactionManager(chain.provider, CHAIN_ID, SENDER);
+    const getReceipt = vi.spyOn(chain.provider, 'getTransactionReceipt');
+    const receipt = manager.track(chain.submit(), 'Transfer');
+    await vi.advanceTimersByTimeAsync(0);
+
+    manager.dispose();
+    await expect(receipt).rejects.toMatchObject({ kind: 'network' });
+
+    const polls = getReceipt.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(getReceipt.mock.calls.length).toBe(polls);
+    expect(manager.getTransactions()[0].status).toBe('pending');
+  });
+});
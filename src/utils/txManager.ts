@@ -0,0 +1,343 @@
+import { ethers } from 'ethers';
+import { TrackedTransaction, TrackedTxStatus } from '../types';
+import { sessionKey } from './session';
+import { asError, decodeTxError, TxErrorKind } from './txErrors';
+
+// Keeps every transaction the dApp submits for a wallet session in localStorage, so a reload does not
+// lose it, and follows it until it is mined, reverted, replaced, cancelled or dropped. Pending ones can
+// be sped up or cancelled by sending another transaction with the same nonce and higher fees.
+
+type Listener = () => void;
+
+export interface TransactionManager {
+  // Records a submitted transaction; resolves with the receipt once it is mined successfully and
+  // rejects with a decoded error for every other outcome
+  track: (tx: ethers.TransactionResponse, purpose: string, params?: Record<string, string | number>) => Promise<ethers.TransactionReceipt>;
+  speedUp: (id: string) => Promise<void>;
+  cancel: (id: string) => Promise<void>;
+  dismiss: (id: string) => void;
+  clearFinished: () => void;
+  getTransactions: () => TrackedTransaction[];
+  subscribe: (listener: Listener) => () => void;
+  // Stops polling and rejects whoever still awaits track(); the stored transactions are picked up
+  // by the next manager for the session
+  dispose: () => void;
+}
+
+const POLL_INTERVAL_MS = 4000;
+// A transaction no node knows about for this long, with its nonce still unused, counts as dropped
+const DROP_AFTER_MS = 120_000;
+// How far back a replacement of a nonce is searched for
+const REPLACEMENT_SCAN_BLOCKS = 100;
+// Nodes only accept a same-nonce replacement that raises both fees by at least 10%
+const FEE_BUMP_PERCENT = 120n;
+const MAX_FINISHED = 50;
+
+const storageKey = (chainId: number, address: string) => `eco-txs:${sessionKey(chainId, address)}`;
+
+const OUTCOME_ERRORS: Record<Exclude<TrackedTxStatus, 'pending' | 'confirmed'>, { kind: TxErrorKind; message: string }> = {
+  reverted: { kind: 'reverted', message: 'Transaction reverted on-chain' },
+  replaced: { kind: 'replaced', message: 'The transaction was replaced by another one with the same nonce' },
+  cancelled: { kind: 'cancelled', message: 'The transaction was cancelled' },
+  dropped: { kind: 'dropped', message: 'The transaction was dropped from the mempool without being mined' },
+};
+
+const bump = (value: bigint) => (value * FEE_BUMP_PERCENT) / 100n;
+const maxOf = (a: bigint, b: bigint | null | undefined) => (b != null && b > a ? b : a);
+
+function loadTransactions(chainId: number, address: string): TrackedTransaction[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(storageKey(chainId, address));
+    return stored ? (JSON.parse(stored) as TrackedTransaction[]) : [];
+  } catch (error) {
+    console.error('Error reading tracked transactions:', error);
+    return [];
+  }
+}
+
+export function createTransactionManager(
+  provider: ethers.BrowserProvider,
+  chainId: number,
+  address: string
+): TransactionManager {
+  const transactions = new Map<string, TrackedTransaction>(
+    loadTransactions(chainId, address).map(tx => [tx.id, tx])
+  );
+  const waiters = new Map<string, { resolve: (receipt: ethers.TransactionReceipt) => void; reject: (error: unknown) => void }[]>();
+  const listeners = new Set<Listener>();
+  // Last time a node still knew one of a transaction's hashes; not persisted, so a reload restarts the clock
+  const lastSeen = new Map<string, number>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling = false;
+
+  const getTransactions = () =>
+    Array.from(transactions.values()).sort((a, b) => b.submittedAt - a.submittedAt);
+
+  const save = () => {
+    // Pending transactions are always kept; only the oldest finished ones are let go
+    const finished = getTransactions().filter(tx => tx.status !== 'pending');
+    finished.slice(MAX_FINISHED).forEach(tx => transactions.delete(tx.id));
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(storageKey(chainId, address), JSON.stringify(getTransactions()));
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  const settle = (tx: TrackedTransaction, receipt: ethers.TransactionReceipt | null) => {
+    const pending = waiters.get(tx.id) ?? [];
+    waiters.delete(tx.id);
+    if (tx.status === 'confirmed' && receipt) {
+      pending.forEach(waiter => waiter.resolve(receipt));
+    } else if (tx.status !== 'pending' && tx.status !== 'confirmed') {
+      const outcome = OUTCOME_ERRORS[tx.status];
+      const error = asError({ ...outcome, message: tx.error ?? outcome.message });
+      pending.forEach(waiter => waiter.reject(error));
+    }
+  };
+
+  // Re-runs a reverted transaction as a call on the block before it to recover the reason
+  const revertReason = async (tx: TrackedTransaction, receipt: ethers.TransactionReceipt) => {
+    try {
+      await provider.call({ from: tx.from, to: tx.to, data: tx.data, value: tx.value, blockTag: receipt.blockNumber - 1 });
+    } catch (error) {
+      const decoded = decodeTxError(error);
+      if (decoded.kind === 'contract' || decoded.kind === 'reverted') return decoded.message;
+    }
+    return undefined;
+  };
+
+  const finishMined = async (tx: TrackedTransaction, receipt: ethers.TransactionReceipt) => {
+    tx.hash = receipt.hash;
+    tx.blockNumber = receipt.blockNumber;
+    if (receipt.hash === tx.cancelHash) {
+      tx.status = 'cancelled';
+    } else if (receipt.status === 1) {
+      tx.status = 'confirmed';
+    } else {
+      tx.status = 'reverted';
+      tx.error = await revertReason(tx, receipt);
+    }
+  };
+
+  // Someone took the nonce with a transaction we did not send: a wallet's own speed-up keeps the
+  // calldata, a wallet's cancel sends nothing to itself, anything else replaced ours
+  const findReplacement = async (tx: TrackedTransaction) => {
+    const latest = await provider.getBlockNumber();
+    const from = Math.max(tx.startBlock, latest - REPLACEMENT_SCAN_BLOCKS);
+    for (let number = latest; number >= from; number--) {
+      const block = await provider.getBlock(number, true);
+      const replacement = block?.prefetchedTransactions.find(candidate =>
+        candidate.from.toLowerCase() === tx.from.toLowerCase() && candidate.nonce === tx.nonce);
+      if (!replacement) continue;
+
+      const receipt = await provider.getTransactionReceipt(replacement.hash);
+      const sameCall = replacement.to?.toLowerCase() === tx.to?.toLowerCase()
+        && replacement.data === tx.data
+        && replacement.value.toString() === tx.value;
+      if (sameCall) {
+        // The receipt can lag the block on some nodes; the next poll picks it up
+        if (!receipt) return null;
+        if (!tx.hashes.includes(replacement.hash)) tx.hashes.push(replacement.hash);
+        await finishMined(tx, receipt);
+        return receipt;
+      }
+      tx.hash = replacement.hash;
+      tx.blockNumber = replacement.blockNumber ?? undefined;
+      tx.status = replacement.to?.toLowerCase() === tx.from.toLowerCase() && replacement.data === '0x' ? 'cancelled' : 'replaced';
+      return null;
+    }
+    // The provider's block number can trail the nonce by a block; only give up once the scan no
+    // longer reaches back to the submission
+    if (from > tx.startBlock) tx.status = 'replaced';
+    return null;
+  };
+
+  const check = async (tx: TrackedTransaction) => {
+    const receipts = await Promise.all(tx.hashes.map(hash => provider.getTransactionReceipt(hash)));
+    const receipt = receipts.find(Boolean) ?? null;
+    if (receipt) {
+      await finishMined(tx, receipt);
+      return receipt;
+    }
+
+    const minedNonce = await provider.getTransactionCount(tx.from, 'latest');
+    if (minedNonce > tx.nonce) {
+      return findReplacement(tx);
+    }
+
+    const known = await Promise.all(tx.hashes.map(hash => provider.getTransaction(hash)));
+    if (known.some(Boolean) || !lastSeen.has(tx.id)) {
+      lastSeen.set(tx.id, Date.now());
+    } else if (Date.now() - lastSeen.get(tx.id)! > DROP_AFTER_MS) {
+      tx.status = 'dropped';
+    }
+    return null;
+  };
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const pending = getTransactions().filter(tx => tx.status === 'pending');
+      if (pending.length === 0) {
+        stop();
+        return;
+      }
+      for (const tx of pending) {
+        try {
+          const receipt = await check(tx);
+          if (tx.status !== 'pending') {
+            save();
+            settle(tx, receipt);
+          }
+        } catch (error) {
+          console.error(`Error checking transaction ${tx.hash}:`, error);
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  const start = () => {
+    if (!timer) timer = setInterval(poll, POLL_INTERVAL_MS);
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const track: TransactionManager['track'] = async (response, purpose, params = {}) => {
+    const tx: TrackedTransaction = {
+      id: response.hash,
+      chainId,
+      from: response.from,
+      purpose,
+      params: Object.fromEntries(Object.entries(params).map(([key, value]) => [key, String(value)])),
+      status: 'pending',
+      hash: response.hash,
+      hashes: [response.hash],
+      nonce: response.nonce,
+      to: response.to,
+      data: response.data,
+      value: response.value.toString(),
+      gasLimit: response.gasLimit.toString(),
+      maxFeePerGas: response.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: response.maxPriorityFeePerGas?.toString(),
+      gasPrice: response.maxFeePerGas == null ? response.gasPrice.toString() : undefined,
+      submittedAt: Date.now(),
+      startBlock: await provider.getBlockNumber(),
+    };
+    transactions.set(tx.id, tx);
+    save();
+    start();
+
+    return new Promise((resolve, reject) => {
+      waiters.set(tx.id, [...(waiters.get(tx.id) ?? []), { resolve, reject }]);
+      poll();
+    });
+  };
+
+  // Sends another transaction with the same nonce and fees raised enough for nodes to accept it
+  const replace = async (id: string, request: ethers.TransactionRequest) => {
+    const tx = transactions.get(id);
+    if (!tx || tx.status !== 'pending') throw new Error('Only pending transactions can be replaced');
+
+    const signer = await provider.getSigner(tx.from);
+    const feeData = await provider.getFeeData();
+    const fees: ethers.TransactionRequest = tx.maxFeePerGas
+      ? {
+          maxFeePerGas: maxOf(bump(BigInt(tx.maxFeePerGas)), feeData.maxFeePerGas),
+          maxPriorityFeePerGas: maxOf(bump(BigInt(tx.maxPriorityFeePerGas ?? '0')), feeData.maxPriorityFeePerGas),
+        }
+      : { gasPrice: maxOf(bump(BigInt(tx.gasPrice ?? '0')), feeData.gasPrice) };
+
+    const sent = await signer.sendTransaction({ nonce: tx.nonce, ...request, ...fees });
+    tx.hashes.push(sent.hash);
+    tx.maxFeePerGas = sent.maxFeePerGas?.toString();
+    tx.maxPriorityFeePerGas = sent.maxPriorityFeePerGas?.toString();
+    tx.gasPrice = sent.maxFeePerGas == null ? sent.gasPrice.toString() : undefined;
+    lastSeen.set(tx.id, Date.now());
+    return { tx, sent };
+  };
+
+  const speedUp = async (id: string) => {
+    const current = transactions.get(id);
+    if (!current) throw new Error('Unknown transaction');
+    // Once cancelled, speeding up means getting the cancellation mined sooner
+    if (current.cancelHash) return cancel(id);
+    const { tx, sent } = await replace(id, {
+      to: current.to,
+      data: current.data,
+      value: BigInt(current.value),
+      gasLimit: BigInt(current.gasLimit),
+    });
+    tx.hash = sent.hash;
+    save();
+    start();
+  };
+
+  const cancel = async (id: string) => {
+    const current = transactions.get(id);
+    if (!current) throw new Error('Unknown transaction');
+    const { tx, sent } = await replace(id, { to: current.from, data: '0x', value: 0n, gasLimit: 21000n });
+    tx.cancelHash = sent.hash;
+    save();
+    start();
+  };
+
+  const dismiss = (id: string) => {
+    if (transactions.get(id)?.status === 'pending') return;
+    transactions.delete(id);
+    save();
+  };
+
+  const dispose = () => {
+    stop();
+    const error = asError({
+      kind: 'network',
+      message: 'The wallet connection changed before the transaction finished. Follow it in the transactions tray',
+    });
+    waiters.forEach(pending => pending.forEach(waiter => waiter.reject(error)));
+    waiters.clear();
+  };
+
+  const clearFinished = () => {
+    getTransactions().filter(tx => tx.status !== 'pending').forEach(tx => transactions.delete(tx.id));
+    save();
+  };
+
+  const subscribe = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // Transactions still pending from an earlier visit are picked up again
+  if (getTransactions().some(tx => tx.status === 'pending')) start();
+
+  return { track, speedUp, cancel, dismiss, clearFinished, getTransactions, subscribe, dispose };
+}
+
+// One manager per wallet session and provider, so every component shares the same transactions
+const managers = new Map<string, { provider: ethers.BrowserProvider; manager: TransactionManager }>();
+
+export function getTransactionManager(
+  provider: ethers.BrowserProvider,
+  chainId: number,
+  address: string
+): TransactionManager {
+  const key = sessionKey(chainId, address);
+  const cached = managers.get(key);
+  if (cached && cached.provider === provider) {
+    return cached.manager;
+  }
+  // A reconnect brings a new provider; the old manager must stop writing the same storage entry
+  cached?.manager.dispose();
+  const manager = createTransactionManager(provider, chainId, address);
+  managers.set(key, { provider, manager });
+  return manager;
+}
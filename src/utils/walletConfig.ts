@@ -0,0 +1,67 @@
+import { Connector, CreateConnectorFn, createConfig, http, injected, mock } from '@wagmi/core';
+import { walletConnect } from 'wagmi/connectors';
+import { Address, Chain, defineChain } from 'viem';
+import { NetworkConfig } from '../constants/networks';
+import { DAPP_METADATA, MOCK_WALLET_ACCOUNTS, WALLETCONNECT_PROJECT_ID } from '../constants/wallet';
+import { WalletOption } from '../types';
+import { getSupportedNetworks } from './networks';
+
+// wagmi config behind useWallet. Chains come from the network registry, so the chain metadata wallets are
+// given by wallet_addEthereumChain is the same one the rest of the app uses.
+
+const toChain = (network: NetworkConfig): Chain => defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: network.nativeCurrency,
+  rpcUrls: { default: { http: network.rpcUrls } },
+  blockExplorers: network.explorerUrl
+    ? { default: { name: `${network.name} Explorer`, url: network.explorerUrl } }
+    : undefined,
+  testnet: network.testnet,
+});
+
+const [firstChain, ...otherChains] = getSupportedNetworks().map(toChain);
+
+const connectors: CreateConnectorFn[] = [injected()];
+if (WALLETCONNECT_PROJECT_ID) {
+  // The pairing QR is drawn by WalletConnect.tsx from the display_uri message
+  connectors.push(walletConnect({
+    projectId: WALLETCONNECT_PROJECT_ID,
+    showQrModal: false,
+    metadata: { ...DAPP_METADATA, url: window.location.origin },
+  }));
+}
+if (MOCK_WALLET_ACCOUNTS.length > 0) {
+  connectors.push(mock({
+    accounts: MOCK_WALLET_ACCOUNTS as [Address, ...Address[]],
+    features: { reconnect: true },
+  }));
+}
+
+// EIP-6963 discovery (multiInjectedProviderDiscovery) adds one connector per announced browser wallet,
+// and the last used connector is kept in localStorage so reconnect() can restore it without a prompt
+export const walletConfig = createConfig({
+  chains: [firstChain, ...otherChains],
+  connectors,
+  transports: Object.fromEntries(
+    [firstChain, ...otherChains].map(chain => [chain.id, http(chain.rpcUrls.default.http[0])])
+  ),
+  multiInjectedProviderDiscovery: true,
+});
+
+// The generic injected connector only matters for wallets that predate EIP-6963
+export function getWalletOptions(available: readonly Connector[]): WalletOption[] {
+  const hasDiscovered = available.some(connector => connector.type === 'injected' && connector.id !== 'injected');
+  const hasLegacyInjected = typeof window !== 'undefined' && 'ethereum' in window;
+
+  return available
+    .filter(connector => connector.id !== 'injected' || (!hasDiscovered && hasLegacyInjected))
+    .map(toWalletOption);
+}
+
+export const toWalletOption = (connector: Connector): WalletOption => ({
+  id: connector.uid,
+  name: connector.id === 'injected' ? 'Browser Wallet' : connector.name,
+  icon: connector.icon,
+  kind: connector.type === 'walletConnect' || connector.type === 'mock' ? connector.type : 'injected',
+});